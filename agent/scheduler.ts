@@ -0,0 +1,53 @@
+// ============================================================
+// Solana Narrative Pulse — Scheduled Detection Worker
+// ============================================================
+// Run: npx tsx agent/scheduler.ts          (loop every SCHEDULER_INTERVAL_MINUTES)
+//      npx tsx agent/scheduler.ts --once   (single run, e.g. from system cron)
+//
+// Shares the lock and state file with /api/cron/detect, so the worker
+// and the cron route never run detection at the same time.
+
+import { runScheduledDetection, readSchedulerState } from '@/lib/scheduler';
+
+const once = process.argv.includes('--once');
+let timer: NodeJS.Timeout | null = null;
+let stopping = false;
+let firstTick = true;
+
+async function tick(): Promise<void> {
+    const outcome = await runScheduledDetection('worker', { force: once });
+
+    if (outcome.status === 'skipped') {
+        // The loop re-checks every minute; only report the interesting skips
+        if (outcome.reason === 'locked' || firstTick) console.log(`⏭️ Skipped (${outcome.reason}) — next run ${outcome.nextRunAt || 'as soon as possible'}`);
+    } else {
+        console.log(`${outcome.run.status === 'ok' ? '✅' : '❌'} Run ${outcome.run.status} in ${outcome.run.durationMs}ms — next run ${outcome.nextRunAt}`);
+    }
+
+    firstTick = false;
+    if (once || stopping) return;
+
+    // Sleep until the next due time; re-check at least every minute so
+    // runs from the cron route push the schedule forward too
+    const { nextRunAt } = await readSchedulerState();
+    const wait = nextRunAt ? Math.max(0, new Date(nextRunAt).getTime() - Date.now()) : 0;
+    timer = setTimeout(() => { tick().catch(fatal); }, Math.min(Math.max(wait, 1000), 60_000));
+}
+
+function fatal(err: unknown): void {
+    console.error('❌ Scheduler worker crashed:', err);
+    process.exit(1);
+}
+
+function shutdown(): void {
+    // An in-flight run finishes and releases its lock; no new run starts
+    stopping = true;
+    if (timer) clearTimeout(timer);
+    console.log('👋 Scheduler worker stopping');
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+console.log(`⏰ Scheduler worker started${once ? ' (single run)' : ''}`);
+tick().catch(fatal);
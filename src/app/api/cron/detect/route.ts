@@ -0,0 +1,58 @@
+// ============================================================
+// API: /api/cron/detect — Scheduled detection trigger
+// ============================================================
+// For cron services (e.g. Vercel Cron). Requires
+// `Authorization: Bearer <CRON_SECRET>`. Runs collect → detect →
+// save only when the interval has elapsed (`?force=true` overrides)
+// and no other run holds the lock. Ideas are generated after the
+// response (poll /api/ideas?job=<ideaJobId>), so the run and its lock
+// finish well inside maxDuration.
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { runScheduledDetection } from '@/lib/scheduler';
+import { requireBearerSecret } from '@/lib/request-auth';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+async function handle(request: NextRequest) {
+    const denied = requireBearerSecret(request, 'CRON_SECRET', 'Scheduled detection is disabled');
+    if (denied) return denied;
+
+    try {
+        const force = request.nextUrl.searchParams.get('force') === 'true';
+        const outcome = await runScheduledDetection('cron', {
+            force,
+            onIdeaJob: done => after(done),
+        });
+
+        if (outcome.status === 'skipped' && outcome.reason === 'locked') {
+            return NextResponse.json(
+                { success: false, error: 'A detection run is already in progress', data: outcome },
+                { status: 409 },
+            );
+        }
+        if (outcome.status === 'completed' && outcome.run.status === 'failed') {
+            return NextResponse.json(
+                { success: false, error: outcome.run.error || 'Scheduled detection failed', data: outcome },
+                { status: 500 },
+            );
+        }
+        return NextResponse.json({ success: true, data: outcome });
+    } catch (error: unknown) {
+        console.error('Cron detect error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Scheduled detection failed' },
+            { status: 500 },
+        );
+    }
+}
+
+// Vercel Cron issues GET; POST for other schedulers
+export async function GET(request: NextRequest) {
+    return handle(request);
+}
+
+export async function POST(request: NextRequest) {
+    return handle(request);
+}
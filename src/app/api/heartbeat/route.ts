@@ -1,22 +1,40 @@
 // ============================================================
 // API: GET /api/heartbeat — Agent heartbeat endpoint
 // ============================================================
+// lastAction / nextAction come from the scheduler's state file, so
+// they reflect real scheduled detection runs (see lib/scheduler.ts).
 
 import { NextResponse } from 'next/server';
 import { AgentHeartbeat } from '@/lib/types';
 import { CONFIG } from '@/lib/config';
+import { readSchedulerState } from '@/lib/scheduler';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET() {
+    const { lastRun, nextRunAt } = await readSchedulerState();
+
+    let lastAction = 'serving dashboard';
+    if (lastRun?.status === 'running') {
+        lastAction = `scheduled detection running since ${lastRun.startedAt}`;
+    } else if (lastRun) {
+        lastAction = lastRun.status === 'ok'
+            ? `scheduled detection saved ${lastRun.editionId} (${lastRun.narrativeCount} narratives) at ${lastRun.finishedAt}`
+            : `scheduled detection failed at ${lastRun.finishedAt}: ${lastRun.error}`;
+    }
+
     const heartbeat: AgentHeartbeat = {
-        status: 'ok',
+        status: lastRun?.status === 'failed' ? 'degraded' : 'ok',
         agentName: CONFIG.superteam.agentName,
         time: new Date().toISOString(),
         version: CONFIG.superteam.agentVersion,
         capabilities: ['register', 'listings', 'submit', 'narratives', 'signals'],
-        lastAction: 'serving dashboard',
-        nextAction: 'waiting for narrative detection request',
+        lastAction,
+        nextAction: nextRunAt
+            ? `scheduled detection at ${nextRunAt}`
+            : 'waiting for narrative detection request',
+        lastRunAt: lastRun ? (lastRun.finishedAt || lastRun.startedAt) : null,
+        nextRunAt,
     };
 
     return NextResponse.json(heartbeat);
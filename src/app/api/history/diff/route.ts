@@ -0,0 +1,43 @@
+// ============================================================
+// API: GET /api/history/diff — What changed between two editions
+// ============================================================
+// Query: ?from=<editionId>&to=<editionId>
+// Returns narratives added, dropped and renamed, confidence and
+// signalStrength deltas, ideas added/removed and category shifts.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getEdition, diffEditions } from '@/lib/history';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const fromId = params.get('from');
+    const toId = params.get('to');
+
+    if (!fromId || !toId) {
+        return NextResponse.json(
+            { success: false, error: 'Missing required "from" and "to" edition ids' },
+            { status: 400 },
+        );
+    }
+
+    try {
+        const [from, to] = await Promise.all([getEdition(fromId), getEdition(toId)]);
+        const missing = [!from && fromId, !to && toId].filter(Boolean);
+        if (!from || !to) {
+            return NextResponse.json(
+                { success: false, error: `Edition not found: ${missing.join(', ')}` },
+                { status: 404 },
+            );
+        }
+
+        return NextResponse.json({ success: true, data: diffEditions(from, to) });
+    } catch (error: unknown) {
+        console.error('History diff API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to diff editions' },
+            { status: 500 },
+        );
+    }
+}
@@ -1,31 +1,71 @@
 // ============================================================
 // API: GET /api/history — Retrieve narrative history
 // ============================================================
+// ?lineage=<lineageId> or ?slug=<slug> returns one narrative's
+// trajectory, followed across renames via its lineage.
+// ?category=<category> returns matching narratives across editions.
+// Otherwise returns editions, newest first:
+//   ?limit=N (default 20) &offset=N &from=ISO &to=ISO
 
 import { NextResponse } from 'next/server';
-import { readHistory, getNarrativeTrajectory } from '@/lib/history';
+import { readHistory, countEditions, findNarratives, getNarrativeTrajectory } from '@/lib/history';
 
 export const dynamic = 'force-dynamic';
 
+function parseDate(value: string | null): Date | undefined | null {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+function parseCount(value: string | null): number | undefined | null {
+    if (!value) return undefined;
+    const n = parseInt(value, 10);
+    return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
 export async function GET(request: Request) {
     try {
         const { searchParams } = new URL(request.url);
-        const slug = searchParams.get('slug');
+        const key = searchParams.get('lineage') || searchParams.get('slug');
+
+        // If a lineage or slug is provided, return trajectory for that narrative
+        if (key) {
+            const trajectory = await getNarrativeTrajectory(key);
+            return NextResponse.json({
+                success: true,
+                data: {
+                    lineageId: trajectory[trajectory.length - 1]?.lineageId || null,
+                    trajectory,
+                },
+            });
+        }
+
+        const from = parseDate(searchParams.get('from'));
+        const to = parseDate(searchParams.get('to'));
+        const limit = parseCount(searchParams.get('limit'));
+        const offset = parseCount(searchParams.get('offset'));
+        if (from === null || to === null || limit === null || offset === null) {
+            return NextResponse.json(
+                { success: false, error: '"from"/"to" must be ISO dates and "limit"/"offset" non-negative integers' },
+                { status: 400 }
+            );
+        }
 
-        // If slug is provided, return trajectory for that narrative
-        if (slug) {
-            const trajectory = await getNarrativeTrajectory(slug);
-            return NextResponse.json({ success: true, data: { trajectory } });
+        const category = searchParams.get('category');
+        if (category) {
+            const narratives = await findNarratives({ category, from, to, limit: limit ?? 50 });
+            return NextResponse.json({ success: true, data: { category, narratives } });
         }
 
-        // Otherwise return full history
-        const history = await readHistory();
+        // Otherwise return a page of editions
+        const history = await readHistory({ from, to, limit, offset });
 
         return NextResponse.json({
             success: true,
             data: {
                 editions: history.editions,
-                totalEditions: history.editions.length,
+                totalEditions: await countEditions(),
                 lastUpdated: history.lastUpdated,
             },
         });
@@ -1,10 +1,14 @@
 // ============================================================
 // API: POST /api/idea-detail — Generate deep-dive for a single idea
 // ============================================================
-// Called on-demand when a user clicks an idea in the UI.
+// Called on-demand when a user clicks an idea in the UI. Each request
+// is one usage run; once the LLM budget is spent it answers 429.
+// Identical requests are served from the LLM response cache unless
+// the body sets `refresh: true`.
 
 import { NextRequest, NextResponse } from 'next/server';
 import { generateIdeaDeepDive } from '@/lib/ai/generator';
+import { isBudgetExceeded, withUsageRun } from '@/lib/usage-ledger';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 30;
@@ -12,7 +16,7 @@ export const maxDuration = 30;
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { idea, narrative } = body;
+        const { idea, narrative, refresh } = body;
 
         if (!idea?.title || !narrative?.name) {
             return NextResponse.json(
@@ -21,7 +25,7 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const result = await generateIdeaDeepDive(idea, narrative);
+        const result = await withUsageRun('/api/idea-detail', () => generateIdeaDeepDive(idea, narrative, { refresh: refresh === true }));
 
         return NextResponse.json({
             success: true,
@@ -31,7 +35,7 @@ export async function POST(request: NextRequest) {
         console.error('Idea deep-dive failed:', err);
         return NextResponse.json(
             { success: false, error: err.message || 'Deep-dive generation failed' },
-            { status: 500 },
+            { status: isBudgetExceeded(err) ? 429 : 500 },
         );
     }
 }
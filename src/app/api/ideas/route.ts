@@ -0,0 +1,73 @@
+// ============================================================
+// API: /api/ideas — Background idea generation status and retry
+// ============================================================
+// GET ?job=<id> is polled by the dashboard when /api/narratives
+// closed its stream before every narrative's ideas were ready. The id
+// is the `ideaJob.id` from the narratives result (the edition id when
+// the edition was saved). Returns each narrative's status and ideas.
+//
+// POST { narrative, editionId?, previousIdeaTitles? } generates one
+// narrative's ideas again after they failed, saving them into the
+// edition when one is given. Returns { narrativeId, status, ideas, error? }.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIdeaJob, pendingNarrativeIds, retryIdeas } from '@/lib/ai/idea-jobs';
+import { checkRateLimit, RATE_LIMITS } from '@/lib/rate-limit';
+import { Narrative } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 45;
+
+export async function GET(request: NextRequest) {
+    const id = request.nextUrl.searchParams.get('job');
+    if (!id) {
+        return NextResponse.json({ success: false, error: '"job" is required' }, { status: 400 });
+    }
+
+    try {
+        const job = await getIdeaJob(id);
+        if (!job) {
+            return NextResponse.json({ success: false, error: `Unknown idea job "${id}"` }, { status: 404 });
+        }
+        return NextResponse.json({ success: true, data: { ...job, pending: pendingNarrativeIds(job) } });
+    } catch (error: unknown) {
+        console.error('Ideas API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to read idea job' },
+            { status: 500 },
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const rl = checkRateLimit(request, 'narratives', RATE_LIMITS.NARRATIVES);
+    if (!rl.allowed) return rl.response;
+
+    let body: { narrative?: Narrative; editionId?: string | null; previousIdeaTitles?: string[] };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const { narrative, editionId, previousIdeaTitles } = body;
+    if (!narrative?.id) {
+        return NextResponse.json({ success: false, error: '"narrative" is required' }, { status: 400 });
+    }
+
+    try {
+        console.log(`💡 Retrying ideas for "${narrative.name}"`);
+        const entry = await retryIdeas(narrative, {
+            editionId: editionId ?? null,
+            previousIdeaTitles: previousIdeaTitles || [],
+            route: '/api/ideas',
+        });
+        return NextResponse.json({ success: true, data: entry });
+    } catch (error: unknown) {
+        console.error('Ideas retry error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to generate ideas' },
+            { status: 500 },
+        );
+    }
+}
@@ -3,16 +3,41 @@
 // ============================================================
 // Uses Server-Sent Events (SSE) streaming to keep the connection alive
 // and prevent Vercel gateway timeouts during AI processing.
-
-import { NextRequest } from 'next/server';
+//
+// Events, in order:
+//   status        — progress step ({ step, message })
+//   narrative     — one per narrative as soon as it is parsed (no ideas yet)
+//   signalContext — AI insight for one signal ({ signalId, context })
+//   ideas         — a narrative's ideas once generated, or why they
+//                   failed ({ narrativeId, status, ideas, error? })
+//   result        — the complete payload, plus edition statuses
+//   error / ping
+//
+// AI narratives get their ideas from a background idea job started
+// after the edition is saved. The stream waits for it while the
+// function still has time; ideas that miss the deadline are listed in
+// `ideaJob.pending` and polled from /api/ideas?job=<ideaJob.id>.
+// Narratives whose generation failed are listed in `ideaJob.failed`
+// and can be retried through POST /api/ideas. The job is registered
+// with `after()` so the function stays alive until it finishes.
+// `?mode=heuristic` (or `mode` in the POST body) skips the LLM and
+// runs the deterministic engine in lib/ai/heuristic.ts.
+
+import { NextRequest, after } from 'next/server';
 import { collectAllSignals } from '@/lib/collectors/aggregator';
-import { detectNarratives } from '@/lib/ai/detector';
+import { announceDetection, detectNarratives, type DetectionEvents } from '@/lib/ai/detector';
+import { detectNarrativesHeuristic } from '@/lib/ai/heuristic';
+import { startIdeaJob, pendingNarrativeIds, failedNarratives, type IdeaJob } from '@/lib/ai/idea-jobs';
 import { saveEdition } from '@/lib/history';
+import { withUsageRun } from '@/lib/usage-ledger';
 import { Signal } from '@/lib/types';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
 
+// Leave time for the result event before the function is cut off
+const STREAM_DEADLINE_MS = (maxDuration - 6) * 1000;
+
 // POST: Frontend sends pre-fetched signals
 export async function POST(request: NextRequest) {
     return handleStreaming(request, true);
@@ -27,6 +52,7 @@ async function handleStreaming(request: NextRequest, isPost: boolean) {
     const startTime = Date.now();
     const url = new URL(request.url);
     const forceRefresh = url.searchParams.get('refresh') === 'true';
+    let mode = url.searchParams.get('mode') === 'heuristic' ? 'heuristic' : 'ai';
 
     let previousIdeaTitles: string[] = [];
     let clientSignals: Signal[] | null = null;
@@ -36,6 +62,7 @@ async function handleStreaming(request: NextRequest, isPost: boolean) {
             const body = await request.json();
             previousIdeaTitles = body.previousIdeaTitles || [];
             clientSignals = body.signals || null;
+            if (body.mode === 'heuristic') mode = 'heuristic';
         } catch {
             // Invalid body — proceed without
         }
@@ -43,10 +70,26 @@ async function handleStreaming(request: NextRequest, isPost: boolean) {
 
     const encoder = new TextEncoder();
 
+    // The idea job outlives the stream when it misses the deadline or
+    // the client disconnects; after that, events are dropped
+    let open = true;
+
+    // Settles with the idea job (or at once if none starts); registered
+    // with after() below so the platform keeps the function running
+    let releaseBackground: (work?: Promise<unknown>) => void = () => {};
+    const background = new Promise<unknown>(resolve => { releaseBackground = resolve; });
+    after(background);
+
     const stream = new ReadableStream({
         async start(controller) {
             const send = (event: string, data: any) => {
-                controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+                if (!open) return;
+                try {
+                    controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+                } catch {
+                    // Stream already cancelled or closed
+                    open = false;
+                }
             };
 
             try {
@@ -70,23 +113,39 @@ async function handleStreaming(request: NextRequest, isPost: boolean) {
                     send('status', { step: 'signals', message: `Collected ${signals.length} signals` });
                 }
 
-                // Step 2: AI Detection — send keep-alive pings every 5s
-                console.log('🔄 SSE: starting AI detection...');
-                send('status', { step: 'detecting', message: 'Running AI narrative detection...' });
+                // Step 2: Detection — send keep-alive pings every 5s
+                console.log(`🔄 SSE: starting ${mode} detection...`);
+                send('status', {
+                    step: 'detecting',
+                    message: mode === 'heuristic' ? 'Running heuristic narrative detection...' : 'Running AI narrative detection...',
+                });
 
                 const keepAlive = setInterval(() => {
                     console.log('🔄 SSE: ping');
                     send('ping', { time: Date.now() });
                 }, 5000);
 
+                let narrativeCount = 0;
+                const events: DetectionEvents = {
+                    onNarrative: narrative => {
+                        send('narrative', narrative);
+                        if (++narrativeCount === 1) {
+                            send('status', { step: 'narratives', message: 'Narratives detected, generating ideas...' });
+                        }
+                    },
+                    onSignalContext: (signalId, context) => send('signalContext', { signalId, context }),
+                    onIdeas: (narrativeId, ideas) => send('ideas', { narrativeId, status: 'done', ideas }),
+                };
+
                 let narrativeResult;
                 try {
-                    narrativeResult = await detectNarratives(signals, previousIdeaTitles);
+                    narrativeResult = mode === 'heuristic'
+                        ? announceDetection(detectNarrativesHeuristic(signals), events)
+                        : await withUsageRun('/api/narratives', () => detectNarratives(signals, events));
                 } catch (aiErr: any) {
                     clearInterval(keepAlive);
                     console.error('🔴 AI detection threw:', aiErr.message);
                     send('error', { success: false, error: `AI failed: ${aiErr.message}` });
-                    controller.close();
                     return;
                 }
 
@@ -111,25 +170,57 @@ async function handleStreaming(request: NextRequest, isPost: boolean) {
                     console.error('Failed to save edition (non-fatal):', err);
                 }
 
+                // Step 5: AI ideas for narratives that came back without any
+                const needIdeas = narratives.filter(n => n.ideas.length === 0);
+                let ideaJob: IdeaJob | null = null;
+                if (needIdeas.length > 0) {
+                    send('status', { step: 'ideas', message: `Generating ideas for ${needIdeas.length} narratives...` });
+                    const { job, done } = startIdeaJob(needIdeas, {
+                        editionId: edition?.id,
+                        previousIdeaTitles,
+                        route: '/api/narratives:ideas',
+                        onIdeas: entry => send('ideas', entry),
+                    });
+                    ideaJob = job;
+                    releaseBackground(done);
+
+                    const ideasKeepAlive = setInterval(() => send('ping', { time: Date.now() }), 5000);
+                    let deadline: ReturnType<typeof setTimeout> | undefined;
+                    await Promise.race([
+                        done,
+                        new Promise(resolve => { deadline = setTimeout(resolve, Math.max(0, startTime + STREAM_DEADLINE_MS - Date.now())); }),
+                    ]);
+                    clearInterval(ideasKeepAlive);
+                    clearTimeout(deadline);
+                }
+
+                const jobIdeas = new Map(ideaJob?.narratives.filter(n => n.status !== 'pending').map(n => [n.narrativeId, n.ideas]));
+                const pending = ideaJob ? pendingNarrativeIds(ideaJob) : [];
+                const failed = ideaJob ? failedNarratives(ideaJob) : [];
+                if (pending.length > 0) console.log(`🔄 SSE: ${pending.length} narratives still generating ideas (job ${ideaJob!.id})`);
+
                 console.log('🔄 SSE: sending result event');
                 // Send final result
                 send('result', {
                     success: true,
                     data: {
-                        narratives,
+                        narratives: narratives.map(n => (jobIdeas.has(n.id) ? { ...n, ideas: jobIdeas.get(n.id)! } : n)),
                         signals: enrichedSignals,
                         signalCount: signals.length,
                         collectedAt,
                         processingTime,
+                        mode,
                         fromCache: false,
                         edition: edition ? {
                             id: edition.id,
                             narrativeStatuses: edition.narratives.map(n => ({
                                 slug: n.slug,
+                                lineageId: n.lineageId,
                                 status: n.status,
                                 confidenceDelta: n.confidenceDelta,
                             })),
                         } : null,
+                        ideaJob: ideaJob ? { id: ideaJob.id, pending, failed } : null,
                     },
                 });
 
@@ -140,9 +231,16 @@ async function handleStreaming(request: NextRequest, isPost: boolean) {
                     error: error.message || 'Failed to detect narratives',
                 });
             } finally {
-                controller.close();
+                releaseBackground();
+                if (open) {
+                    open = false;
+                    controller.close();
+                }
             }
         },
+        cancel() {
+            open = false;
+        },
     });
 
     return new Response(stream, {
@@ -3,11 +3,13 @@
 // ============================================================
 // Called on 2nd+ Detect: skips signal collection and narrative detection,
 // only generates fresh ideas. Much faster than full pipeline.
+// `refresh: true` in the body bypasses the LLM response cache.
 
 import { NextRequest, NextResponse } from 'next/server';
 import { generateIdeasForNarrative } from '@/lib/ai/generator';
 import { Narrative } from '@/lib/types';
 import { checkRateLimit, RATE_LIMITS } from '@/lib/rate-limit';
+import { withUsageRun } from '@/lib/usage-ledger';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 45;
@@ -17,7 +19,7 @@ export async function POST(request: NextRequest) {
     if (!rl.allowed) return rl.response;
 
     try {
-        const { narratives, previousIdeaTitles } = await request.json();
+        const { narratives, previousIdeaTitles, refresh } = await request.json();
 
         if (!narratives?.length) {
             return NextResponse.json(
@@ -29,17 +31,17 @@ export async function POST(request: NextRequest) {
         console.log(`🔄 Regenerating ideas for ${narratives.length} narratives (${previousIdeaTitles?.length || 0} seen titles)`);
         const startTime = Date.now();
 
-        const updatedNarratives = await Promise.all(
+        const updatedNarratives = await withUsageRun('/api/regenerate-ideas', () => Promise.all(
             narratives.map(async (narrative: Narrative) => {
                 try {
-                    const ideas = await generateIdeasForNarrative(narrative, previousIdeaTitles || []);
+                    const ideas = await generateIdeasForNarrative(narrative, previousIdeaTitles || [], { refresh: refresh === true });
                     return { ...narrative, ideas };
                 } catch (err) {
                     console.error(`Idea regeneration failed for ${narrative.name}:`, err);
                     return narrative;
                 }
             })
-        );
+        ));
 
         const processingTime = Date.now() - startTime;
         console.log(`✅ Ideas regenerated in ${(processingTime / 1000).toFixed(1)}s`);
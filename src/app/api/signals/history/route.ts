@@ -0,0 +1,67 @@
+// ============================================================
+// API: GET /api/signals/history — Recorded values for one signal
+// ============================================================
+// Query: ?id=onchain-tps[&metric=tps][&from=ISO][&to=ISO][&limit=N]
+// `from` defaults to 7 days before `to` (which defaults to now).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { querySignalHistory } from '@/lib/signal-store';
+
+export const dynamic = 'force-dynamic';
+
+function parseDate(value: string | null): Date | undefined | null {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const id = params.get('id');
+
+    if (!id) {
+        return NextResponse.json(
+            { success: false, error: 'Missing required "id" parameter' },
+            { status: 400 },
+        );
+    }
+
+    const from = parseDate(params.get('from'));
+    const to = parseDate(params.get('to'));
+    if (from === null || to === null) {
+        return NextResponse.json(
+            { success: false, error: '"from" and "to" must be ISO dates' },
+            { status: 400 },
+        );
+    }
+
+    const limitParam = params.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+    if (limit !== undefined && (!Number.isFinite(limit) || limit <= 0)) {
+        return NextResponse.json(
+            { success: false, error: '"limit" must be a positive integer' },
+            { status: 400 },
+        );
+    }
+
+    try {
+        const metric = params.get('metric') || undefined;
+        const points = await querySignalHistory({ id, metric, from, to, limit });
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                id,
+                metric: metric || null,
+                points,
+                count: points.length,
+            },
+        });
+    } catch (error: unknown) {
+        console.error('Signal history API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to read signal history' },
+            { status: 500 },
+        );
+    }
+}
@@ -29,6 +29,7 @@ export async function GET(request: NextRequest) {
                 count: result.data.length,
                 collectedAt: result.collectedAt,
                 sources: [...new Set(result.data.map(s => s.source))],
+                health: result.health,
                 fromCache: !forceRefresh && cacheAge > 0,
                 cacheAge,
             },
@@ -0,0 +1,50 @@
+// ============================================================
+// API: GET /api/usage — LLM token & cost report
+// ============================================================
+// Totals from the usage ledger, overall and by day, route, model and
+// role, plus the current budget status and the most recent calls.
+// Query: ?from=ISO&to=ISO (default last 7 days) &route=/api/idea-detail
+//        &recent=N (default 20)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsageReport } from '@/lib/usage-ledger';
+
+export const dynamic = 'force-dynamic';
+
+function parseDate(value: string | null): Date | undefined | null {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const from = parseDate(params.get('from'));
+    const to = parseDate(params.get('to'));
+    if (from === null || to === null) {
+        return NextResponse.json(
+            { success: false, error: '"from" and "to" must be ISO dates' },
+            { status: 400 },
+        );
+    }
+
+    const recentParam = params.get('recent');
+    const recent = recentParam ? parseInt(recentParam, 10) : undefined;
+    if (recent !== undefined && (!Number.isFinite(recent) || recent < 0)) {
+        return NextResponse.json(
+            { success: false, error: '"recent" must be a non-negative integer' },
+            { status: 400 },
+        );
+    }
+
+    try {
+        const report = await getUsageReport({ from, to, route: params.get('route') || undefined, recent });
+        return NextResponse.json({ success: true, data: report });
+    } catch (error: unknown) {
+        console.error('Usage API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to read usage ledger' },
+            { status: 500 },
+        );
+    }
+}
@@ -0,0 +1,141 @@
+// ============================================================
+// API: /api/watchlists/<list> — Edit one watchlist
+// ============================================================
+//   GET                       — entries of the list
+//   POST    {entry}           — add an entry (409 if already listed)
+//   PUT     [entries]         — replace the whole list
+//   PATCH   ?key=<key> {...}  — update fields of one entry
+//   DELETE  ?key=<key>        — remove one entry
+//   DELETE  ?reset=true       — restore the built-in defaults
+//
+// <list> is programs | whales | tokens | kols | feeds | githubOrgs.
+// <key> is the entry's address, symbol, handle, url or org. Changes
+// apply from the next collector run. Writes require
+// `Authorization: Bearer <WATCHLIST_SECRET>`.
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    getWatchlist, isWatchlistName, addWatchlistEntry, updateWatchlistEntry,
+    removeWatchlistEntry, replaceWatchlist, resetWatchlist,
+    WatchlistName, WatchlistEntry, WatchlistResult, WATCHLIST_NAMES,
+} from '@/lib/watchlists';
+import { requireBearerSecret } from '@/lib/request-auth';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: Promise<{ list: string }>;
+}
+
+function toResponse(list: WatchlistName, result: WatchlistResult<WatchlistEntry[]>) {
+    if (!result.ok) {
+        return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ success: true, data: { list, entries: result.value } });
+}
+
+function errorResponse(error: unknown, fallback: string) {
+    console.error('Watchlists API error:', error);
+    return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : fallback },
+        { status: 500 },
+    );
+}
+
+function requireWriteAuth(request: NextRequest): NextResponse | null {
+    return requireBearerSecret(request, 'WATCHLIST_SECRET', 'Watchlist editing is disabled');
+}
+
+/** Resolve and check the <list> segment; a Response means it was invalid. */
+async function resolveList(context: RouteContext): Promise<WatchlistName | NextResponse> {
+    const { list } = await context.params;
+    if (isWatchlistName(list)) return list;
+    return NextResponse.json(
+        { success: false, error: `Unknown watchlist "${list}" — expected one of ${WATCHLIST_NAMES.join(', ')}` },
+        { status: 404 },
+    );
+}
+
+async function readBody(request: NextRequest): Promise<unknown> {
+    try {
+        return await request.json();
+    } catch {
+        return undefined;
+    }
+}
+
+function requireKey(request: NextRequest): string | NextResponse {
+    const key = request.nextUrl.searchParams.get('key');
+    if (key) return key;
+    return NextResponse.json({ success: false, error: 'Missing required "key" parameter' }, { status: 400 });
+}
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+    const list = await resolveList(context);
+    if (list instanceof NextResponse) return list;
+
+    try {
+        return NextResponse.json({ success: true, data: { list, entries: await getWatchlist(list) } });
+    } catch (error: unknown) {
+        return errorResponse(error, 'Failed to read watchlist');
+    }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+    const denied = requireWriteAuth(request);
+    if (denied) return denied;
+    const list = await resolveList(context);
+    if (list instanceof NextResponse) return list;
+
+    try {
+        return toResponse(list, await addWatchlistEntry(list, await readBody(request)));
+    } catch (error: unknown) {
+        return errorResponse(error, 'Failed to add watchlist entry');
+    }
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+    const denied = requireWriteAuth(request);
+    if (denied) return denied;
+    const list = await resolveList(context);
+    if (list instanceof NextResponse) return list;
+
+    try {
+        return toResponse(list, await replaceWatchlist(list, await readBody(request)));
+    } catch (error: unknown) {
+        return errorResponse(error, 'Failed to replace watchlist');
+    }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+    const denied = requireWriteAuth(request);
+    if (denied) return denied;
+    const list = await resolveList(context);
+    if (list instanceof NextResponse) return list;
+    const key = requireKey(request);
+    if (key instanceof NextResponse) return key;
+
+    try {
+        return toResponse(list, await updateWatchlistEntry(list, key, await readBody(request)));
+    } catch (error: unknown) {
+        return errorResponse(error, 'Failed to update watchlist entry');
+    }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+    const denied = requireWriteAuth(request);
+    if (denied) return denied;
+    const list = await resolveList(context);
+    if (list instanceof NextResponse) return list;
+
+    try {
+        if (request.nextUrl.searchParams.get('reset') === 'true') {
+            return toResponse(list, await resetWatchlist(list));
+        }
+        const key = requireKey(request);
+        if (key instanceof NextResponse) return key;
+        return toResponse(list, await removeWatchlistEntry(list, key));
+    } catch (error: unknown) {
+        return errorResponse(error, 'Failed to remove watchlist entry');
+    }
+}
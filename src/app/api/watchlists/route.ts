@@ -0,0 +1,25 @@
+// ============================================================
+// API: GET /api/watchlists — Everything the collectors monitor
+// ============================================================
+// Returns every watchlist (programs, whales, tokens, kols, feeds,
+// githubOrgs). Edit a list via /api/watchlists/<list>.
+
+import { NextResponse } from 'next/server';
+import { getWatchlists, WATCHLIST_NAMES } from '@/lib/watchlists';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+    try {
+        return NextResponse.json({
+            success: true,
+            data: { lists: WATCHLIST_NAMES, watchlists: await getWatchlists() },
+        });
+    } catch (error: unknown) {
+        console.error('Watchlists API error:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Failed to read watchlists' },
+            { status: 500 },
+        );
+    }
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Narrative, Signal, BuildIdea } from '@/lib/types';
+import { Narrative, Signal, BuildIdea, CollectorHealth } from '@/lib/types';
 import { TopBar } from '@/components/TopBar';
 import { SignalSidebar } from '@/components/SignalSidebar';
 import { NarrativeCard } from '@/components/NarrativeCard';
@@ -9,35 +9,37 @@ import { AnalysisPanel } from '@/components/AnalysisPanel';
 import { StatusBar } from '@/components/StatusBar';
 import { SignalDetailPanel } from '@/components/SignalDetailPanel';
 
-const SIGNAL_STEPS = [
-  'Fetching market data...',
-  'Scanning GitHub activity...',
-  'Analyzing on-chain signals...',
-  'Scraping social feeds...',
-  'Querying DeFi Llama...',
-];
-
-const NARRATIVE_STEPS = [
-  'Clustering signal patterns...',
-  'Detecting narratives with GPT-4o-mini...',
-  'Generating ideas with Claude Sonnet...',
-];
-
-const LOADING_STEPS = [...SIGNAL_STEPS, ...NARRATIVE_STEPS];
+const IDEA_POLL_INTERVAL_MS = 3000;
+const IDEA_POLL_TIMEOUT_MS = 3 * 60 * 1000;
 
 interface NarrativeStatus {
   slug: string;
+  lineageId?: string;
   status: 'new' | 'rising' | 'fading' | 'stable' | 'returning';
   confidenceDelta: number;
 }
 
+// One narrative's entry from an idea job (`ideas` event, /api/ideas)
+interface IdeaUpdate {
+  narrativeId: string;
+  status: 'pending' | 'done' | 'failed';
+  ideas: BuildIdea[];
+  error?: string;
+}
+
 export default function DashboardPage() {
   const [narratives, setNarratives] = useState<Narrative[]>([]);
   const [signals, setSignals] = useState<Signal[]>([]);
+  const [collectorHealth, setCollectorHealth] = useState<CollectorHealth[]>([]);
   const [loading, setLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [loadingStep, setLoadingStep] = useState(0);
+  // Progress messages for the current run, driven by the server's status events
+  const [progress, setProgress] = useState<string[]>([]);
+  // Narratives whose AI ideas are still being generated in the background
+  const [pendingIdeas, setPendingIdeas] = useState<string[]>([]);
+  // Narratives whose idea generation failed, with the error, until retried
+  const [failedIdeas, setFailedIdeas] = useState<Record<string, string>>({});
   const [ideasOnlyLoading, setIdeasOnlyLoading] = useState(false);
   const [selectedNarrativeIndex, setSelectedNarrativeIndex] = useState(0);
   const [narrativeStatuses, setNarrativeStatuses] = useState<NarrativeStatus[]>([]);
@@ -51,6 +53,9 @@ export default function DashboardPage() {
   // Per-session dedup: track idea titles the user has already seen this session
   const seenIdeaTitles = useRef<string[]>([]);
 
+  // Edition of the last detection run — idea retries are saved into it
+  const editionId = useRef<string | null>(null);
+
   // Fetch deep-dive on demand when an idea is selected
   const fetchIdeaDetail = useCallback(async (idea: BuildIdea) => {
     // Already cached?
@@ -169,6 +174,88 @@ export default function DashboardPage() {
     }
   }
 
+  function pushProgress(message: string) {
+    setProgress(prev => (prev[prev.length - 1] === message ? prev : [...prev, message]));
+  }
+
+  function applyIdeas(narrativeId: string, ideas: BuildIdea[]) {
+    setNarratives(prev => prev.map(n => (n.id === narrativeId ? { ...n, ideas } : n)));
+    setPendingIdeas(prev => prev.filter(id => id !== narrativeId));
+    seenIdeaTitles.current = [...new Set([...seenIdeaTitles.current, ...ideas.map(i => i.title)])];
+  }
+
+  function clearFailedIdeas(narrativeId: string) {
+    setFailedIdeas(prev => {
+      const rest = { ...prev };
+      delete rest[narrativeId];
+      return rest;
+    });
+  }
+
+  // Returns true when the update changed the narrative's ideas
+  function applyIdeaUpdate(update: IdeaUpdate): boolean {
+    if (update.status === 'failed') {
+      setPendingIdeas(prev => prev.filter(id => id !== update.narrativeId));
+      setFailedIdeas(prev => ({ ...prev, [update.narrativeId]: update.error || 'Idea generation failed' }));
+      return false;
+    }
+    // Nothing usable yet — keep whatever the card shows
+    if (update.status !== 'done' || update.ideas.length === 0) return false;
+    clearFailedIdeas(update.narrativeId);
+    applyIdeas(update.narrativeId, update.ideas);
+    return true;
+  }
+
+  // ── Retry a narrative whose idea generation failed ─────────
+  async function retryIdeas(narrative: Narrative) {
+    clearFailedIdeas(narrative.id);
+    setPendingIdeas(prev => [...prev.filter(id => id !== narrative.id), narrative.id]);
+    try {
+      const res = await fetch('/api/ideas', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          narrative,
+          editionId: editionId.current,
+          previousIdeaTitles: seenIdeaTitles.current,
+        }),
+      });
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || `Server error (${res.status})`);
+      const update = json.data as IdeaUpdate;
+      if (!applyIdeaUpdate(update) && update.status !== 'failed') {
+        setPendingIdeas(prev => prev.filter(id => id !== narrative.id));
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err.message : 'Network error';
+      applyIdeaUpdate({ narrativeId: narrative.id, status: 'failed', ideas: [], error });
+    }
+  }
+
+  // ── Poll ideas that outlived the detection stream ──────────
+  async function pollIdeaJob(jobId: string) {
+    const deadline = Date.now() + IDEA_POLL_TIMEOUT_MS;
+    const applied = new Set<string>();
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, IDEA_POLL_INTERVAL_MS));
+      try {
+        const res = await fetch(`/api/ideas?job=${encodeURIComponent(jobId)}`);
+        if (!res.ok) break;
+        const json = await res.json();
+        if (!json.success) break;
+        for (const n of json.data.narratives as IdeaUpdate[]) {
+          if (n.status === 'pending' || applied.has(n.narrativeId)) continue;
+          applied.add(n.narrativeId);
+          applyIdeaUpdate(n);
+        }
+        if (json.data.pending.length === 0) return;
+      } catch (err) {
+        console.error('Failed to poll idea job:', err);
+      }
+    }
+    setPendingIdeas([]);
+  }
+
   // ── Full pipeline: signals → narratives → ideas (1st run) ──
   async function detectNarratives() {
     // 2nd+ run with existing narratives: skip to ideas-only
@@ -178,12 +265,7 @@ export default function DashboardPage() {
 
     setLoading(true);
     setError(null);
-    setLoadingStep(0);
-
-    // Phase 1 progress: signal collection steps
-    const signalInterval = setInterval(() => {
-      setLoadingStep(prev => (prev < SIGNAL_STEPS.length - 1 ? prev + 1 : prev));
-    }, 1500);
+    setProgress(['Collecting signals...']);
 
     try {
       // ── Phase 1: Fetch signals (fast, ~3-5s) ──────────────
@@ -196,125 +278,152 @@ export default function DashboardPage() {
         throw new Error('Signal API returned an invalid response. Please try again.');
       }
 
-      clearInterval(signalInterval);
-
       if (sigJson.success && sigJson.data.signals?.length > 0) {
         setSignals(sigJson.data.signals);
+        pushProgress(`Loaded ${sigJson.data.signals.length} signals`);
+      }
+      if (sigJson.success && sigJson.data.health) {
+        setCollectorHealth(sigJson.data.health);
       }
 
       // ── Phase 2: Run narrative detection (uses cached signals) ──
-      setLoadingStep(SIGNAL_STEPS.length); // jump to "Clustering..."
-
-      const narrativeInterval = setInterval(() => {
-        setLoadingStep(prev => {
-          const maxStep = LOADING_STEPS.length - 1;
-          return prev < maxStep ? prev + 1 : prev;
-        });
-      }, 3000);
+      // Cards render as `narrative` / `ideas` events arrive; the final
+      // `result` event replaces them with the complete payload.
+      let streamed: Narrative[] = [];
+      const handleEvent = (eventType: string, data: unknown) => {
+        if (eventType === 'status') {
+          pushProgress((data as { message: string }).message);
+        } else if (eventType === 'narrative') {
+          const narrative = data as Narrative;
+          if (streamed.length === 0) {
+            setSelectedNarrativeIndex(0);
+            setSelectedIdea(null);
+            setPendingIdeas([]);
+            setFailedIdeas({});
+          }
+          streamed = [...streamed.filter(n => n.id !== narrative.id), narrative];
+          setNarratives(streamed);
+          setPendingIdeas(prev => [...prev, narrative.id]);
+        } else if (eventType === 'ideas') {
+          const update = data as IdeaUpdate;
+          if (applyIdeaUpdate(update)) {
+            streamed = streamed.map(n => (n.id === update.narrativeId ? { ...n, ideas: update.ideas } : n));
+          }
+        } else if (eventType === 'signalContext') {
+          const { signalId, context } = data as { signalId: string; context: string };
+          setSignals(prev => prev.map(s => (s.id === signalId ? { ...s, aiContext: context } : s)));
+        }
+      };
 
-      try {
-        const res = await fetch('/api/narratives', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            signals: sigJson.data.signals,
-            previousIdeaTitles: seenIdeaTitles.current,
-          }),
-        });
-        if (!res.ok) throw new Error(`Narrative detection failed (${res.status})`);
-
-        // Read the SSE stream
-        const reader = res.body?.getReader();
-        if (!reader) throw new Error('No response stream');
-
-        const decoder = new TextDecoder();
-        let buffer = '';
-        let resultData: any = null;
-        let errorMsg: string | null = null;
-        let eventType = ''; // Persist across chunks!
-        let rawText = ''; // Accumulate all text for fallback parsing
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          buffer += chunk;
-          rawText += chunk;
-
-          // Parse SSE events — split on double newline (event boundary)
-          const parts = buffer.split('\n\n');
-          buffer = parts.pop() || ''; // Keep incomplete event in buffer
-
-          for (const part of parts) {
-            const lines = part.split('\n');
-            for (const rawLine of lines) {
-              const line = rawLine.replace(/\r$/, ''); // Handle \r\n
-              if (line.startsWith('event: ')) {
-                eventType = line.slice(7).trim();
-              } else if (line.startsWith('data: ')) {
-                try {
-                  const data = JSON.parse(line.slice(6));
-                  if (eventType === 'result' && data.success) {
-                    resultData = data;
-                  } else if (eventType === 'error') {
-                    errorMsg = data.error || 'AI detection failed';
-                  } else if (eventType === 'status') {
-                    if (data.step === 'detecting') {
-                      setLoadingStep(SIGNAL_STEPS.length + 1);
-                    } else if (data.step === 'enriching') {
-                      setLoadingStep(LOADING_STEPS.length - 1);
-                    }
-                  }
-                } catch {
-                  // Skip malformed JSON
+      // `?mode=heuristic` on the dashboard URL selects the no-LLM engine
+      const mode = new URLSearchParams(window.location.search).get('mode');
+      const res = await fetch(mode ? `/api/narratives?mode=${encodeURIComponent(mode)}` : '/api/narratives', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          signals: sigJson.data.signals,
+          previousIdeaTitles: seenIdeaTitles.current,
+        }),
+      });
+      if (!res.ok) throw new Error(`Narrative detection failed (${res.status})`);
+
+      // Read the SSE stream
+      const reader = res.body?.getReader();
+      if (!reader) throw new Error('No response stream');
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let resultData: any = null;
+      let errorMsg: string | null = null;
+      let eventType = ''; // Persist across chunks!
+      let rawText = ''; // Accumulate all text for fallback parsing
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const chunk = decoder.decode(value, { stream: true });
+        buffer += chunk;
+        rawText += chunk;
+
+        // Parse SSE events — split on double newline (event boundary)
+        const parts = buffer.split('\n\n');
+        buffer = parts.pop() || ''; // Keep incomplete event in buffer
+
+        for (const part of parts) {
+          const lines = part.split('\n');
+          for (const rawLine of lines) {
+            const line = rawLine.replace(/\r$/, ''); // Handle \r\n
+            if (line.startsWith('event: ')) {
+              eventType = line.slice(7).trim();
+            } else if (line.startsWith('data: ')) {
+              try {
+                const data = JSON.parse(line.slice(6));
+                if (eventType === 'result' && data.success) {
+                  resultData = data;
+                } else if (eventType === 'error') {
+                  errorMsg = data.error || 'AI detection failed';
+                } else {
+                  handleEvent(eventType, data);
                 }
+              } catch {
+                // Skip malformed JSON
               }
             }
           }
         }
+      }
 
-        // Fallback: if structured parsing failed, try to find result in raw text
-        if (!resultData && !errorMsg) {
-          const resultMatch = rawText.match(/data: (\{"success":true.*?\})\n/);
-          if (resultMatch) {
-            try {
-              resultData = JSON.parse(resultMatch[1]);
-            } catch { /* ignore */ }
-          }
-          const errorMatch = rawText.match(/data: (\{"success":false.*?\})\n/);
-          if (errorMatch) {
-            try {
-              const errData = JSON.parse(errorMatch[1]);
-              errorMsg = errData.error || 'AI detection failed';
-            } catch { /* ignore */ }
-          }
+      // Fallback: if structured parsing failed, try to find result in raw text
+      if (!resultData && !errorMsg) {
+        const resultMatch = rawText.match(/data: (\{"success":true.*?\})\n/);
+        if (resultMatch) {
+          try {
+            resultData = JSON.parse(resultMatch[1]);
+          } catch { /* ignore */ }
         }
+        const errorMatch = rawText.match(/data: (\{"success":false.*?\})\n/);
+        if (errorMatch) {
+          try {
+            const errData = JSON.parse(errorMatch[1]);
+            errorMsg = errData.error || 'AI detection failed';
+          } catch { /* ignore */ }
+        }
+      }
 
-        if (errorMsg) {
-          setError(errorMsg);
-        } else if (resultData) {
-          const newNarratives = resultData.data.narratives || [];
-          setNarratives(newNarratives);
-          if (resultData.data.signals) {
-            setSignals(resultData.data.signals);
-          }
-          setLastUpdated(new Date().toLocaleTimeString());
-          setSelectedNarrativeIndex(0);
-          accumulateSeenTitles(newNarratives);
+      if (errorMsg) {
+        setError(errorMsg);
+        setPendingIdeas([]);
+      } else if (resultData) {
+        const newNarratives = resultData.data.narratives || [];
+        setNarratives(newNarratives);
+        if (resultData.data.signals) {
+          setSignals(resultData.data.signals);
+        }
+        setLastUpdated(new Date().toLocaleTimeString());
+        // Keep the card the user picked while narratives streamed in
+        if (streamed.length === 0) setSelectedNarrativeIndex(0);
+        accumulateSeenTitles(newNarratives);
 
-          if (resultData.data.edition) {
-            setNarrativeStatuses(resultData.data.edition.narrativeStatuses || []);
-          }
-        } else {
-          setError('No response received from AI. Please try again.');
+        editionId.current = resultData.data.edition?.id ?? null;
+        if (resultData.data.edition) {
+          setNarrativeStatuses(resultData.data.edition.narrativeStatuses || []);
         }
-      } finally {
-        clearInterval(narrativeInterval);
+
+        const ideaJob = resultData.data.ideaJob as {
+          id: string;
+          pending: string[];
+          failed: { narrativeId: string; error: string }[];
+        } | null;
+        setPendingIdeas(ideaJob?.pending || []);
+        setFailedIdeas(Object.fromEntries((ideaJob?.failed || []).map(f => [f.narrativeId, f.error])));
+        if (ideaJob?.pending.length) pollIdeaJob(ideaJob.id);
+      } else {
+        setError('No response received from AI. Please try again.');
       }
     } catch (err: any) {
       setError(err.message || 'Network error');
-      clearInterval(signalInterval);
+      setPendingIdeas([]);
     } finally {
       setLoading(false);
     }
@@ -328,6 +437,7 @@ export default function DashboardPage() {
       const json = await res.json();
       if (json.success) {
         setSignals(json.data.signals || []);
+        setCollectorHealth(json.data.health || []);
       }
     } catch (err) {
       console.error('Failed to fetch signals:', err);
@@ -358,7 +468,7 @@ export default function DashboardPage() {
       <SignalSidebar
         signals={signals}
         loading={loading}
-        loadingStep={ideasOnlyLoading ? 'Generating fresh ideas...' : LOADING_STEPS[loadingStep]}
+        loadingStep={ideasOnlyLoading ? 'Generating fresh ideas...' : progress[progress.length - 1] || ''}
         onSignalClick={(signal) => setSelectedSignal(signal)}
         isPanelOpen={!!selectedSignal}
       />
@@ -395,6 +505,9 @@ export default function DashboardPage() {
                 confidenceDelta={status?.confidenceDelta}
                 onIdeaSelect={(idea) => fetchIdeaDetail(idea)}
                 selectedIdeaId={selectedIdea?.id}
+                ideasPending={pendingIdeas.includes(narrative.id)}
+                ideasError={failedIdeas[narrative.id]}
+                onRetryIdeas={() => retryIdeas(narrative)}
               />
             );
           })
@@ -413,11 +526,11 @@ export default function DashboardPage() {
         )}
 
         {/* Loading state in main area */}
-        {loading && narratives.length === 0 && (
+        {loading && !ideasOnlyLoading && narratives.length === 0 && (
           <div style={{ padding: 'var(--space-l)' }}>
-            {LOADING_STEPS.slice(0, loadingStep + 1).map((step, i) => (
+            {progress.map((step, i) => (
               <div key={i} className="loading-step" style={{
-                opacity: i === loadingStep ? 1 : 0.4,
+                opacity: i === progress.length - 1 ? 1 : 0.4,
                 borderBottom: 'none',
               }}>
                 {step}
@@ -425,6 +538,13 @@ export default function DashboardPage() {
             ))}
           </div>
         )}
+
+        {/* Cards are streaming in — show the current step below them */}
+        {loading && !ideasOnlyLoading && narratives.length > 0 && progress.length > 0 && (
+          <div className="loading-step" style={{ padding: 'var(--space-m) var(--space-l)', borderBottom: 'none' }}>
+            {progress[progress.length - 1]}
+          </div>
+        )}
       </main>
 
       {/* ── Right Panel: Analysis ────────────────────────── */}
@@ -437,7 +557,7 @@ export default function DashboardPage() {
       />
 
       {/* ── Bottom Status Bar ───────────────────────────── */}
-      <StatusBar signals={signals} />
+      <StatusBar signals={signals} health={collectorHealth} />
 
       {/* ── Signal Detail Panel ────────────────────────── */}
       <SignalDetailPanel
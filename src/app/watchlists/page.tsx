@@ -0,0 +1,358 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { Watchlists, WatchlistName } from '@/lib/watchlists';
+
+// ── Field definitions per list ──────────────────────────────
+
+interface FieldDef {
+  name: string;
+  label: string;
+  placeholder?: string;
+  kind?: 'text' | 'number' | 'checkbox' | 'select' | 'tags';
+  options?: string[];
+}
+
+const LIST_LABELS: Record<WatchlistName, string> = {
+  programs: 'Programs',
+  whales: 'Whales',
+  tokens: 'Tokens',
+  kols: 'KOLs',
+  feeds: 'RSS Feeds',
+  githubOrgs: 'GitHub Orgs',
+};
+
+const LIST_HINTS: Record<WatchlistName, string> = {
+  programs: 'On-chain programs polled for transaction activity (on-chain collector).',
+  whales: 'Wallets tracked for SOL balance moves, large transfers and SPL token holdings.',
+  tokens: 'CoinGecko ids are price-tracked; mints are checked on every whale wallet.',
+  kols: 'X accounts searched for Solana-related tweets. Weight is the base signal strength.',
+  feeds: 'RSS feeds scanned for new posts. Non-Solana feeds are keyword-filtered.',
+  githubOrgs: 'GitHub organisations scanned for recently active repositories.',
+};
+
+const LIST_FIELDS: Record<WatchlistName, FieldDef[]> = {
+  programs: [
+    { name: 'name', label: 'Name', placeholder: 'Kamino Lend' },
+    { name: 'address', label: 'Program ID', placeholder: 'KLend2g3c…' },
+    { name: 'cat', label: 'Category', placeholder: 'DeFi' },
+  ],
+  whales: [
+    { name: 'label', label: 'Label', placeholder: 'Jump Trading' },
+    { name: 'address', label: 'Wallet', placeholder: 'base58 address' },
+    { name: 'type', label: 'Type', kind: 'select', options: ['cex', 'mm', 'eco', 'vc', 'other'] },
+  ],
+  tokens: [
+    { name: 'symbol', label: 'Symbol', placeholder: 'JTO' },
+    { name: 'coingeckoId', label: 'CoinGecko ID', placeholder: 'jito-governance-token' },
+    { name: 'mint', label: 'Mint', placeholder: 'base58 mint (optional)' },
+  ],
+  kols: [
+    { name: 'name', label: 'Name', placeholder: 'Anatoly Yakovenko' },
+    { name: 'handle', label: 'Handle', placeholder: 'aeyakovenko' },
+    { name: 'tags', label: 'Tags', placeholder: 'Protocol, Firedancer', kind: 'tags' },
+    { name: 'weight', label: 'Weight', placeholder: '80', kind: 'number' },
+  ],
+  feeds: [
+    { name: 'name', label: 'Name', placeholder: 'Helius Blog' },
+    { name: 'url', label: 'URL', placeholder: 'https://…/rss.xml' },
+    { name: 'category', label: 'Category', placeholder: 'Infrastructure' },
+    { name: 'solanaOnly', label: 'Solana only', kind: 'checkbox' },
+  ],
+  githubOrgs: [
+    { name: 'org', label: 'Org', placeholder: 'jito-foundation' },
+  ],
+};
+
+// Field that identifies an entry (the ?key= of PATCH/DELETE)
+const KEY_FIELD: Record<WatchlistName, string> = {
+  programs: 'address',
+  whales: 'address',
+  tokens: 'symbol',
+  kols: 'handle',
+  feeds: 'url',
+  githubOrgs: 'org',
+};
+
+type Entry = Record<string, unknown>;
+type Draft = Record<string, string | boolean>;
+
+function emptyDraft(list: WatchlistName): Draft {
+  return Object.fromEntries(LIST_FIELDS[list].map(f => [f.name, f.kind === 'checkbox' ? true : f.kind === 'select' ? f.options![0] : '']));
+}
+
+function draftFromEntry(list: WatchlistName, entry: Entry): Draft {
+  return Object.fromEntries(LIST_FIELDS[list].map(f => {
+    const value = entry[f.name];
+    if (f.kind === 'checkbox') return [f.name, value !== false];
+    if (Array.isArray(value)) return [f.name, value.join(', ')];
+    return [f.name, value === undefined ? '' : String(value)];
+  }));
+}
+
+function draftToEntry(list: WatchlistName, draft: Draft): Entry {
+  return Object.fromEntries(LIST_FIELDS[list].map(f => {
+    const value = draft[f.name];
+    if (f.kind === 'number') return [f.name, value === '' ? undefined : Number(value)];
+    return [f.name, value];
+  }));
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (value === undefined || value === null || value === '') return '—';
+  return String(value);
+}
+
+// ── Page ────────────────────────────────────────────────────
+
+const SECRET_STORAGE_KEY = 'watchlist-secret';
+
+export default function WatchlistsPage() {
+  const [watchlists, setWatchlists] = useState<Watchlists | null>(null);
+  const [active, setActive] = useState<WatchlistName>('programs');
+  const [draft, setDraft] = useState<Draft>(() => emptyDraft('programs'));
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // WATCHLIST_SECRET — kept for the browser session only
+  const [secret, setSecret] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/watchlists');
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || 'Failed to load watchlists');
+      setWatchlists(json.data.watchlists);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Network error');
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+  useEffect(() => { setSecret(sessionStorage.getItem(SECRET_STORAGE_KEY) || ''); }, []);
+
+  function updateSecret(value: string) {
+    setSecret(value);
+    if (value) sessionStorage.setItem(SECRET_STORAGE_KEY, value);
+    else sessionStorage.removeItem(SECRET_STORAGE_KEY);
+  }
+
+  function selectList(list: WatchlistName) {
+    setActive(list);
+    setDraft(emptyDraft(list));
+    setEditingKey(null);
+    setError(null);
+    setNotice(null);
+  }
+
+  // Send a change and swap in the list the API returns
+  async function mutate(method: string, query: string, body: unknown, success: string) {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/watchlists/${active}${query}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(secret && { Authorization: `Bearer ${secret}` }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || `Request failed (${res.status})`);
+      setWatchlists(prev => prev && { ...prev, [active]: json.data.entries });
+      setNotice(success);
+      return true;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Network error');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const entry = draftToEntry(active, draft);
+    const ok = editingKey
+      ? await mutate('PATCH', `?key=${encodeURIComponent(editingKey)}`, entry, `Updated ${editingKey}`)
+      : await mutate('POST', '', entry, `Added ${String(entry[KEY_FIELD[active]])}`);
+    if (ok) {
+      setDraft(emptyDraft(active));
+      setEditingKey(null);
+    }
+  }
+
+  function handleRemove(key: string) {
+    mutate('DELETE', `?key=${encodeURIComponent(key)}`, undefined, `Removed ${key}`);
+  }
+
+  function handleReset() {
+    if (!window.confirm(`Restore the default ${LIST_LABELS[active]} watchlist? Your edits to this list will be lost.`)) return;
+    mutate('DELETE', '?reset=true', undefined, 'Restored defaults');
+  }
+
+  const fields = LIST_FIELDS[active];
+  const entries = (watchlists?.[active] || []) as unknown as Entry[];
+
+  return (
+    <div style={{ height: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <header className="top-bar" style={{ minHeight: 48 }}>
+        <div className="brand uppercase">Solana Narrative Radar</div>
+        <div className="nav-links">
+          <Link href="/" className="nav-link inactive">Dashboard</Link>
+          <span className="nav-link active">Watchlists</span>
+        </div>
+        <div className="period-indicator">
+          {watchlists ? `${entries.length} ${LIST_LABELS[active]}` : 'Loading'}
+        </div>
+      </header>
+
+      <div style={{ flex: 1, overflowY: 'auto', padding: 'var(--space-m)' }}>
+        <div className="signal-filter-bar" style={{ padding: 0, marginBottom: 'var(--space-s)' }}>
+          {(Object.keys(LIST_LABELS) as WatchlistName[]).map(list => (
+            <button
+              key={list}
+              className={`signal-filter-tab ${list === active ? 'active' : ''}`}
+              style={{ fontSize: 11, padding: '4px 10px' }}
+              onClick={() => selectList(list)}
+            >
+              {LIST_LABELS[list]} {watchlists ? `(${watchlists[list].length})` : ''}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-muted" style={{ fontSize: 12, marginBottom: 'var(--space-m)' }}>
+          {LIST_HINTS[active]} Changes apply from the next detection run.
+        </p>
+
+        <label className="watchlist-field" style={{ marginBottom: 'var(--space-s)' }}>
+          <span className="mono uppercase text-muted">Edit secret</span>
+          <input
+            className="watchlist-input"
+            type="password"
+            placeholder="WATCHLIST_SECRET"
+            autoComplete="off"
+            value={secret}
+            onChange={e => updateSecret(e.target.value)}
+          />
+        </label>
+
+        {/* Add / edit form */}
+        <form onSubmit={handleSubmit} className="watchlist-form">
+          {fields.map(f => (
+            <label key={f.name} className="watchlist-field">
+              <span className="mono uppercase text-muted">{f.label}</span>
+              {f.kind === 'checkbox' ? (
+                <input
+                  type="checkbox"
+                  checked={draft[f.name] === true}
+                  onChange={e => setDraft({ ...draft, [f.name]: e.target.checked })}
+                />
+              ) : f.kind === 'select' ? (
+                <select
+                  className="watchlist-input"
+                  value={String(draft[f.name])}
+                  onChange={e => setDraft({ ...draft, [f.name]: e.target.value })}
+                >
+                  {f.options!.map(o => <option key={o} value={o}>{o}</option>)}
+                </select>
+              ) : (
+                <input
+                  className="watchlist-input"
+                  type={f.kind === 'number' ? 'number' : 'text'}
+                  placeholder={f.placeholder}
+                  value={String(draft[f.name])}
+                  onChange={e => setDraft({ ...draft, [f.name]: e.target.value })}
+                />
+              )}
+            </label>
+          ))}
+          <button type="submit" className="detect-btn" disabled={saving}>
+            {editingKey ? 'Save' : '+ Add'}
+          </button>
+          {editingKey && (
+            <button
+              type="button"
+              className="nav-link inactive"
+              onClick={() => { setEditingKey(null); setDraft(emptyDraft(active)); }}
+            >
+              Cancel
+            </button>
+          )}
+        </form>
+
+        {error && (
+          <div className="mono" style={{ fontSize: 12, color: '#ff6666', margin: 'var(--space-s) 0' }}>
+            ⚠ ERROR: {error}
+          </div>
+        )}
+        {notice && !error && (
+          <div className="mono text-accent" style={{ fontSize: 12, margin: 'var(--space-s) 0' }}>
+            ✓ {notice}
+          </div>
+        )}
+
+        {/* Entries */}
+        <table className="watchlist-table">
+          <thead>
+            <tr>
+              {fields.map(f => <th key={f.name}>{f.label}</th>)}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => {
+              const key = String(entry[KEY_FIELD[active]]);
+              return (
+                <tr key={key} className={key === editingKey ? 'editing' : ''}>
+                  {fields.map(f => (
+                    <td key={f.name} className={f.name === KEY_FIELD[active] ? 'mono' : ''}>
+                      {formatValue(entry[f.name])}
+                    </td>
+                  ))}
+                  <td style={{ textAlign: 'right', whiteSpace: 'nowrap' }}>
+                    <button
+                      className="nav-link inactive"
+                      onClick={() => { setEditingKey(key); setDraft(draftFromEntry(active, entry)); }}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      className="nav-link inactive"
+                      style={{ marginLeft: 12 }}
+                      disabled={saving}
+                      onClick={() => handleRemove(key)}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {watchlists && entries.length === 0 && (
+          <p className="text-muted" style={{ fontSize: 12, marginTop: 'var(--space-s)' }}>
+            This watchlist is empty — its collector will skip it.
+          </p>
+        )}
+
+        <button
+          className="nav-link inactive mono uppercase"
+          style={{ marginTop: 'var(--space-m)', fontSize: 11 }}
+          disabled={saving}
+          onClick={handleReset}
+        >
+          ↺ Restore defaults
+        </button>
+      </div>
+    </div>
+  );
+}
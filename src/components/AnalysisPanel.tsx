@@ -1,6 +1,6 @@
 'use client';
 
-import { Narrative, Signal, BuildIdea } from '@/lib/types';
+import { Narrative, Signal, BuildIdea, NarrativeVerification, NumericClaim } from '@/lib/types';
 
 interface AnalysisPanelProps {
     selectedNarrative: Narrative | null;
@@ -16,6 +16,8 @@ const SOURCE_EMOJI: Record<string, string> = {
     social: '💬',
     github: '🔧',
     'defi-llama': '🏦',
+    governance: '🏛️',
+    anomaly: '🚨',
 };
 
 const SOURCE_COLORS: Record<string, string> = {
@@ -24,8 +26,121 @@ const SOURCE_COLORS: Record<string, string> = {
     social: '#10B981',
     github: '#8B5CF6',
     'defi-llama': '#F59E0B',
+    governance: '#EC4899',
+    anomaly: '#EF4444',
 };
 
+const VERIFICATION_BADGES: Record<NarrativeVerification['status'], { label: string; color: string }> = {
+    verified: { label: 'VERIFIED', color: '#00ff88' },
+    unverified: { label: 'PARTLY UNVERIFIED', color: '#888888' },
+    flagged: { label: 'FLAGGED', color: '#ff6666' },
+};
+
+const CLAIM_COLORS: Record<NumericClaim['status'], string> = {
+    matched: '#00ff88',
+    mismatch: '#ff6666',
+    unsupported: '#888888',
+};
+
+function formatFigure(value: number): string {
+    return Math.abs(value) >= 1000
+        ? value.toLocaleString('en-US', { maximumFractionDigits: 0 })
+        : String(Number(value.toFixed(2)));
+}
+
+// ── Evidence check for the selected narrative (lib/ai/verifier.ts) ──
+function VerificationBlock({ verification, signals, onSignalClick }: {
+    verification: NarrativeVerification;
+    signals: Signal[];
+    onSignalClick: (signal: Signal) => void;
+}) {
+    const badge = VERIFICATION_BADGES[verification.status];
+    const matched = verification.claims.filter(c => c.status === 'matched').length;
+    // Problems first — matched figures are only counted
+    const offClaims = verification.claims.filter(c => c.status !== 'matched');
+
+    return (
+        <div style={{ marginTop: 16 }}>
+            <div className="section-header" style={{ paddingLeft: 0 }}>
+                <span>Evidence Check</span>
+                <span style={{
+                    fontFamily: 'var(--font-mono)',
+                    fontSize: 9,
+                    padding: '2px 6px',
+                    color: badge.color,
+                    border: `1px solid ${badge.color}`,
+                }}>
+                    {badge.label}
+                </span>
+            </div>
+
+            <div style={{
+                fontFamily: 'var(--font-mono)',
+                fontSize: 11,
+                color: 'var(--text-muted)',
+                marginBottom: 8,
+            }}>
+                {matched}/{verification.claims.length} figures match cited signals
+            </div>
+
+            {verification.unknownSignalIds.length > 0 && (
+                <div style={{
+                    fontSize: 11,
+                    color: '#ff6666',
+                    lineHeight: 1.4,
+                    borderLeft: '2px solid #ff6666',
+                    paddingLeft: 8,
+                    marginBottom: 8,
+                }}>
+                    Dropped {verification.unknownSignalIds.length} cited signal id(s) that don&apos;t exist:{' '}
+                    <span style={{ fontFamily: 'var(--font-mono)' }}>{verification.unknownSignalIds.join(', ')}</span>
+                </div>
+            )}
+
+            {offClaims.length > 0 && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                    {offClaims.map((claim, i) => {
+                        const signal = claim.signalId ? signals.find(s => s.id === claim.signalId) : undefined;
+                        return (
+                            <div key={`${claim.field}-${i}`} style={{
+                                padding: '8px 10px',
+                                background: 'var(--bg-surface)',
+                                border: '1px solid var(--border-dim)',
+                                borderLeft: `2px solid ${CLAIM_COLORS[claim.status]}`,
+                                fontSize: 11,
+                                lineHeight: 1.4,
+                            }}>
+                                <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                                    <span style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-main)' }}>
+                                        &ldquo;{claim.text}&rdquo;
+                                    </span>
+                                    <span style={{
+                                        fontFamily: 'var(--font-mono)',
+                                        fontSize: 9,
+                                        color: CLAIM_COLORS[claim.status],
+                                        textTransform: 'uppercase',
+                                    }}>
+                                        {claim.status} · {claim.field}
+                                    </span>
+                                </div>
+                                {claim.status === 'mismatch' && claim.expected !== undefined && (
+                                    <div
+                                        style={{ color: 'var(--text-muted)', marginTop: 4, cursor: signal ? 'pointer' : undefined }}
+                                        onClick={() => signal && onSignalClick(signal)}
+                                    >
+                                        Closest cited figure: {formatFigure(claim.expected)}
+                                        {signal ? ` (${signal.description.slice(0, 60)})` : ''}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
+
 export function AnalysisPanel({ selectedNarrative, signals, selectedIdea, ideaDetailLoading, onSignalClick }: AnalysisPanelProps) {
     // Resolve supporting signals for the selected idea
     const supportingSignals: Signal[] = selectedIdea
@@ -41,6 +156,14 @@ export function AnalysisPanel({ selectedNarrative, signals, selectedIdea, ideaDe
 
     const displaySignals = supportingSignals.length > 0 ? supportingSignals : fallbackSignals;
 
+    const evidence = selectedNarrative?.verification ? (
+        <VerificationBlock
+            verification={selectedNarrative.verification}
+            signals={signals}
+            onSignalClick={onSignalClick}
+        />
+    ) : null;
+
     return (
         <aside className="analysis-panel">
             {selectedIdea ? (
@@ -342,6 +465,24 @@ export function AnalysisPanel({ selectedNarrative, signals, selectedIdea, ideaDe
                             </div>
                         </div>
                     )}
+
+                    {evidence}
+                </div>
+            ) : evidence ? (
+                /* No idea selected — the narrative's evidence check */
+                <div className="panel-content-enter">
+                    {evidence}
+                    <div style={{
+                        fontFamily: 'var(--font-mono)',
+                        fontSize: 11,
+                        color: 'var(--text-muted)',
+                        textTransform: 'uppercase',
+                        letterSpacing: '0.05em',
+                        lineHeight: 1.6,
+                        marginTop: 16,
+                    }}>
+                        Click an idea in the narrative card to see its supporting signals here.
+                    </div>
                 </div>
             ) : (
                 /* Empty state — no idea selected */
@@ -10,6 +10,11 @@ interface NarrativeCardProps {
     confidenceDelta?: number;
     onIdeaSelect?: (idea: BuildIdea) => void;
     selectedIdeaId?: string | null;
+    /** AI ideas are still being generated for this narrative */
+    ideasPending?: boolean;
+    /** Why AI idea generation failed for this narrative */
+    ideasError?: string;
+    onRetryIdeas?: () => void;
 }
 
 function getTrendTag(trend: string, confidence: number): { label: string; className: string } {
@@ -31,7 +36,7 @@ function getStatusBadge(status?: string): { label: string; color: string; bg: st
     }
 }
 
-export function NarrativeCard({ narrative, onSelect, isSelected, editionStatus, confidenceDelta, onIdeaSelect, selectedIdeaId }: NarrativeCardProps) {
+export function NarrativeCard({ narrative, onSelect, isSelected, editionStatus, confidenceDelta, onIdeaSelect, selectedIdeaId, ideasPending, ideasError, onRetryIdeas }: NarrativeCardProps) {
     const tag = getTrendTag(narrative.trend, narrative.confidence);
     const statusBadge = getStatusBadge(editionStatus);
 
@@ -90,7 +95,8 @@ export function NarrativeCard({ narrative, onSelect, isSelected, editionStatus,
                     from {[...new Set(narrative.signals.map(s => s.source))].map(src => {
                         const labels: Record<string, string> = {
                             market: 'Market', onchain: 'On-Chain', social: 'Social',
-                            github: 'GitHub', 'defi-llama': 'DeFi',
+                            github: 'GitHub', 'defi-llama': 'DeFi', governance: 'Governance',
+                            anomaly: 'Anomalies',
                         };
                         return labels[src] || src;
                     }).join(', ') || '—'}
@@ -164,6 +170,34 @@ export function NarrativeCard({ narrative, onSelect, isSelected, editionStatus,
             )}
 
             {/* Idea Grid */}
+            {ideasPending && narrative.ideas.length === 0 && (
+                <div className="loading-step" style={{ borderBottom: 'none' }}>
+                    Generating build ideas...
+                </div>
+            )}
+            {ideasError && !ideasPending && narrative.ideas.length === 0 && (
+                <div className="loading-step" style={{
+                    borderBottom: 'none',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    gap: 8,
+                    color: '#ff6666',
+                }}>
+                    <span>⚠ Idea generation failed: {ideasError}</span>
+                    {onRetryIdeas && (
+                        <button
+                            className="signal-filter-tab"
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onRetryIdeas();
+                            }}
+                        >
+                            Retry
+                        </button>
+                    )}
+                </div>
+            )}
             {narrative.ideas.length > 0 && (
                 <div className="idea-grid">
                     {narrative.ideas.map((idea) => {
@@ -44,7 +44,7 @@ export function OnChainTicker({ signals }: OnChainTickerProps) {
             icon: <Box size={12} />,
             label: 'Programs',
             value: `${newProgramsCount}`,
-            trend: '24h',
+            trend: '7d',
             trendUp: newProgramsCount > 5,
             alert: false,
         },
@@ -20,6 +20,8 @@ function getWhyItMatters(signal: Signal): string {
         'defi-llama': 'DeFi TVL data',
         'market': 'market data',
         'social': 'social/media coverage',
+        'governance': 'DAO governance',
+        'anomaly': 'statistical anomaly',
     };
     const sourceLabel = sourceLabels[signal.source] || signal.source;
     return `This is a ${sourceLabel} signal. Run detection to generate a specific AI insight for this signal.`;
@@ -104,6 +106,10 @@ function getSourceUrl(signal: Signal): { url: string; label: string } | null {
         return { url: 'https://x.com/search?q=solana&f=top', label: 'Solana on X' };
     }
 
+    if (source === 'governance') {
+        return { url: 'https://app.realms.today/realms', label: 'View Proposal' };
+    }
+
     return null;
 }
 
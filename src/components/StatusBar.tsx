@@ -1,12 +1,29 @@
 'use client';
 
-import { Signal } from '@/lib/types';
+import { Signal, CollectorHealth } from '@/lib/types';
 
 interface StatusBarProps {
     signals: Signal[];
+    health?: CollectorHealth[];
 }
 
-export function StatusBar({ signals }: StatusBarProps) {
+interface TickerItem {
+    label: string;
+    value: string;
+    highlight: string;
+    down?: boolean;
+    title?: string;
+}
+
+const HEALTH_LABELS: Record<CollectorHealth['status'], string> = {
+    ok: 'OK',
+    empty: 'EMPTY',
+    failed: 'FAILED',
+    'timed-out': 'TIMEOUT',
+    disabled: 'OFF',
+};
+
+export function StatusBar({ signals, health = [] }: StatusBarProps) {
     // Extract ticker data from signals
     const tpsSignal = signals.find(s => s.id === 'onchain-tps' || s.id === 'onchain-tps-current');
     const newPrograms = signals.filter(s => s.category === 'New Programs').reduce((sum, s) => sum + s.value, 0);
@@ -25,30 +42,50 @@ export function StatusBar({ signals }: StatusBarProps) {
         : '';
 
     // Build ticker items (duplicated for seamless loop)
-    const tickerData = [
+    const tickerData: TickerItem[] = [
         { label: 'TPS', value: tps, highlight: tpsDelta },
-        { label: 'NEW PROGRAMS (24H)', value: `${newPrograms}`, highlight: '' },
+        { label: 'NEW PROGRAMS (7D)', value: `${newPrograms}`, highlight: '' },
         { label: 'ACTIVE WHALES', value: `${whaleCount}`, highlight: whaleCount > 0 ? 'TRACKING' : '' },
         { label: 'DEV ACTIVITY', value: '', highlight: signals.filter(s => s.source === 'github').length > 3 ? 'HIGH' : 'NORMAL' },
         ...trending.map(t => ({ label: 'TRENDING', value: '', highlight: t.toUpperCase() })),
         { label: 'SIGNALS', value: `${signals.length}`, highlight: 'ACTIVE' },
+        ...health.map(h => ({
+            label: h.name.toUpperCase(),
+            value: `${h.signalCount} • ${h.fromCache ? 'cached' : `${(h.latencyMs / 1000).toFixed(1)}s`}`,
+            highlight: HEALTH_LABELS[h.status],
+            down: h.status === 'failed' || h.status === 'timed-out',
+            title: h.error,
+        })),
     ];
 
+    // Any failed or timed-out collector degrades the system status
+    const unhealthy = health.filter(h => h.status === 'failed' || h.status === 'timed-out');
+    const systemTitle = unhealthy.length > 0
+        ? unhealthy.map(h => `${h.name}: ${h.error || h.status}`).join('\n')
+        : undefined;
+
     return (
         <footer className="bottom-bar">
-            <div className="system-status">
-                SYSTEM: <span style={{ color: 'var(--accent)' }}>ONLINE</span>
+            <div className="system-status" title={systemTitle}>
+                SYSTEM: {unhealthy.length > 0
+                    ? <span style={{ color: '#ff6666' }}>DEGRADED</span>
+                    : <span style={{ color: 'var(--accent)' }}>ONLINE</span>}
             </div>
             <div className="ticker-wrap">
                 <div className="ticker">
                     {/* Render twice for seamless loop */}
                     {[...tickerData, ...tickerData].map((item, i) => (
-                        <div key={i} className="ticker-item">
+                        <div key={i} className="ticker-item" title={item.title}>
                             {item.label}: {item.value && <span className="ticker-val">{item.value}</span>}
                             {item.highlight && (
                                 <>
                                     {item.value ? ' ' : ''}
-                                    <span className="ticker-up">{item.highlight}</span>
+                                    <span
+                                        className="ticker-up"
+                                        style={item.down ? { color: '#ff6666' } : undefined}
+                                    >
+                                        {item.highlight}
+                                    </span>
                                 </>
                             )}
                         </div>
@@ -1,5 +1,7 @@
 'use client';
 
+import Link from 'next/link';
+
 interface TopBarProps {
     loading: boolean;
     lastUpdated: string | null;
@@ -31,6 +33,9 @@ export function TopBar({ loading, lastUpdated, onDetect }: TopBarProps) {
                 >
                     {loading ? '● Scanning...' : '▶ Detect'}
                 </button>
+                <Link href="/watchlists" className="nav-link inactive">
+                    Watchlists
+                </Link>
             </div>
 
             <div className="period-indicator">
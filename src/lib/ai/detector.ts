@@ -1,13 +1,49 @@
 // ============================================================
 // Solana Narrative Pulse — Narrative Detection Engine
 // ============================================================
-// Uses o3-mini (reasoning model) for deep pattern recognition
+// Uses o3-mini (reasoning model) for deep pattern recognition.
+// Results are also reported through optional DetectionEvents as they
+// are produced, so the SSE route can stream them to the client.
+// AI narratives come back without ideas; idea-jobs.ts generates them
+// once the edition is saved.
 
-import { Signal, Narrative, NarrativeCategory } from '@/lib/types';
+import { Signal, Narrative, BuildIdea } from '@/lib/types';
 import { NARRATIVE_DETECTION_PROMPT } from './prompts';
 import { clusterSignals, clusterStrength } from '@/lib/collectors/aggregator';
-import { generateIdeasForNarrative } from './generator';
 import { routeToModel, getActiveModels } from './model-router';
+import { requestStructured } from './structured-output';
+import { DETECTION_SCHEMA } from './schemas';
+import { detectNarrativesHeuristic, buildTemplateIdeas } from './heuristic';
+import { verifyNarrative } from './verifier';
+
+type DetectionResult = { narratives: Narrative[]; signalContexts: Record<string, string> };
+
+// ── Progress events ──────────────────────────────────────────
+export interface DetectionEvents {
+    /** A narrative as soon as it has been parsed — always without ideas */
+    onNarrative?: (narrative: Narrative) => void;
+    /** Ideas built together with the narratives (heuristic and fallback results) */
+    onIdeas?: (narrativeId: string, ideas: BuildIdea[]) => void;
+    onSignalContext?: (signalId: string, context: string) => void;
+}
+
+function emitSignalContexts(contexts: Record<string, string>, events: DetectionEvents) {
+    for (const [signalId, context] of Object.entries(contexts)) {
+        events.onSignalContext?.(signalId, context);
+    }
+}
+
+/**
+ * Report a finished result through `events` in the same order the AI
+ * path produces them: narratives, signal contexts, then ideas. Used for
+ * results built in one step (heuristic engine, fallbacks).
+ */
+export function announceDetection(result: DetectionResult, events: DetectionEvents): DetectionResult {
+    result.narratives.forEach(n => events.onNarrative?.({ ...n, ideas: [] }));
+    emitSignalContexts(result.signalContexts, events);
+    result.narratives.forEach(n => events.onIdeas?.(n.id, n.ideas));
+    return result;
+}
 
 function generateSlug(name: string): string {
     return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
@@ -23,6 +59,7 @@ function generateId(): string {
 const MAX_SIGNALS_FOR_AI = 25;
 const MIN_PER_SOURCE = 2;
 const MAX_CLUSTERS = 12;
+const MAX_ANOMALIES = 10;
 
 function selectDiverseSignals(signals: Signal[]): Signal[] {
     if (signals.length <= MAX_SIGNALS_FOR_AI) return signals;
@@ -67,9 +104,12 @@ function selectDiverseSignals(signals: Signal[]): Signal[] {
 }
 
 // ── Detect narratives from signals ───────────────────────────
-export async function detectNarratives(signals: Signal[], previousIdeaTitles?: string[]): Promise<{ narratives: Narrative[]; signalContexts: Record<string, string> }> {
+export async function detectNarratives(
+    signals: Signal[],
+    events: DetectionEvents = {},
+): Promise<DetectionResult> {
     if (signals.length === 0) {
-        return buildFallbackNarratives([], 'No signals available');
+        return announceDetection(buildFallbackNarratives([], 'No signals available'), events);
     }
 
     const models = getActiveModels();
@@ -108,7 +148,19 @@ export async function detectNarratives(signals: Signal[], previousIdeaTitles?: s
         `Cluster "${c.cluster}" (strength: ${c.strength.toFixed(0)}):\n${c.signals.map(s => `  - [${s.id}] ${s.description}`).join('\n')}`
     ).join('\n\n');
 
-    const userMessage = `## Raw Signals (${selectedSignals.length} signals across ${sourceCounts.size} sources)\n${signalContext}\n\n## Signal Clusters (${clusterSummaries.length} clusters)\n${clusterContext}\n\nRespond with a JSON object containing a "narratives" array and a "topSignalInsights" map. Include insights for the most important signals (at least 10).`;
+    // Statistical anomalies are passed explicitly (with the signals they
+    // reference) so cross-source convergence doesn't have to be inferred
+    const anomalies = signals
+        .filter(s => s.source === 'anomaly')
+        .sort((a, b) => b.strength - a.strength)
+        .slice(0, MAX_ANOMALIES);
+    const anomalyContext = anomalies.length > 0
+        ? `\n\n## Statistical Anomalies (${anomalies.length})\n${anomalies.map(a =>
+            `[${a.id}] ${a.description} | refs: ${(a.relatedSignalIds || []).join(',')} [str: ${Math.round(a.strength)}]`
+        ).join('\n')}`
+        : '';
+
+    const userMessage = `## Raw Signals (${selectedSignals.length} signals across ${sourceCounts.size} sources)\n${signalContext}\n\n## Signal Clusters (${clusterSummaries.length} clusters)\n${clusterContext}${anomalyContext}\n\nRespond with a JSON object containing a "narratives" array and a "topSignalInsights" map. Include insights for the most important signals (at least 10).`;
 
     try {
         // Race a 45s timeout to prevent Vercel function timeout returning non-JSON
@@ -118,88 +170,52 @@ export async function detectNarratives(signals: Signal[], previousIdeaTitles?: s
         );
 
         // Route to REASONING model (o3-mini) for deep pattern analysis
-        const response = await Promise.race([
-            routeToModel('reasoning', [
-                { role: 'system', content: NARRATIVE_DETECTION_PROMPT },
-                { role: 'user', content: userMessage },
-            ], {
-                jsonMode: true,
-                maxTokens: 6000,
-                temperature: 0.3,
-            }),
-            timeoutPromise,
-        ]);
-
-        console.log(`🧠 Detection completed via ${response.provider}/${response.model} (${response.tokensUsed || '?'} tokens)`);
-
-        // Extract JSON from response (o3-mini may wrap in markdown)
-        let jsonContent = response.content;
-        const jsonMatch = jsonContent.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (jsonMatch) jsonContent = jsonMatch[1];
-
-        console.log('🔍 Raw AI JSON (First 200 chars):', jsonContent.slice(0, 200));
-
-        let parsed: any;
-        try {
-            parsed = JSON.parse(jsonContent);
-        } catch (parseErr: any) {
-            // Retry: send the broken response back and ask the model to fix it
-            console.warn('🔄 JSON parse failed, attempting retry...', parseErr.message);
-            try {
-                const retryMessages = [
-                    { role: 'system' as const, content: NARRATIVE_DETECTION_PROMPT },
-                    { role: 'user' as const, content: userMessage },
-                    { role: 'assistant' as const, content: response.content },
-                    { role: 'user' as const, content: `Your previous response was not valid JSON: "${parseErr.message}". Please return ONLY valid JSON with no markdown wrapping, no trailing commas, and no comments. Output the corrected version now.` },
-                ];
-                const retryResponse = await routeToModel('reasoning', retryMessages, {
-                    jsonMode: true,
-                    maxTokens: 6000,
-                    temperature: 0.2,
-                });
-
-                let retryContent = retryResponse.content;
-                const retryMatch = retryContent.match(/```(?:json)?\s*([\s\S]*?)```/);
-                if (retryMatch) retryContent = retryMatch[1];
-
-                console.log('🔄 Retry JSON (First 200 chars):', retryContent.slice(0, 200));
-                parsed = JSON.parse(retryContent);
-            } catch (retryErr: any) {
-                console.error('🔄 JSON retry also failed, falling back to defaults:', retryErr.message);
-                return buildFallbackNarratives(signals, retryErr.message || 'JSON parsing failed after retry');
-            }
+        const messages = [
+            { role: 'system' as const, content: NARRATIVE_DETECTION_PROMPT },
+            { role: 'user' as const, content: userMessage },
+        ];
+        const options = { jsonMode: true, maxTokens: 6000, temperature: 0.3 };
+        const { value: parsed, response, issues, repaired } = await requestStructured(
+            'reasoning', messages, DETECTION_SCHEMA, { ...options, label: 'Narrative detection' },
+            Promise.race([routeToModel('reasoning', messages, options), timeoutPromise]),
+        );
+
+        console.log(`🧠 Detection completed via ${response.provider}/${response.model} (${response.tokensUsed || '?'} tokens)${repaired ? ' after repair' : ''}`);
+        if (issues.length > 0) {
+            console.warn(`⚠️ Kept ${parsed.narratives.length} valid narrative(s); ${issues.length} schema violation(s) dropped`);
         }
         const now = new Date().toISOString();
 
         // 1. Gather all signal contexts (from topSignalInsights AND narrative.supportingSignals)
-        const globalContexts: Record<string, string> = parsed.topSignalInsights || {};
+        const globalContexts: Record<string, string> = { ...parsed.topSignalInsights };
 
         // Also add old-style contexts if present (backward compatibility)
         if (parsed.signalContexts) {
             Object.assign(globalContexts, parsed.signalContexts);
         }
 
-        // Transform LLM output into Narrative objects
-        const narratives: Narrative[] = (parsed.narratives || []).map((n: any) => {
+        // Transform LLM output into Narrative objects; unknown signal ids
+        // and unsupported figures are recorded in `verification`
+        const narratives: Narrative[] = parsed.narratives.map(n => {
             const id = generateId();
-
-            // Handle both old (array of strings) and new (array of objects) formats just in case
-            const supportingSignals = n.supportingSignals || n.supportingSignalIds || [];
-            const signalIds = supportingSignals.map((s: any) => typeof s === 'string' ? s : s.id);
+            const signalIds = n.supportingSignals.map(s => s.id);
+            const verification = verifyNarrative(n, signalIds, signals);
+            if (verification.status !== 'verified') {
+                const off = verification.claims.filter(c => c.status !== 'matched').length;
+                console.warn(`🔎 "${n.name}": ${verification.status} — ${verification.unknownSignalIds.length} unknown signal id(s), ${off}/${verification.claims.length} figure(s) not matched`);
+            }
 
             // Extract contexts from supportingSignals array
-            supportingSignals.forEach((s: any) => {
-                if (typeof s === 'object' && s.id && s.context) {
-                    globalContexts[s.id] = s.context;
-                }
+            n.supportingSignals.forEach(s => {
+                if (s.context) globalContexts[s.id] = s.context;
             });
 
             return {
                 id,
                 name: n.name,
                 slug: generateSlug(n.name),
-                category: (n.category || 'Other') as NarrativeCategory,
-                confidence: Math.min(100, Math.max(0, n.confidence || 50)),
+                category: n.category,
+                confidence: n.confidence,
                 summary: n.summary,
                 explanation: n.explanation,
                 signals: signals
@@ -214,15 +230,18 @@ export async function detectNarratives(signals: Signal[], previousIdeaTitles?: s
                 ideas: [],
                 detectedAt: now,
                 updatedAt: now,
-                trend: n.trend || 'stable',
-                recommendation: n.recommendation ? {
-                    thesis: n.recommendation.thesis || '',
-                    actionables: n.recommendation.actionables || [],
-                    risks: n.recommendation.risks || [],
-                } : undefined,
+                trend: n.trend,
+                recommendation: n.recommendation,
+                verification,
             };
         });
 
+        // Insights keyed by ids the model made up have nothing to attach to
+        const knownIds = new Set(signals.map(s => s.id));
+        for (const signalId of Object.keys(globalContexts)) {
+            if (!knownIds.has(signalId)) delete globalContexts[signalId];
+        }
+
         // Apply AI context to ALL input signals (not just narrative-linked ones)
         for (const signal of signals) {
             if (globalContexts[signal.id]) {
@@ -232,56 +251,35 @@ export async function detectNarratives(signals: Signal[], previousIdeaTitles?: s
 
         console.log(`📝 AI context applied to ${Object.keys(globalContexts).length}/${signals.length} signals`);
 
-        // Assign pre-built ideas based on narrative category (no additional AI calls)
-        // This keeps the total function time under 15s instead of 60s+
-        const narrativesWithIdeas = narratives.map((narrative) => {
-            const cat = narrative.category || 'DeFi';
-            const templateIdeas = FALLBACK_IDEAS[cat] || FALLBACK_IDEAS['DeFi'];
-            const ideas = templateIdeas.map((idea, j) => ({
-                ...idea,
-                id: `${narrative.id}-idea-${j}`,
-                narrativeId: narrative.id,
-                supportingSignalIds: narrative.signals.slice(0, 3).map(s => s.id),
-                signalRelevance: {} as Record<string, string>,
-                problemToSolve: '',
-                possibleSolution: '',
-            }));
-            return { ...narrative, ideas };
-        });
+        narratives.forEach(n => events.onNarrative?.(n));
+        emitSignalContexts(globalContexts, events);
 
-        return { narratives: narrativesWithIdeas, signalContexts: globalContexts };
+        return { narratives, signalContexts: globalContexts };
     } catch (err: any) {
         console.error('Narrative detection failed:', err);
-        return buildFallbackNarratives(signals, err?.message || 'Unknown AI error');
+        return announceDetection(buildFallbackNarratives(signals, err?.message || 'Unknown AI error'), events);
     }
 }
 
-// ── Fallback idea templates per category ─────────────────────
-const FALLBACK_IDEAS: Record<string, Array<{ title: string; description: string; techStack: string[]; complexity: 'Low' | 'Medium' | 'High'; impact: 'Low' | 'Medium' | 'High'; solanaFeatures: string[]; whyNow: string; targetUser: string }>> = {
-    DeFi: [
-        { title: 'DeFi Portfolio Tracker', description: 'Unified dashboard to track positions across all Solana DeFi protocols — lending, swaps, and LP.', techStack: ['Next.js', 'Helius API', 'Recharts'], complexity: 'Low', impact: 'Medium', solanaFeatures: ['Token accounts', 'DeFi composability'], whyNow: 'Growing DeFi TVL creates demand for unified position tracking.', targetUser: 'DeFi users managing positions across multiple protocols.' },
-        { title: 'Yield Aggregator Alert Bot', description: 'Monitors yield farms across Solana and sends alerts when APY spikes or drops significantly.', techStack: ['Node.js', 'DeFi Llama API', 'Telegram Bot API'], complexity: 'Low', impact: 'Medium', solanaFeatures: ['SPL tokens', 'Program accounts'], whyNow: 'Yield volatility means users miss optimal entry/exit windows.', targetUser: 'Yield farmers and liquidity providers on Solana.' },
-        { title: 'Smart Swap Router', description: 'Compares swap rates across Jupiter, Raydium, and Orca to find the best execution price.', techStack: ['Next.js', 'Jupiter API', '@solana/web3.js'], complexity: 'Medium', impact: 'High', solanaFeatures: ['Jupiter aggregator', 'Transaction optimization'], whyNow: 'Rising DEX volumes make execution quality increasingly important.', targetUser: 'Active traders seeking best execution on Solana.' },
-    ],
-    Infrastructure: [
-        { title: 'Solana TPS Dashboard', description: 'Real-time network health monitor showing TPS, slot times, validator stats, and congestion alerts.', techStack: ['Next.js', 'Helius RPC', 'D3.js'], complexity: 'Low', impact: 'Medium', solanaFeatures: ['RPC endpoints', 'Validator network'], whyNow: 'Network performance directly impacts user experience and protocol reliability.', targetUser: 'Solana developers and node operators.' },
-        { title: 'Program Deployment Tracker', description: 'Monitor new program deployments on Solana with alerts for upgradeable program changes.', techStack: ['Node.js', 'Helius API', 'PostgreSQL'], complexity: 'Medium', impact: 'Medium', solanaFeatures: ['BPF loader', 'Program accounts'], whyNow: 'Security monitoring of program upgrades is critical for protocol safety.', targetUser: 'Security researchers and protocol auditors.' },
-    ],
-    'NFT & Gaming': [
-        { title: 'NFT Floor Price Tracker', description: 'Track Solana NFT collection floor prices with alerts and trend analysis.', techStack: ['Next.js', 'Magic Eden API', 'Recharts'], complexity: 'Low', impact: 'Medium', solanaFeatures: ['Metaplex', 'Token metadata'], whyNow: 'Active NFT market needs better price discovery tools.', targetUser: 'NFT traders and collectors on Solana.' },
-        { title: 'Collection Analytics Dashboard', description: 'Deep analytics for NFT collections: holder distribution, wash trading detection, and whale tracking.', techStack: ['Next.js', 'Helius DAS API', 'D3.js'], complexity: 'Medium', impact: 'High', solanaFeatures: ['Digital Asset Standard', 'Compressed NFTs'], whyNow: 'Collectors need transparency to make informed buying decisions.', targetUser: 'NFT collection creators and serious collectors.' },
-    ],
-    'Developer Tooling': [
-        { title: 'GitHub Activity Explorer', description: 'Explore and compare development activity across Solana ecosystem repos with contributor stats.', techStack: ['Next.js', 'GitHub API', 'Recharts'], complexity: 'Low', impact: 'Medium', solanaFeatures: ['Anchor framework', 'Solana SDK'], whyNow: 'Developer activity is a leading indicator of ecosystem health.', targetUser: 'Investors and developers evaluating Solana projects.' },
-        { title: 'Transaction Debugger', description: 'Visual debugger for Solana transactions showing instruction flow, CPI calls, and state changes.', techStack: ['Next.js', 'Helius Enhanced API', 'React Flow'], complexity: 'High', impact: 'High', solanaFeatures: ['Transaction introspection', 'CPI tracing'], whyNow: 'Complex transactions with multiple CPIs are hard to debug with existing tools.', targetUser: 'Solana smart contract developers.' },
-    ],
-};
-
 // ── Build fallback narratives from real signals ──────────────
-function buildFallbackNarratives(signals: Signal[], errorReason: string): { narratives: Narrative[]; signalContexts: Record<string, string> } {
+function buildFallbackNarratives(signals: Signal[], errorReason: string): DetectionResult {
     const now = new Date().toISOString();
     console.warn(`⚠️ Building fallback narratives (reason: ${errorReason})`);
 
+    // Prefer the heuristic engine; the category grouping below only
+    // covers runs where no cluster has two or more signals
+    const heuristic = detectNarrativesHeuristic(signals);
+    if (heuristic.narratives.length > 0) {
+        return {
+            narratives: heuristic.narratives.map(n => ({
+                ...n,
+                summary: `[AI temporarily unavailable] ${n.summary}`,
+                explanation: `The AI narrative engine encountered an issue, so this narrative comes from the heuristic engine.\n\n**Reason:** ${errorReason}\n\n${n.explanation}`,
+            })),
+            signalContexts: heuristic.signalContexts,
+        };
+    }
+
     // Group signals by a narrative-like grouping (source → rough category)
     const categoryMap: Record<string, Signal[]> = {};
     for (const s of signals) {
@@ -313,15 +311,7 @@ function buildFallbackNarratives(signals: Signal[], errorReason: string): { narr
             : 50;
 
         // Pick ideas for this category
-        const ideas = (FALLBACK_IDEAS[cat] || FALLBACK_IDEAS['DeFi']).map((idea, j) => ({
-            ...idea,
-            id: `fallback-${i}-idea-${j}`,
-            narrativeId: `fallback-${i}`,
-            supportingSignalIds: topSignals.slice(0, 3).map(s => s.id),
-            signalRelevance: {} as Record<string, string>,
-            problemToSolve: '',
-            possibleSolution: '',
-        }));
+        const ideas = buildTemplateIdeas(`fallback-${i}`, cat, topSignals);
 
         const signalSummary = topSignals.length > 0
             ? topSignals.slice(0, 3).map(s => s.description).join('; ')
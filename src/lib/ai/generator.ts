@@ -5,8 +5,9 @@
 
 import { Narrative, BuildIdea, Signal, NarrativeCategory } from '@/lib/types';
 import { IDEA_GENERATION_PROMPT, IDEA_CRITIQUE_PROMPT, IDEA_DEEPDIVE_PROMPT } from './prompts';
-import { routeToModel } from './model-router';
-import { CONFIG } from '@/lib/config';
+import { requestStructured } from './structured-output';
+import { IDEAS_SCHEMA, CRITIQUE_SCHEMA, DEEPDIVE_SCHEMA, type GeneratedIdea } from './schemas';
+import { getWatchlists } from '@/lib/watchlists';
 import { getRecentIdeaTitles } from '@/lib/history';
 
 // ── Category-specific Solana feature mapping ─────────────────
@@ -26,8 +27,9 @@ const CATEGORY_SOLANA_FEATURES: Record<NarrativeCategory, string[]> = {
 };
 
 // ── Known ecosystem projects (injected as "don't reinvent" context) ──
-function buildKnownProjectsContext(): string {
-    const tokenProjects = CONFIG.trackedTokens.map(t => {
+async function buildKnownProjectsContext(): Promise<string> {
+    const { tokens, githubOrgs } = await getWatchlists();
+    const tokenProjects = tokens.filter(t => t.coingeckoId).map(t => {
         const names: Record<string, string> = {
             SOL: 'Solana (L1 blockchain)',
             JTO: 'Jito (MEV & liquid staking)',
@@ -47,7 +49,7 @@ function buildKnownProjectsContext(): string {
         return `- ${names[t.symbol] || t.symbol}`;
     }).join('\n');
 
-    const orgProjects = CONFIG.github.trackedOrgs.map(org => {
+    const orgProjects = githubOrgs.map(({ org }) => {
         const descriptions: Record<string, string> = {
             'solana-labs': 'Solana Labs (core runtime)',
             'solana-foundation': 'Solana Foundation (ecosystem grants)',
@@ -75,34 +77,32 @@ function getCategoryFeatures(category: NarrativeCategory): string {
     return features.map(f => `- ${f}`).join('\n');
 }
 
-// ── Extract JSON from LLM response (may be wrapped in markdown) ──
-function extractJson(content: string): string {
-    const match = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-    return match ? match[1] : content;
-}
-
-// ── Map raw LLM idea objects to BuildIdea[] ──────────────────
-function mapIdeas(ideas: any[], narrativeId: string): BuildIdea[] {
-    return ideas.map((idea: any, i: number) => ({
+// ── Map validated LLM ideas to BuildIdea[] ───────────────────
+function mapIdeas(ideas: GeneratedIdea[], narrativeId: string): BuildIdea[] {
+    return ideas.map((idea, i) => ({
         id: `idea-${narrativeId}-${i}`,
         title: idea.title,
         description: idea.description,
-        techStack: idea.techStack || [],
-        complexity: idea.complexity || 'Medium',
-        impact: idea.impact || 'Medium',
+        techStack: idea.techStack,
+        complexity: idea.complexity,
+        impact: idea.impact,
         narrativeId,
-        solanaFeatures: idea.solanaFeatures || [],
+        solanaFeatures: idea.solanaFeatures,
         supportingSignalIds: idea.supportingSignalIds || [],
         signalRelevance: idea.signalRelevance || {},
-        whyNow: idea.whyNow || '',
-        targetUser: idea.targetUser || '',
+        whyNow: idea.whyNow,
+        targetUser: idea.targetUser,
         problemToSolve: idea.problemToSolve || '',
         possibleSolution: idea.possibleSolution || '',
     }));
 }
 
 // ── Generate build ideas for a narrative ─────────────────────
-export async function generateIdeasForNarrative(narrative: Narrative, clientPreviousTitles?: string[]): Promise<BuildIdea[]> {
+export async function generateIdeasForNarrative(
+    narrative: Narrative,
+    clientPreviousTitles?: string[],
+    options: { refresh?: boolean; throwOnError?: boolean } = {},
+): Promise<BuildIdea[]> {
     // Build a list of signal IDs so the LLM can reference them
     const signalIdList = narrative.signals
         .map(s => `- [${s.id}] (${s.source}) ${s.description.slice(0, 120)}`)
@@ -132,7 +132,7 @@ export async function generateIdeasForNarrative(narrative: Narrative, clientPrev
         .replace('{narrative_name}', narrative.name)
         .replace('{narrative_explanation}', narrative.explanation)
         .replace('{signal_ids}', signalIdList || 'No signals available')
-        .replace('{known_projects}', buildKnownProjectsContext())
+        .replace('{known_projects}', await buildKnownProjectsContext())
         .replace('{category_features}', getCategoryFeatures(narrative.category))
         .replace('{previous_ideas}', previousIdeasContext);
 
@@ -151,44 +151,47 @@ export async function generateIdeasForNarrative(narrative: Narrative, clientPrev
             : '';
 
         // ── Pass 1: Generate ideas via WRITING model ─────────────
-        const response = await routeToModel('writing', [
+        const { value: generated, response } = await requestStructured('writing', [
             { role: 'system', content: prompt },
             {
                 role: 'user',
                 content: `Generate build ideas for the "${narrative.name}" narrative.\n\nCategory: ${narrative.category}\nConfidence: ${narrative.confidence}%\nTrend: ${narrative.trend}\n\nContext: ${narrative.summary}${evidenceBlock}\n\nRespond with a JSON object containing an "ideas" array.`,
             },
-        ], {
-            jsonMode: true,
+        ], IDEAS_SCHEMA, {
             maxTokens: 3500,
             temperature: 0.65,
+            cache: !options.refresh,
+            label: `Ideas for "${narrative.name}"`,
         });
 
         console.log(`✍️ Ideas generated via ${response.provider}/${response.model} for "${narrative.name}"`);
-
-        const parsed = JSON.parse(extractJson(response.content));
-        let ideas = parsed.ideas || [];
+        let ideas = generated.ideas;
 
         // ── Pass 2: Self-critique and refine ─────────────────────
         try {
             const critiquePrompt = IDEA_CRITIQUE_PROMPT
                 .replace('{narrative_name}', narrative.name);
 
-            const critiqueResponse = await routeToModel('writing', [
+            // No repair turn: if the refined set is off-schema the originals stand
+            const critique = await requestStructured('writing', [
                 { role: 'system', content: critiquePrompt },
                 {
                     role: 'user',
                     content: `Review and refine these ideas for the "${narrative.name}" narrative:\n\n${JSON.stringify({ ideas }, null, 2)}\n\nReturn the refined set as a JSON object with an "ideas" array.`,
                 },
-            ], {
-                jsonMode: true,
+            ], CRITIQUE_SCHEMA, {
                 maxTokens: 3500,
                 temperature: 0.3,
+                repair: false,
+                cache: !options.refresh,
+                label: `Critique for "${narrative.name}"`,
             });
 
-            const critiqueParsed = JSON.parse(extractJson(critiqueResponse.content));
-            if (critiqueParsed.ideas?.length > 0) {
-                ideas = critiqueParsed.ideas;
+            if (critique.issues.length === 0) {
+                ideas = critique.value.ideas;
                 console.log(`🔍 Ideas refined via critique pass for "${narrative.name}"`);
+            } else {
+                console.warn(`Critique pass for "${narrative.name}" returned off-schema ideas, using original ideas`);
             }
         } catch (critiqueErr) {
             // Critique failed — use original ideas (no regression)
@@ -197,6 +200,8 @@ export async function generateIdeasForNarrative(narrative: Narrative, clientPrev
 
         return mapIdeas(ideas, narrative.id);
     } catch (err) {
+        // Background jobs fall back to templates and report the failure
+        if (options.throwOnError) throw err;
         console.error(`Idea generation failed for "${narrative.name}":`, err);
         // Return a single default idea
         return [{
@@ -222,6 +227,7 @@ export async function generateIdeasForNarrative(narrative: Narrative, clientPrev
 export async function generateIdeaDeepDive(
     idea: BuildIdea,
     narrative: { name: string; summary: string; signals: Signal[] },
+    options: { refresh?: boolean } = {},
 ): Promise<{ problemToSolve: string; possibleSolution: string }> {
     const signalEvidence = narrative.signals.map(s => {
         const parts = [`- (${s.source}) ${s.description}`];
@@ -244,26 +250,25 @@ export async function generateIdeaDeepDive(
         `Target User: ${idea.targetUser}\n` +
         `Solana Features: ${idea.solanaFeatures.join(', ')}`;
 
-    const response = await routeToModel('writing', [
+    const { value } = await requestStructured('writing', [
         { role: 'system', content: prompt },
         {
             role: 'user',
             content: `Write a detailed problem/solution brief for the idea below. Return a JSON object with a "deepDives" array containing one entry.\n\n${ideaSummary}`,
         },
-    ], {
-        jsonMode: true,
+    ], DEEPDIVE_SCHEMA, {
         maxTokens: 2000,
         temperature: 0.5,
+        cache: !options.refresh,
+        label: `Deep-dive for "${idea.title}"`,
     });
 
-    const parsed = JSON.parse(extractJson(response.content));
-    const dive = parsed.deepDives?.[0] || parsed;
+    const dive = value.deepDives.find(d => d.title === idea.title) || value.deepDives[0];
 
     console.log(`🔬 Deep-dive generated for "${idea.title}"`);
 
     return {
-        problemToSolve: dive.problemToSolve || '',
-        possibleSolution: dive.possibleSolution || '',
+        problemToSolve: dive.problemToSolve,
+        possibleSolution: dive.possibleSolution,
     };
 }
-
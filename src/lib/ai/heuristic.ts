@@ -0,0 +1,345 @@
+// ============================================================
+// Solana Narrative Pulse — Heuristic Narrative Engine
+// ============================================================
+// Deterministic, LLM-free narrative detection. Serves
+// /api/narratives?mode=heuristic and the AI fallback path, so
+// deployments without API keys still get meaningful narratives.
+//
+//   1. Cluster signals by token / project / category (clusterSignals)
+//   2. Merge clusters whose signal sets largely overlap
+//   3. Rank by multi-source convergence, then clusterStrength
+//   4. Fill every Narrative field from templates
+
+import { Signal, Narrative, NarrativeCategory, BuildIdea } from '@/lib/types';
+import { clusterSignals, clusterStrength } from '@/lib/collectors/aggregator';
+
+// ── Config ───────────────────────────────────────────────────
+
+const MAX_NARRATIVES = 5;
+const MAX_SIGNALS_PER_NARRATIVE = 12;
+const MERGE_JACCARD = 0.5;          // merge clusters sharing at least half their signals
+const MAX_REUSED_SHARE = 0.6;       // skip a cluster mostly covered by earlier picks
+const MAX_CLUSTER_SHARE = 0.5;      // clusters holding half of all signals are too generic
+const TREND_DELTA = 5;              // weighted Δ% needed to call a trend
+const TREND_Z = 1;                  // ...or mean z-score when deltas are flat
+
+// ── Category keywords ────────────────────────────────────────
+// Matched against the words of each signal's category, metric,
+// tokens and projects; votes are weighted by signal strength.
+
+const CATEGORY_KEYWORDS: Array<[NarrativeCategory, string[]]> = [
+    ['DeFi', ['defi', 'tvl', 'dex', 'swap', 'lending', 'yield', 'liquidity', 'perp', 'perps', 'jupiter', 'jup', 'raydium', 'ray', 'orca', 'drift', 'kamino', 'marginfi', 'meteora', 'marinade', 'jito', 'jto', 'lst']],
+    ['DePIN', ['depin', 'helium', 'hnt', 'hivemapper', 'render', 'rndr', 'grass']],
+    ['AI & ML', ['ai', 'agent', 'agents', 'llm', 'ml', 'eliza']],
+    ['Gaming', ['gaming', 'game', 'games', 'aurory', 'atlas']],
+    ['NFTs', ['nft', 'nfts', 'cnft', 'collection', 'floor', 'tensor', 'metaplex']],
+    ['Payments', ['payment', 'payments', 'payfi', 'pay', 'usdc', 'usdt', 'pyusd', 'stablecoin']],
+    ['Memecoins', ['meme', 'memecoin', 'memecoins', 'bonk', 'wif', 'popcat', 'pump', 'boosted']],
+    ['RWA', ['rwa', 'tokenized', 'treasury', 'treasuries', 'ondo']],
+    ['Privacy', ['privacy', 'zk', 'confidential']],
+    ['Social', ['social', 'kol', 'community']],
+    ['Infrastructure', ['tps', 'validator', 'validators', 'network', 'program', 'programs', 'rpc', 'firedancer', 'epoch', 'stake', 'inflation', 'supply', 'developer', 'github', 'sdk', 'anchor']],
+];
+
+// ── Idea templates per category ──────────────────────────────
+
+type IdeaTemplate = Pick<BuildIdea, 'title' | 'description' | 'techStack' | 'complexity' | 'impact' | 'solanaFeatures' | 'whyNow' | 'targetUser'>;
+
+const FALLBACK_IDEAS: Record<string, IdeaTemplate[]> = {
+    DeFi: [
+        { title: 'DeFi Portfolio Tracker', description: 'Unified dashboard to track positions across all Solana DeFi protocols — lending, swaps, and LP.', techStack: ['Next.js', 'Helius API', 'Recharts'], complexity: 'Low', impact: 'Medium', solanaFeatures: ['Token accounts', 'DeFi composability'], whyNow: 'Growing DeFi TVL creates demand for unified position tracking.', targetUser: 'DeFi users managing positions across multiple protocols.' },
+        { title: 'Yield Aggregator Alert Bot', description: 'Monitors yield farms across Solana and sends alerts when APY spikes or drops significantly.', techStack: ['Node.js', 'DeFi Llama API', 'Telegram Bot API'], complexity: 'Low', impact: 'Medium', solanaFeatures: ['SPL tokens', 'Program accounts'], whyNow: 'Yield volatility means users miss optimal entry/exit windows.', targetUser: 'Yield farmers and liquidity providers on Solana.' },
+        { title: 'Smart Swap Router', description: 'Compares swap rates across Jupiter, Raydium, and Orca to find the best execution price.', techStack: ['Next.js', 'Jupiter API', '@solana/web3.js'], complexity: 'Medium', impact: 'High', solanaFeatures: ['Jupiter aggregator', 'Transaction optimization'], whyNow: 'Rising DEX volumes make execution quality increasingly important.', targetUser: 'Active traders seeking best execution on Solana.' },
+    ],
+    Infrastructure: [
+        { title: 'Solana TPS Dashboard', description: 'Real-time network health monitor showing TPS, slot times, validator stats, and congestion alerts.', techStack: ['Next.js', 'Helius RPC', 'D3.js'], complexity: 'Low', impact: 'Medium', solanaFeatures: ['RPC endpoints', 'Validator network'], whyNow: 'Network performance directly impacts user experience and protocol reliability.', targetUser: 'Solana developers and node operators.' },
+        { title: 'Program Deployment Tracker', description: 'Monitor new program deployments on Solana with alerts for upgradeable program changes.', techStack: ['Node.js', 'Helius API', 'PostgreSQL'], complexity: 'Medium', impact: 'Medium', solanaFeatures: ['BPF loader', 'Program accounts'], whyNow: 'Security monitoring of program upgrades is critical for protocol safety.', targetUser: 'Security researchers and protocol auditors.' },
+    ],
+    'NFT & Gaming': [
+        { title: 'NFT Floor Price Tracker', description: 'Track Solana NFT collection floor prices with alerts and trend analysis.', techStack: ['Next.js', 'Magic Eden API', 'Recharts'], complexity: 'Low', impact: 'Medium', solanaFeatures: ['Metaplex', 'Token metadata'], whyNow: 'Active NFT market needs better price discovery tools.', targetUser: 'NFT traders and collectors on Solana.' },
+        { title: 'Collection Analytics Dashboard', description: 'Deep analytics for NFT collections: holder distribution, wash trading detection, and whale tracking.', techStack: ['Next.js', 'Helius DAS API', 'D3.js'], complexity: 'Medium', impact: 'High', solanaFeatures: ['Digital Asset Standard', 'Compressed NFTs'], whyNow: 'Collectors need transparency to make informed buying decisions.', targetUser: 'NFT collection creators and serious collectors.' },
+    ],
+    'Developer Tooling': [
+        { title: 'GitHub Activity Explorer', description: 'Explore and compare development activity across Solana ecosystem repos with contributor stats.', techStack: ['Next.js', 'GitHub API', 'Recharts'], complexity: 'Low', impact: 'Medium', solanaFeatures: ['Anchor framework', 'Solana SDK'], whyNow: 'Developer activity is a leading indicator of ecosystem health.', targetUser: 'Investors and developers evaluating Solana projects.' },
+        { title: 'Transaction Debugger', description: 'Visual debugger for Solana transactions showing instruction flow, CPI calls, and state changes.', techStack: ['Next.js', 'Helius Enhanced API', 'React Flow'], complexity: 'High', impact: 'High', solanaFeatures: ['Transaction introspection', 'CPI tracing'], whyNow: 'Complex transactions with multiple CPIs are hard to debug with existing tools.', targetUser: 'Solana smart contract developers.' },
+    ],
+};
+
+// Narrative categories that share a template set
+const TEMPLATE_ALIASES: Partial<Record<NarrativeCategory, string>> = {
+    NFTs: 'NFT & Gaming',
+    Gaming: 'NFT & Gaming',
+};
+
+/**
+ * Template build ideas for a narrative category (no LLM call).
+ * Accepts NarrativeCategory values and the template keys themselves.
+ */
+export function buildTemplateIdeas(narrativeId: string, category: string, signals: Signal[]): BuildIdea[] {
+    const templates = FALLBACK_IDEAS[category]
+        || FALLBACK_IDEAS[TEMPLATE_ALIASES[category as NarrativeCategory] || '']
+        || FALLBACK_IDEAS['DeFi'];
+
+    return templates.map((idea, j) => ({
+        ...idea,
+        id: `${narrativeId}-idea-${j}`,
+        narrativeId,
+        supportingSignalIds: signals.slice(0, 3).map(s => s.id),
+        signalRelevance: {} as Record<string, string>,
+        problemToSolve: '',
+        possibleSolution: '',
+    }));
+}
+
+// ── Clustering ───────────────────────────────────────────────
+
+interface MergedCluster {
+    keys: string[];                 // original cluster keys, seed first
+    signals: Signal[];
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    let shared = 0;
+    for (const id of a) if (b.has(id)) shared++;
+    return shared / (a.size + b.size - shared);
+}
+
+// Greedy merge, strongest clusters first, so each merged cluster is
+// named after its strongest member
+function mergeClusters(clusters: Record<string, Signal[]>): MergedCluster[] {
+    const ordered = Object.entries(clusters)
+        .sort((a, b) => clusterStrength(b[1]) - clusterStrength(a[1]) || a[0].localeCompare(b[0]));
+
+    const merged: Array<MergedCluster & { ids: Set<string> }> = [];
+    for (const [key, sigs] of ordered) {
+        const ids = new Set(sigs.map(s => s.id));
+        const target = merged.find(m => jaccard(m.ids, ids) >= MERGE_JACCARD);
+        if (!target) {
+            merged.push({ keys: [key], signals: [...sigs], ids });
+            continue;
+        }
+        target.keys.push(key);
+        for (const s of sigs) {
+            if (!target.ids.has(s.id)) {
+                target.ids.add(s.id);
+                target.signals.push(s);
+            }
+        }
+    }
+    return merged.map(({ keys, signals }) => ({ keys, signals }));
+}
+
+// Independent sources — anomaly signals restate other sources' data
+function convergence(signals: Signal[]): string[] {
+    return [...new Set(signals.filter(s => s.source !== 'anomaly').map(s => s.source))].sort();
+}
+
+// ── Templates ────────────────────────────────────────────────
+
+function slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+}
+
+// Human label for a cluster key, using the casing found in the signals
+function clusterLabel(key: string, signals: Signal[]): string {
+    const [kind, ...rest] = key.split(':');
+    const value = rest.join(':');
+    if (kind === 'token') return value.toUpperCase();
+    if (kind === 'project') {
+        const original = signals.flatMap(s => s.relatedProjects).find(p => p.toLowerCase() === value);
+        return original || value.replace(/\b\w/g, c => c.toUpperCase());
+    }
+    return signals.find(s => s.category.toLowerCase() === value)?.category || value;
+}
+
+function classifyCategory(signals: Signal[]): NarrativeCategory {
+    const votes = new Map<NarrativeCategory, number>();
+    for (const s of signals) {
+        const words = new Set(
+            [s.category, s.metric, ...s.relatedTokens, ...s.relatedProjects]
+                .join(' ')
+                .toLowerCase()
+                .split(/[^a-z0-9]+/)
+        );
+        for (const [category, keywords] of CATEGORY_KEYWORDS) {
+            if (keywords.some(k => words.has(k))) {
+                votes.set(category, (votes.get(category) || 0) + s.strength);
+            }
+        }
+    }
+
+    let best: NarrativeCategory = 'Other';
+    let bestScore = 0;
+    for (const [category] of CATEGORY_KEYWORDS) {
+        const score = votes.get(category) || 0;
+        if (score > bestScore) {
+            best = category;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+interface Momentum {
+    trend: Narrative['trend'];
+    avgDelta: number | null;        // strength-weighted, null when no deltas
+    avgZ: number | null;
+}
+
+function measureMomentum(signals: Signal[]): Momentum {
+    const withDelta = signals.filter(s => Number.isFinite(s.delta) && s.delta !== 0);
+    const weight = withDelta.reduce((sum, s) => sum + s.strength, 0);
+    const avgDelta = withDelta.length > 0 && weight > 0
+        // Cap each delta so one +900% pair launch doesn't decide the trend
+        ? withDelta.reduce((sum, s) => sum + Math.max(-100, Math.min(100, s.delta)) * s.strength, 0) / weight
+        : null;
+
+    const withZ = signals.filter(s => typeof s.zScore === 'number');
+    const avgZ = withZ.length > 0
+        ? withZ.reduce((sum, s) => sum + (s.zScore as number), 0) / withZ.length
+        : null;
+
+    let trend: Narrative['trend'] = 'stable';
+    if (avgDelta !== null && Math.abs(avgDelta) >= TREND_DELTA) {
+        trend = avgDelta > 0 ? 'rising' : 'declining';
+    } else if (avgZ !== null && Math.abs(avgZ) >= TREND_Z) {
+        trend = avgZ > 0 ? 'rising' : 'declining';
+    }
+    return { trend, avgDelta, avgZ };
+}
+
+const TREND_WORDS: Record<Narrative['trend'], { name: string; phrase: string }> = {
+    rising: { name: 'Momentum', phrase: 'accelerating activity around' },
+    stable: { name: 'Activity', phrase: 'sustained activity around' },
+    declining: { name: 'Cooldown', phrase: 'cooling activity around' },
+};
+
+function formatDelta(delta: number): string {
+    return `Δ${delta > 0 ? '+' : ''}${delta.toFixed(1)}%`;
+}
+
+function buildNarrative(cluster: MergedCluster, index: number, now: string): Narrative {
+    const signals = [...cluster.signals]
+        .sort((a, b) => b.strength - a.strength)
+        .slice(0, MAX_SIGNALS_PER_NARRATIVE);
+    const sources = convergence(signals);
+    const strength = clusterStrength(signals);
+    const momentum = measureMomentum(signals);
+    const anomalies = signals.filter(s => s.source === 'anomaly');
+
+    // Name after a token/project when the merge includes one — categories are vaguer
+    const keys = [...cluster.keys].sort((a, b) => Number(a.startsWith('category:')) - Number(b.startsWith('category:')));
+    const labels = [...new Set(keys.map(k => clusterLabel(k, signals)))];
+    const label = labels[0];
+    const name = `${label} ${TREND_WORDS[momentum.trend].name}`;
+    const id = `heur-${Date.now()}-${index}`;
+    const category = classifyCategory(signals);
+
+    const confidence = Math.round(Math.max(20, Math.min(90,
+        strength * 0.6 + sources.length * 8 + Math.min(10, signals.length * 2) + (anomalies.length > 0 ? 5 : 0)
+    )));
+
+    const momentumLine = [
+        momentum.avgDelta !== null ? `strength-weighted ${formatDelta(momentum.avgDelta)}` : 'no reported deltas',
+        momentum.avgZ !== null ? `mean z-score ${momentum.avgZ.toFixed(1)}` : null,
+    ].filter(Boolean).join(', ');
+
+    const evidence = signals.slice(0, 5).map(s =>
+        `- [${s.id}] ${s.description}${s.delta ? ` (${formatDelta(s.delta)})` : ''}`
+    ).join('\n');
+
+    const summary = `${signals.length} signals across ${sources.length} source${sources.length === 1 ? '' : 's'} (${sources.join(', ') || 'anomaly'}) point to ${TREND_WORDS[momentum.trend].phrase} ${label}. Strongest: ${signals[0].description}.`;
+
+    const explanation = [
+        `**Convergence:** ${sources.length} independent source${sources.length === 1 ? '' : 's'} — ${sources.join(', ') || 'none'}.`,
+        `**Momentum:** ${momentum.trend} (${momentumLine}).`,
+        anomalies.length > 0 ? `**Anomalies:** ${anomalies.length} statistical anomal${anomalies.length === 1 ? 'y' : 'ies'} in this cluster.` : null,
+        `**Key evidence:**\n${evidence}`,
+        `Detected by the heuristic engine (no LLM) from the ${cluster.keys.join(', ')} cluster${cluster.keys.length === 1 ? '' : 's'}.`,
+    ].filter(Boolean).join('\n\n');
+
+    const risks = [
+        'Heuristic detection — signals were grouped by shared tokens, projects and categories, not reviewed by a model.',
+        sources.length < 2 ? 'Backed by a single data source; could be noise from one feed.' : null,
+        anomalies.length > 0 ? 'Partly driven by statistical anomalies, which often revert.' : null,
+    ].filter((r): r is string => r !== null);
+
+    const actionables = momentum.trend === 'declining'
+        ? [`Look for users left underserved as ${label} activity cools`, `Re-check ${label} in the next few editions before committing`]
+        : [`Track ${label} signals over the next few editions to confirm the trend`, `Prototype tooling around ${labels.slice(0, 2).join(' and ')} while attention is building`];
+
+    return {
+        id,
+        name,
+        slug: slugify(name),
+        category,
+        confidence,
+        summary,
+        explanation,
+        signals,
+        signalStrength: strength,
+        ideas: buildTemplateIdeas(id, category, signals),
+        detectedAt: now,
+        updatedAt: now,
+        trend: momentum.trend,
+        recommendation: {
+            thesis: `${label} shows ${momentum.trend} momentum confirmed by ${sources.length} independent source${sources.length === 1 ? '' : 's'}.`,
+            actionables,
+            risks,
+        },
+    };
+}
+
+// ── Public API ───────────────────────────────────────────────
+
+/**
+ * Detect narratives without an LLM. Same shape as detectNarratives,
+ * and deterministic for a given signal set (apart from ids/timestamps).
+ */
+export function detectNarrativesHeuristic(signals: Signal[]): { narratives: Narrative[]; signalContexts: Record<string, string> } {
+    const now = new Date().toISOString();
+    const maxSize = signals.length >= 10 ? signals.length * MAX_CLUSTER_SHARE : Infinity;
+
+    const candidates = mergeClusters(clusterSignals(signals))
+        .filter(c => c.signals.length <= maxSize)
+        .sort((a, b) =>
+            convergence(b.signals).length - convergence(a.signals).length
+            || clusterStrength(b.signals) - clusterStrength(a.signals)
+            || a.keys[0].localeCompare(b.keys[0])
+        );
+
+    // Pick top clusters, skipping ones mostly covered by earlier picks
+    const used = new Set<string>();
+    const picked: MergedCluster[] = [];
+    for (const cluster of candidates) {
+        if (picked.length >= MAX_NARRATIVES) break;
+        const reused = cluster.signals.filter(s => used.has(s.id)).length;
+        if (reused / cluster.signals.length > MAX_REUSED_SHARE) continue;
+        picked.push(cluster);
+        cluster.signals.forEach(s => used.add(s.id));
+    }
+
+    const narratives: Narrative[] = [];
+    const seenSlugs = new Set<string>();
+    picked.forEach((cluster, i) => {
+        const narrative = buildNarrative(cluster, i, now);
+        if (seenSlugs.has(narrative.slug)) return;
+        seenSlugs.add(narrative.slug);
+        narratives.push(narrative);
+    });
+
+    const signalContexts: Record<string, string> = {};
+    for (const narrative of narratives) {
+        for (const s of narrative.signals) {
+            if (signalContexts[s.id]) continue;
+            const notes = [
+                s.delta ? formatDelta(s.delta) : null,
+                typeof s.zScore === 'number' ? `z ${s.zScore.toFixed(1)}` : null,
+            ].filter(Boolean).join(', ');
+            signalContexts[s.id] = `Supports "${narrative.name}" — ${s.source} ${s.metric}${notes ? ` (${notes})` : ''}.`;
+        }
+    }
+
+    console.log(`🧮 Heuristic detection: ${narratives.length} narratives from ${candidates.length} merged clusters`);
+    return { narratives, signalContexts };
+}
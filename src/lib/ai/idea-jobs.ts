@@ -0,0 +1,193 @@
+// ============================================================
+// Solana Narrative Pulse — Background Idea Generation
+// ============================================================
+// Detection returns narratives without ideas so it stays inside the
+// request time limit. An idea job then generates real AI ideas for
+// each narrative in parallel:
+//
+//   • every narrative's ideas are reported through `onIdeas` as soon
+//     as they are ready (the SSE route forwards them to the client)
+//   • results are written into the saved edition, so history, idea
+//     dedup and /api/ideas see them even after the stream closed
+//   • a narrative whose generation fails (provider error, budget
+//     refusal, unusable reply) is marked `failed` with the error and
+//     no ideas — nothing is saved, so a retry can still fill it in
+//
+// Jobs are tracked in memory by id (the edition id when one was
+// saved). After a restart, /api/ideas rebuilds the status from the
+// stored edition instead. Ideas the history backend can't return
+// (json keeps titles only) are reported as failed, never as `done`
+// with an empty list.
+
+import { BuildIdea, Narrative } from '@/lib/types';
+import { generateIdeasForNarrative } from './generator';
+import { getEdition, getEditionNarrative, saveNarrativeIdeas } from '@/lib/history';
+import { withUsageRun } from '@/lib/usage-ledger';
+
+// ── Types ────────────────────────────────────────────────────
+
+export type IdeaJobStatus = 'pending' | 'done' | 'failed';
+
+export interface IdeaJobNarrative {
+    narrativeId: string;
+    status: IdeaJobStatus;
+    ideas: BuildIdea[];
+    /** Why generation failed (status `failed` only) */
+    error?: string;
+}
+
+export interface IdeaJob {
+    id: string;
+    editionId: string | null;
+    startedAt: string;
+    finishedAt?: string;
+    narratives: IdeaJobNarrative[];
+}
+
+interface IdeaJobOptions {
+    /** Persist results into this edition */
+    editionId?: string | null;
+    /** Titles to avoid (the client's session titles) */
+    previousIdeaTitles?: string[];
+    /** Usage-ledger route for the job's LLM calls */
+    route: string;
+    /** Called once per narrative when it is done or failed */
+    onIdeas?: (entry: IdeaJobNarrative) => void;
+}
+
+// ── Config ───────────────────────────────────────────────────
+
+const FINISHED_JOB_TTL_MS = 30 * 60 * 1000;
+// A stored edition with no ideas this long after detection is
+// assumed to have lost its job (process restarted mid-run)
+const ORPHANED_JOB_MS = 5 * 60 * 1000;
+
+const jobs = new Map<string, IdeaJob>();
+
+function pruneJobs(now: number) {
+    for (const [id, job] of jobs) {
+        if (job.finishedAt && now - Date.parse(job.finishedAt) > FINISHED_JOB_TTL_MS) jobs.delete(id);
+    }
+}
+
+// ── Run ──────────────────────────────────────────────────────
+
+async function generateFor(narrative: Narrative, entry: IdeaJobNarrative, options: IdeaJobOptions) {
+    try {
+        entry.ideas = await generateIdeasForNarrative(narrative, options.previousIdeaTitles, { throwOnError: true });
+        entry.status = 'done';
+    } catch (err) {
+        console.error(`💡 Idea job: generation failed for "${narrative.name}":`, err);
+        entry.ideas = [];
+        entry.status = 'failed';
+        entry.error = err instanceof Error ? err.message : String(err);
+    }
+
+    // Persist before notifying — a listener that throws must not lose them
+    if (options.editionId && entry.status === 'done') {
+        try {
+            await saveNarrativeIdeas(options.editionId, narrative.id, entry.ideas);
+        } catch (err) {
+            console.warn('💡 Idea job: failed to persist ideas (non-fatal):', err);
+        }
+    }
+
+    try {
+        options.onIdeas?.(entry);
+    } catch (err) {
+        console.warn('💡 Idea job: onIdeas listener failed (non-fatal):', err);
+    }
+}
+
+/**
+ * Start generating ideas for `narratives`. Returns the job at once;
+ * `done` resolves when every narrative is done or failed. Never rejects.
+ */
+export function startIdeaJob(narratives: Narrative[], options: IdeaJobOptions): { job: IdeaJob; done: Promise<IdeaJob> } {
+    const now = Date.now();
+    pruneJobs(now);
+
+    const job: IdeaJob = {
+        id: options.editionId || `ideas-${now}-${Math.random().toString(36).slice(2, 8)}`,
+        editionId: options.editionId ?? null,
+        startedAt: new Date(now).toISOString(),
+        narratives: narratives.map(n => ({ narrativeId: n.id, status: 'pending', ideas: [] })),
+    };
+    jobs.set(job.id, job);
+    console.log(`💡 Idea job ${job.id} started for ${narratives.length} narratives`);
+
+    const done = withUsageRun(options.route, () => Promise.all(
+        narratives.map((n, i) => generateFor(n, job.narratives[i], options)),
+    )).then(() => {
+        job.finishedAt = new Date().toISOString();
+        console.log(`💡 Idea job ${job.id} finished in ${Date.now() - now}ms`);
+        return job;
+    });
+
+    return { job, done };
+}
+
+/**
+ * Generate one narrative's ideas again, e.g. after it failed. Updates
+ * the narrative's entry in its edition's job while that is tracked, so
+ * /api/ideas reports the new result. Never rejects.
+ */
+export async function retryIdeas(narrative: Narrative, options: IdeaJobOptions): Promise<IdeaJobNarrative> {
+    const tracked = options.editionId
+        ? jobs.get(options.editionId)?.narratives.find(n => n.narrativeId === narrative.id)
+        : undefined;
+    // Still generating — the running job will report it
+    if (tracked?.status === 'pending') return tracked;
+
+    const entry: IdeaJobNarrative = tracked ?? { narrativeId: narrative.id, status: 'pending', ideas: [] };
+    entry.status = 'pending';
+    entry.ideas = [];
+    delete entry.error;
+
+    await withUsageRun(options.route, () => generateFor(narrative, entry, options));
+    return entry;
+}
+
+// ── Status ───────────────────────────────────────────────────
+
+/**
+ * A job by id — from memory, or rebuilt from its stored edition.
+ * Null when neither knows the id.
+ */
+export async function getIdeaJob(id: string): Promise<IdeaJob | null> {
+    const running = jobs.get(id);
+    if (running) return running;
+
+    const edition = await getEdition(id);
+    if (!edition) return null;
+
+    const orphaned = Date.now() - Date.parse(edition.detectedAt) > ORPHANED_JOB_MS;
+    const narratives = await Promise.all(edition.narratives.map(async (n): Promise<IdeaJobNarrative> => {
+        const stored = await getEditionNarrative(id, n.id);
+        if (stored && stored.ideas.length > 0) return { narrativeId: n.id, status: 'done', ideas: stored.ideas };
+        if (n.ideaCount > 0) {
+            return { narrativeId: n.id, status: 'failed', ideas: [], error: 'Ideas were saved, but the history backend does not store them' };
+        }
+        if (orphaned) {
+            return { narrativeId: n.id, status: 'failed', ideas: [], error: 'Idea generation did not finish (server restarted)' };
+        }
+        return { narrativeId: n.id, status: 'pending', ideas: [] };
+    }));
+
+    return {
+        id,
+        editionId: id,
+        startedAt: edition.detectedAt,
+        narratives,
+    };
+}
+
+export function pendingNarrativeIds(job: IdeaJob): string[] {
+    return job.narratives.filter(n => n.status === 'pending').map(n => n.narrativeId);
+}
+
+export function failedNarratives(job: IdeaJob): { narrativeId: string; error: string }[] {
+    return job.narratives
+        .filter(n => n.status === 'failed')
+        .map(n => ({ narrativeId: n.narrativeId, error: n.error || 'Idea generation failed' }));
+}
@@ -0,0 +1,263 @@
+// ============================================================
+// Solana Narrative Pulse — Deterministic Mock LLM
+// ============================================================
+// Selected with LLM_PROVIDER=mock. Recognises which prompt it was
+// sent (detection, ideas, critique, deep-dive) and answers with
+// schema-valid JSON built from the input alone — same signals in,
+// same narratives out — so the AI path runs in CI without keys.
+//
+// Failure injection (MOCK_LLM_FAILURE=<mode>[:<count>]):
+//   malformed  — truncated JSON in a ```json fence (parse retry path)
+//   timeout    — hangs for MOCK_LLM_TIMEOUT_MS (default 50s, past the
+//                detector's 45s race), then rejects
+//   credit     — throws a billing error shaped like Anthropic's
+// With a count, only the first <count> calls fail; e.g. malformed:1
+// fails detection once and lets the retry succeed.
+
+import {
+    NARRATIVE_DETECTION_PROMPT, IDEA_GENERATION_PROMPT,
+    IDEA_CRITIQUE_PROMPT, IDEA_DEEPDIVE_PROMPT,
+} from './prompts';
+import type { ChatMessage, ModelResponse } from './model-router';
+
+// ── Types ────────────────────────────────────────────────────
+
+type MockTask = 'detection' | 'ideas' | 'critique' | 'deep-dive';
+type MockFailure = 'malformed' | 'timeout' | 'credit';
+
+interface ParsedSignal {
+    id: string;
+    source: string;
+    category: string;
+    description: string;
+    delta: number;
+    strength: number;
+}
+
+// ── Failure injection ────────────────────────────────────────
+
+let injectedFailures = 0;
+
+function nextFailure(): MockFailure | null {
+    const [mode, count] = (process.env.MOCK_LLM_FAILURE || '').split(':');
+    if (mode !== 'malformed' && mode !== 'timeout' && mode !== 'credit') return null;
+    const limit = count ? Number(count) : Infinity;
+    if (injectedFailures >= limit) return null;
+    injectedFailures++;
+    return mode;
+}
+
+/** Reset the injected-failure counter (between test runs) */
+export function resetMockFailures(): void {
+    injectedFailures = 0;
+}
+
+// ── Task recognition ─────────────────────────────────────────
+
+const TASK_PROMPTS: [MockTask, string][] = [
+    ['detection', NARRATIVE_DETECTION_PROMPT],
+    ['critique', IDEA_CRITIQUE_PROMPT],
+    ['deep-dive', IDEA_DEEPDIVE_PROMPT],
+    ['ideas', IDEA_GENERATION_PROMPT],
+];
+
+function recogniseTask(system: string): MockTask | null {
+    // Prompts are filled from templates, so their openings are stable
+    const match = TASK_PROMPTS.find(([, prompt]) => system.startsWith(prompt.slice(0, 80)));
+    return match ? match[0] : null;
+}
+
+// ── Detection ────────────────────────────────────────────────
+
+// Signal line format from detector.ts:
+//   [id] (source/category) description | Δ+1.2% | tokens: … | [str: 72]
+function parseSignalLines(text: string): ParsedSignal[] {
+    const signals: ParsedSignal[] = [];
+    for (const line of text.split('\n')) {
+        const head = line.match(/^\[([^\]]+)\] \(([^/)]+)\/([^)]*)\) (.*)$/);
+        if (!head) continue;
+        const parts = head[4].split(' | ');
+        const delta = line.match(/\| Δ([+-]?[\d.]+)%/);
+        const strength = line.match(/\[str: (\d+)\]/);
+        signals.push({
+            id: head[1],
+            source: head[2],
+            category: head[3],
+            description: parts[0],
+            delta: delta ? Number(delta[1]) : 0,
+            strength: strength ? Number(strength[1]) : 50,
+        });
+    }
+    return signals;
+}
+
+const CATEGORY_KEYWORDS: [string, RegExp][] = [
+    ['DePIN', /depin|helium|hotspot|render/],
+    ['NFTs', /nft|collection|floor/],
+    ['Memecoins', /meme|bonk|wif|pump|launch/],
+    ['AI & ML', /\bai\b|agent|inference/],
+    ['Payments', /payment|stablecoin|usdc|pyusd/],
+    ['DeFi', /defi|tvl|dex|swap|lend|stak|liquid|flow|price|market|volume|perp/],
+    ['Infrastructure', /tps|validator|program|network|github|commit|dev|supply|epoch/],
+];
+
+function narrativeCategory(signal: ParsedSignal): string {
+    const text = `${signal.source} ${signal.category} ${signal.description}`.toLowerCase();
+    return CATEGORY_KEYWORDS.find(([, re]) => re.test(text))?.[0] || 'Other';
+}
+
+function buildDetection(userMessage: string): object {
+    const signals = parseSignalLines(userMessage);
+    const groups = new Map<string, ParsedSignal[]>();
+    for (const s of signals) {
+        const category = narrativeCategory(s);
+        groups.set(category, [...(groups.get(category) || []), s]);
+    }
+
+    const ranked = [...groups.entries()]
+        .map(([category, group]) => ({
+            category,
+            group: [...group].sort((a, b) => b.strength - a.strength || a.id.localeCompare(b.id)),
+            total: group.reduce((sum, s) => sum + s.strength, 0),
+        }))
+        .sort((a, b) => b.total - a.total || a.category.localeCompare(b.category))
+        .slice(0, 5);
+
+    const narratives = ranked.map(({ category, group }) => {
+        const top = group.slice(0, 6);
+        const sources = [...new Set(top.map(s => s.source))];
+        const avgStrength = top.reduce((sum, s) => sum + s.strength, 0) / top.length;
+        const avgDelta = top.reduce((sum, s) => sum + s.delta, 0) / top.length;
+        const lead = top[0];
+
+        return {
+            name: `${category} Momentum`,
+            category,
+            confidence: Math.min(95, Math.round(avgStrength * 0.8 + sources.length * 5)),
+            summary: `${group.length} ${category} signals across ${sources.join(', ')}, led by: ${lead.description}.`,
+            explanation: `Mock analysis of ${group.length} signals classified as ${category}.\n\n`
+                + `Strongest evidence: ${top.slice(0, 3).map(s => `${s.description} [${s.id}]`).join('; ')}.\n\n`
+                + `Average strength ${avgStrength.toFixed(0)}, average change ${avgDelta >= 0 ? '+' : ''}${avgDelta.toFixed(1)}%.`,
+            trend: avgDelta > 5 ? 'rising' : avgDelta < -5 ? 'declining' : 'stable',
+            supportingSignals: top.map(s => ({ id: s.id, context: `${s.description} (${s.source}, strength ${s.strength})` })),
+            recommendation: {
+                thesis: `${category} activity is concentrated around ${lead.id}.`,
+                actionables: [
+                    `Watch ${lead.id} for continuation above strength ${lead.strength}`,
+                    `Build tooling around ${sources[0]} data for ${category}`,
+                ],
+                risks: [`Signals for ${category} come from ${sources.length} source(s) only`],
+            },
+        };
+    });
+
+    const topSignalInsights = Object.fromEntries(signals.map(s => [
+        s.id,
+        `${s.description} — ${s.source} signal (${s.category}), strength ${s.strength}.`,
+    ]));
+
+    return { narratives, topSignalInsights };
+}
+
+// ── Ideas, critique, deep-dive ───────────────────────────────
+
+const IDEA_SHAPES = [
+    { suffix: 'Alert Bot', complexity: 'Low', impact: 'Medium', techStack: ['Next.js', 'Helius webhooks', 'Telegram Bot API'] },
+    { suffix: 'Analytics API', complexity: 'Medium', impact: 'High', techStack: ['Node.js', 'PostgreSQL', 'Helius RPC'] },
+    { suffix: 'Copilot', complexity: 'High', impact: 'High', techStack: ['Anchor', 'Next.js', 'Jupiter API'] },
+];
+
+function buildIdeas(system: string, userMessage: string): object {
+    const name = userMessage.match(/for the "([^"]+)" narrative/)?.[1] || 'Narrative';
+    const category = userMessage.match(/Category: (.+)/)?.[1]?.trim() || 'Other';
+    const signalIds = [...system.matchAll(/^- \[([^\]]+)\]/gm)].map(m => m[1]);
+
+    return {
+        ideas: IDEA_SHAPES.map((shape, i) => {
+            const ids = signalIds.length > 0
+                ? [signalIds[i % signalIds.length], signalIds[(i + 1) % signalIds.length]].filter((id, j, all) => all.indexOf(id) === j)
+                : [];
+            return {
+                title: `${name} ${shape.suffix}`,
+                description: `A ${shape.suffix.toLowerCase()} for the ${name} narrative (${category}).`,
+                techStack: shape.techStack,
+                complexity: shape.complexity,
+                impact: shape.impact,
+                solanaFeatures: ['Versioned transactions', 'Priority fees'],
+                supportingSignalIds: ids,
+                signalRelevance: Object.fromEntries(ids.map(id => [id, `${id} shows activity this ${shape.suffix.toLowerCase()} would track.`])),
+                whyNow: `${name} has ${signalIds.length} supporting signals this run.`,
+                targetUser: `${category} builders following ${name}.`,
+                problemToSolve: '',
+                possibleSolution: '',
+            };
+        }),
+    };
+}
+
+function buildCritique(userMessage: string): object {
+    // The ideas under review are echoed back unchanged
+    const start = userMessage.indexOf('{');
+    const end = userMessage.lastIndexOf('}');
+    const input = start >= 0 ? JSON.parse(userMessage.slice(start, end + 1)) as { ideas?: unknown[] } : {};
+    return { ideas: input.ideas || [] };
+}
+
+function buildDeepDive(userMessage: string): object {
+    const title = userMessage.match(/### Idea: "([^"]+)"/)?.[1] || 'Idea';
+    return {
+        deepDives: [{
+            title,
+            problemToSolve: `Mock problem statement for "${title}".\n\nIt names the affected users and the gap in current tooling.`,
+            possibleSolution: `Mock solution for "${title}":\n\n1. Ingest the relevant on-chain data.\n2. Surface it to users.\n3. Act on it with a Solana transaction.`,
+        }],
+    };
+}
+
+// ── Main entry ───────────────────────────────────────────────
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export async function callMock(model: string, messages: ChatMessage[]): Promise<ModelResponse> {
+    const system = messages.find(m => m.role === 'system')?.content || '';
+    const userMessage = messages.find(m => m.role === 'user')?.content || '';
+    const task = recogniseTask(system);
+    if (!task) throw new Error('Mock LLM: unrecognised prompt');
+
+    const failure = nextFailure();
+    if (failure === 'credit') {
+        throw Object.assign(
+            new Error('Your credit balance is too low to access the API. Please go to Plans & Billing to upgrade or purchase credits.'),
+            { status: 400, error: { type: 'billing_error' } },
+        );
+    }
+    if (failure === 'timeout') {
+        const ms = Number(process.env.MOCK_LLM_TIMEOUT_MS) || 50_000;
+        await sleep(ms);
+        throw new Error(`Mock LLM: request timed out after ${ms}ms`);
+    }
+
+    const payload = task === 'detection' ? buildDetection(userMessage)
+        : task === 'ideas' ? buildIdeas(system, userMessage)
+            : task === 'critique' ? buildCritique(userMessage)
+                : buildDeepDive(userMessage);
+    const json = JSON.stringify(payload, null, 2);
+    const content = failure === 'malformed'
+        ? `\`\`\`json\n${json.slice(0, -1)},\n\`\`\``
+        : json;
+
+    console.log(`🧪 Mock LLM answered ${task}${failure ? ` (injected: ${failure})` : ''}`);
+    // ~4 characters per token
+    const promptTokens = Math.round(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+    const completionTokens = Math.round(content.length / 4);
+    return {
+        content,
+        model,
+        provider: 'mock',
+        tokensUsed: promptTokens + completionTokens,
+        promptTokens,
+        completionTokens,
+    };
+}
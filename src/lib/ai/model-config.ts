@@ -0,0 +1,188 @@
+// ============================================================
+// Solana Narrative Pulse — Model Configuration
+// ============================================================
+// Which models serve each role (reasoning, writing, fallback), as an
+// ordered chain: the router tries each target in turn, then the
+// fallback role's chain. Resolved once per process, per role, from
+// the first of:
+//
+//   1. env   LLM_<ROLE>_MODELS=provider:model[@baseURL],…
+//            e.g. LLM_REASONING_MODELS=openai-compatible:qwen2.5:14b@http://localhost:11434/v1
+//   2. file  data/llm-config.json (or LLM_CONFIG_FILE):
+//            { "reasoning": [{ "provider": "…", "model": "…", "baseURL": "…" }], … }
+//   3. defaults — LLM_PROVIDER=mock → the mock everywhere;
+//                 LLM_BASE_URL + LLM_MODEL → that OpenAI-compatible
+//                 server everywhere (nothing leaves the machine);
+//                 otherwise OpenAI, with Claude for writing when
+//                 ANTHROPIC_API_KEY is set
+//
+// `openai-compatible` covers any server speaking the OpenAI chat API:
+// llama.cpp, vLLM, Ollama, LM Studio. Its key comes from the env var
+// named by `apiKeyEnv` (default OPENAI_COMPATIBLE_API_KEY); most local
+// servers accept any value.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ── Types ────────────────────────────────────────────────────
+
+export type ModelRole = 'reasoning' | 'writing' | 'fallback';
+export type LlmProvider = 'openai' | 'anthropic' | 'openai-compatible' | 'mock';
+
+export interface ModelTarget {
+    provider: LlmProvider;
+    model: string;
+    /** Required for openai-compatible; optional override for openai */
+    baseURL?: string;
+    /** Env var holding the API key (openai-compatible) */
+    apiKeyEnv?: string;
+    /** Send response_format json_object; off for servers that reject it */
+    jsonMode?: boolean;
+    /** USD per 1M tokens, overriding the ledger's price table */
+    inputCostPer1M?: number;
+    outputCostPer1M?: number;
+    label: string;
+}
+
+export type ModelChains = Record<ModelRole, ModelTarget[]>;
+
+// ── Config ───────────────────────────────────────────────────
+
+export const MODEL_ROLES: ModelRole[] = ['reasoning', 'writing', 'fallback'];
+const PROVIDERS: LlmProvider[] = ['openai', 'anthropic', 'openai-compatible', 'mock'];
+const CONFIG_FILE = process.env.LLM_CONFIG_FILE || path.join(process.cwd(), 'data', 'llm-config.json');
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-20250514';
+
+let chains: ModelChains | null = null;
+
+// ── Parsing ──────────────────────────────────────────────────
+
+function targetLabel(provider: LlmProvider, model: string, role: ModelRole): string {
+    const where = provider === 'openai-compatible' ? 'local' : provider;
+    return `${model} via ${where} (${role})`;
+}
+
+/**
+ * A target from a config-file entry, or a reason it is unusable.
+ */
+function parseTarget(raw: unknown, role: ModelRole): ModelTarget | string {
+    if (!raw || typeof raw !== 'object') return 'entry must be an object';
+    const r = raw as Record<string, unknown>;
+    const provider = r.provider as LlmProvider;
+    if (!PROVIDERS.includes(provider)) return `unknown provider "${String(r.provider)}" (expected ${PROVIDERS.join(', ')})`;
+    if (typeof r.model !== 'string' || r.model === '') return 'missing "model"';
+    if (r.baseURL !== undefined && typeof r.baseURL !== 'string') return '"baseURL" must be a string';
+    if (provider === 'openai-compatible' && !r.baseURL) return 'openai-compatible needs a "baseURL"';
+    if (r.apiKeyEnv !== undefined && typeof r.apiKeyEnv !== 'string') return '"apiKeyEnv" must be a string';
+    if (r.jsonMode !== undefined && typeof r.jsonMode !== 'boolean') return '"jsonMode" must be a boolean';
+    for (const key of ['inputCostPer1M', 'outputCostPer1M']) {
+        const cost = r[key];
+        if (cost !== undefined && (typeof cost !== 'number' || !(cost >= 0))) return `"${key}" must be a non-negative number`;
+    }
+
+    return {
+        provider,
+        model: r.model,
+        ...(r.baseURL ? { baseURL: (r.baseURL as string).replace(/\/+$/, '') } : {}),
+        ...(r.apiKeyEnv ? { apiKeyEnv: r.apiKeyEnv as string } : {}),
+        ...(r.jsonMode !== undefined ? { jsonMode: r.jsonMode as boolean } : {}),
+        ...(r.inputCostPer1M !== undefined ? { inputCostPer1M: r.inputCostPer1M as number } : {}),
+        ...(r.outputCostPer1M !== undefined ? { outputCostPer1M: r.outputCostPer1M as number } : {}),
+        label: typeof r.label === 'string' && r.label ? r.label : targetLabel(provider, r.model, role),
+    };
+}
+
+function parseChain(entries: unknown[], role: ModelRole, source: string): ModelTarget[] {
+    const targets: ModelTarget[] = [];
+    entries.forEach((entry, i) => {
+        const parsed = parseTarget(entry, role);
+        if (typeof parsed === 'string') console.warn(`⚠️ LLM config (${source}) ${role}[${i}] skipped: ${parsed}`);
+        else targets.push(parsed);
+    });
+    return targets;
+}
+
+/**
+ * `provider:model[@baseURL]` — the model may itself contain colons
+ * (Ollama tags like `llama3.1:8b`), so only the first one splits.
+ */
+function parseEnvChain(value: string, role: ModelRole): ModelTarget[] {
+    const entries = value.split(',').map(s => s.trim()).filter(Boolean).map(spec => {
+        const colon = spec.indexOf(':');
+        const rest = colon >= 0 ? spec.slice(colon + 1) : '';
+        const at = rest.indexOf('@');
+        return {
+            provider: colon >= 0 ? spec.slice(0, colon) : spec,
+            model: at >= 0 ? rest.slice(0, at) : rest,
+            ...(at >= 0 ? { baseURL: rest.slice(at + 1) } : {}),
+        };
+    });
+    return parseChain(entries, role, `LLM_${role.toUpperCase()}_MODELS`);
+}
+
+function readConfigFile(): Partial<Record<ModelRole, unknown[]>> {
+    let raw: string;
+    try {
+        raw = fs.readFileSync(CONFIG_FILE, 'utf-8');
+    } catch {
+        return {};  // no file — env and defaults only
+    }
+    try {
+        const parsed = JSON.parse(raw) as Record<string, unknown>;
+        const roles: Partial<Record<ModelRole, unknown[]>> = {};
+        for (const role of MODEL_ROLES) {
+            if (Array.isArray(parsed[role])) roles[role] = parsed[role] as unknown[];
+            else if (parsed[role] !== undefined) console.warn(`⚠️ LLM config (${CONFIG_FILE}) "${role}" must be an array — ignored`);
+        }
+        return roles;
+    } catch (err) {
+        console.warn(`⚠️ LLM config (${CONFIG_FILE}) unreadable, using defaults:`, err);
+        return {};
+    }
+}
+
+// ── Defaults ─────────────────────────────────────────────────
+
+function defaultChain(role: ModelRole): ModelTarget[] {
+    if (process.env.LLM_PROVIDER === 'mock') {
+        return [{ provider: 'mock', model: 'mock-pulse', label: `Mock LLM (${role})` }];
+    }
+
+    const localUrl = process.env.LLM_BASE_URL;
+    if (localUrl) {
+        const model = process.env.LLM_MODEL || 'llama3.1';
+        return [{ provider: 'openai-compatible', model, baseURL: localUrl.replace(/\/+$/, ''), label: targetLabel('openai-compatible', model, role) }];
+    }
+
+    const openai: ModelTarget = { provider: 'openai', model: DEFAULT_OPENAI_MODEL, label: `GPT-4o-mini (${role})` };
+    if (role === 'writing' && process.env.ANTHROPIC_API_KEY) {
+        return [{ provider: 'anthropic', model: DEFAULT_ANTHROPIC_MODEL, label: 'Claude Sonnet 4 (writing)' }, openai];
+    }
+    return [openai];
+}
+
+// ── Main entry ───────────────────────────────────────────────
+
+/**
+ * The ordered model chain for every role. An empty or fully invalid
+ * env/file chain falls through to the next source.
+ */
+export function getModelChains(): ModelChains {
+    if (chains) return chains;
+
+    const file = readConfigFile();
+    const resolved = {} as ModelChains;
+    for (const role of MODEL_ROLES) {
+        const env = process.env[`LLM_${role.toUpperCase()}_MODELS`];
+        const fromEnv = env ? parseEnvChain(env, role) : [];
+        const fromFile = file[role] ? parseChain(file[role]!, role, CONFIG_FILE) : [];
+        resolved[role] = fromEnv.length > 0 ? fromEnv
+            : fromFile.length > 0 ? fromFile
+                : defaultChain(role);
+    }
+
+    chains = resolved;
+    return chains;
+}
@@ -1,23 +1,46 @@
 // ============================================================
 // Solana Narrative Pulse — Multi-Model AI Router
 // ============================================================
-// Routes tasks to the best model:
-//   • Reasoning (narrative detection)  → o3-mini (deep thinking)
-//   • Writing (idea generation)        → Claude Sonnet or GPT-4o-mini
-//   • Fallback                         → GPT-4o-mini (always available)
+// Routes each task role to an ordered chain of models (see
+// model-config.ts for how chains are configured):
+//   • Reasoning (narrative detection)  → GPT-4o-mini by default
+//   • Writing (idea generation)        → Claude Sonnet, then GPT-4o-mini
+//   • Fallback                         → GPT-4o-mini
+// A role's chain is tried in order, then the fallback chain. Targets
+// can be OpenAI, Anthropic, any OpenAI-compatible server (llama.cpp,
+// vLLM, Ollama) or the deterministic mock in mock-provider.ts.
 
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
+import { callMock } from './mock-provider';
+import { getCachedResponse, responseCacheEnabled, responseCacheKey, setCachedResponse } from './response-cache';
+import { getModelChains, type ModelRole, type ModelTarget } from './model-config';
+import { budgetExceededError, estimateCost, getBudgetStatus, isFreeTarget, recordUsage } from '@/lib/usage-ledger';
 
 // ── Clients ──────────────────────────────────────────────────
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Created on first use — the SDK throws at construction without a key,
+// which would break heuristic-only deployments at import time. One
+// client per base URL, so several local servers can share a chain.
+const openaiClients = new Map<string, OpenAI>();
+function getOpenAI(target: ModelTarget): OpenAI {
+    const key = `${target.provider}|${target.baseURL || ''}`;
+    let client = openaiClients.get(key);
+    if (!client) {
+        const apiKey = target.provider === 'openai-compatible'
+            ? process.env[target.apiKeyEnv || 'OPENAI_COMPATIBLE_API_KEY'] || 'not-needed'
+            : process.env.OPENAI_API_KEY;
+        client = new OpenAI({ apiKey, ...(target.baseURL && { baseURL: target.baseURL }) });
+        openaiClients.set(key, client);
+    }
+    return client;
+}
 const anthropic = process.env.ANTHROPIC_API_KEY
     ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
     : null;
 
 // ── Anthropic credit exhaustion tracking ─────────────────────
 // When Anthropic returns a billing/quota error, we disable it for the
-// rest of this server process and route writing tasks to o3-mini instead.
+// rest of this server process; its chain slots are skipped from then on.
 let anthropicDisabled = false;
 
 function isAnthropicCreditError(err: any): boolean {
@@ -41,44 +64,59 @@ function isAnthropicCreditError(err: any): boolean {
     return false;
 }
 
-// ── Model Configuration ─────────────────────────────────────
-export const MODELS = {
-    // Reasoning model — used for narrative detection
-    // NOTE: o3-mini produces better results but takes 30-60s+ which exceeds
-    // Vercel serverless timeouts. Using gpt-4o-mini for reliable performance.
-    reasoning: {
-        provider: 'openai' as const,
-        model: 'gpt-4o-mini',
-        label: 'GPT-4o-mini (reasoning)',
-    },
-    // Fast creative model — used for idea generation
-    writing: {
-        provider: (anthropic ? 'anthropic' : 'openai') as 'openai' | 'anthropic',
-        model: anthropic ? 'claude-sonnet-4-20250514' : 'gpt-4o-mini',
-        label: anthropic ? 'Claude Sonnet 4 (writing)' : 'GPT-4o-mini (writing)',
-    },
-    // Cheap fallback
-    fallback: {
-        provider: 'openai' as const,
-        model: 'gpt-4o-mini',
-        label: 'GPT-4o-mini (fallback)',
-    },
-} as const;
-
 // ── Types ────────────────────────────────────────────────────
-interface ChatMessage {
+export interface ChatMessage {
     role: 'system' | 'user' | 'assistant';
     content: string;
 }
 
-interface ModelResponse {
+export interface ModelResponse {
     content: string;
     model: string;
     provider: string;
     tokensUsed?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    /** Response-cache key — pass to evictResponse if the answer is unusable */
+    cacheKey?: string;
+    /** Served from the response cache */
+    cached?: boolean;
+}
+
+interface CallOptions {
+    jsonMode: boolean;
+    maxTokens: number;
+    temperature: number;
+}
+
+// ── Chains ───────────────────────────────────────────────────
+
+function isUsable(target: ModelTarget): boolean {
+    return target.provider !== 'anthropic' || (!!anthropic && !anthropicDisabled);
+}
+
+/** The role's chain followed by the fallback chain, without repeats */
+function routeChain(role: ModelRole): ModelTarget[] {
+    const chains = getModelChains();
+    const seen = new Set<string>();
+    return [...chains[role], ...(role === 'fallback' ? [] : chains.fallback)].filter(t => {
+        const key = `${t.provider}|${t.model}|${t.baseURL || ''}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
 }
 
-type ModelRole = keyof typeof MODELS;
+function callTarget(target: ModelTarget, messages: ChatMessage[], options: CallOptions): Promise<ModelResponse> {
+    switch (target.provider) {
+        case 'mock':
+            return callMock(target.model, messages);
+        case 'anthropic':
+            return callAnthropic(target.model, messages, options);
+        default:
+            return callOpenAI(target, messages, options);
+    }
+}
 
 // ── Core Router ──────────────────────────────────────────────
 export async function routeToModel(
@@ -88,52 +126,121 @@ export async function routeToModel(
         jsonMode?: boolean;
         maxTokens?: number;
         temperature?: number;
+        /** false skips the response-cache read (the answer is still stored) */
+        cache?: boolean;
     } = {}
 ): Promise<ModelResponse> {
-    const config = MODELS[role];
-    const { jsonMode = false, maxTokens = 4000, temperature = 0.7 } = options;
-
-    // If Anthropic credits are exhausted, route writing tasks to o3-mini
-    const useAnthropicFallback = config.provider === 'anthropic' && anthropicDisabled;
-    if (useAnthropicFallback) {
-        console.log(`⚠️ Anthropic disabled (credits exhausted) — routing "${role}" to gpt-4o-mini`);
-        return await callOpenAI('gpt-4o-mini', messages, { jsonMode, maxTokens, temperature });
+    const { jsonMode = false, maxTokens = 4000, temperature = 0.7, cache = true } = options;
+    const callOptions = { jsonMode, maxTokens, temperature };
+    const useCache = responseCacheEnabled();
+    let chain = routeChain(role);
+
+    // Cached answers cost nothing, so they're served before budgets apply
+    if (useCache && cache) {
+        for (const target of chain.filter(isUsable)) {
+            const hit = await getCachedResponse(responseCacheKey(role, target, messages, callOptions));
+            if (!hit) continue;
+            console.log(`💾 LLM cache hit for "${role}" (${target.label})`);
+            recordUsage({
+                role, provider: target.provider, model: target.model,
+                promptTokens: 0, completionTokens: 0, costUsd: 0, latencyMs: 0,
+                status: 'cached',
+            });
+            return hit;
+        }
     }
 
-    try {
-        if (config.provider === 'anthropic' && anthropic) {
-            return await callAnthropic(config.model, messages, { maxTokens, temperature });
+    // Budgets (see usage-ledger.ts): near the limit use the cheap
+    // fallback chain, past it only free (local / mock) targets
+    const budget = await getBudgetStatus();
+    const downgraded = budget.level === 'downgrade' && role !== 'fallback';
+    if (downgraded) {
+        console.warn(`💸 ${budget.reason} — routing "${role}" to the fallback chain`);
+        chain = routeChain('fallback');
+    }
+    if (budget.level === 'refuse') {
+        const free = chain.filter(isFreeTarget);
+        if (free.length === 0) {
+            recordUsage({
+                role, provider: chain[0]?.provider ?? 'openai', model: chain[0]?.model ?? '',
+                promptTokens: 0, completionTokens: 0, costUsd: 0, latencyMs: 0,
+                status: 'refused', error: budget.reason,
+            });
+            throw budgetExceededError(budget.reason!);
         }
-        return await callOpenAI(config.model, messages, { jsonMode, maxTokens, temperature });
-    } catch (err: any) {
-        // Check if this is a credit/billing error from Anthropic
-        if (config.provider === 'anthropic' && isAnthropicCreditError(err)) {
-            anthropicDisabled = true;
-            console.error(`🚨 Anthropic credits exhausted — all writing tasks will use o3-mini for this session`);
-            return await callOpenAI('o3-mini', messages, { jsonMode, maxTokens, temperature });
+        console.warn(`💸 ${budget.reason} — only free models are called`);
+        chain = free;
+    }
+
+    let lastError: unknown = null;
+
+    for (let i = 0; i < chain.length; i++) {
+        const target = chain[i];
+        if (!isUsable(target)) {
+            console.log(anthropicDisabled
+                ? `⚠️ Anthropic disabled (credits exhausted) — skipping ${target.label}`
+                : `⚠️ ANTHROPIC_API_KEY not set — skipping ${target.label}`);
+            continue;
         }
 
-        console.warn(`Model ${config.label} failed, falling back to ${MODELS.fallback.label}:`, err);
-        return await callOpenAI(MODELS.fallback.model, messages, { jsonMode, maxTokens, temperature });
+        const started = Date.now();
+        try {
+            const response = await callTarget(target, messages, callOptions);
+            const promptTokens = response.promptTokens ?? 0;
+            const completionTokens = response.completionTokens ?? 0;
+            recordUsage({
+                role, provider: target.provider, model: target.model,
+                promptTokens, completionTokens,
+                costUsd: estimateCost(target, promptTokens, completionTokens),
+                latencyMs: Date.now() - started,
+                status: 'ok',
+                ...(downgraded && { downgraded }),
+            });
+            if (!useCache) return response;
+            const cacheKey = responseCacheKey(role, target, messages, callOptions);
+            await setCachedResponse(cacheKey, role, response);
+            return { ...response, cacheKey };
+        } catch (err) {
+            lastError = err;
+            recordUsage({
+                role, provider: target.provider, model: target.model,
+                promptTokens: 0, completionTokens: 0, costUsd: 0,
+                latencyMs: Date.now() - started,
+                status: 'error',
+                error: (err instanceof Error ? err.message : String(err)).slice(0, 200),
+                ...(downgraded && { downgraded }),
+            });
+            // Check if this is a credit/billing error from Anthropic
+            if (target.provider === 'anthropic' && isAnthropicCreditError(err)) {
+                anthropicDisabled = true;
+                console.error(`🚨 Anthropic credits exhausted — Anthropic models are skipped for this session`);
+            }
+            const next = chain.slice(i + 1).find(isUsable);
+            console.warn(`Model ${target.label} failed${next ? `, falling back to ${next.label}` : ''}:`, err);
+        }
     }
+
+    throw lastError ?? new Error(`No usable model configured for "${role}"`);
 }
 
-// ── OpenAI Call ──────────────────────────────────────────────
+// ── OpenAI / OpenAI-compatible Call ──────────────────────────
 async function callOpenAI(
-    model: string,
+    target: ModelTarget,
     messages: ChatMessage[],
-    options: { jsonMode: boolean; maxTokens: number; temperature: number }
+    options: CallOptions
 ): Promise<ModelResponse> {
+    const model = target.model;
     // o3-mini doesn't support response_format or temperature
     const isO3 = model.startsWith('o3') || model.startsWith('o4');
+    const jsonMode = options.jsonMode && target.jsonMode !== false;
 
-    const completion = await openai.chat.completions.create({
+    const completion = await getOpenAI(target).chat.completions.create({
         model,
         messages,
         ...(isO3
             ? { max_completion_tokens: options.maxTokens }
             : {
-                response_format: options.jsonMode ? { type: 'json_object' as const } : undefined,
+                response_format: jsonMode ? { type: 'json_object' as const } : undefined,
                 max_tokens: options.maxTokens,
                 temperature: options.temperature,
             }
@@ -152,8 +259,10 @@ async function callOpenAI(
     return {
         content,
         model,
-        provider: 'openai',
+        provider: target.provider,
         tokensUsed: completion.usage?.total_tokens,
+        promptTokens: completion.usage?.prompt_tokens,
+        completionTokens: completion.usage?.completion_tokens,
     };
 }
 
@@ -187,15 +296,20 @@ async function callAnthropic(
         model,
         provider: 'anthropic',
         tokensUsed: (response.usage?.input_tokens || 0) + (response.usage?.output_tokens || 0),
+        promptTokens: response.usage?.input_tokens,
+        completionTokens: response.usage?.output_tokens,
     };
 }
 
 // ── Utility: Get active model info (for dashboard) ──────────
 export function getActiveModels() {
+    const chains = getModelChains();
+    const active = (role: ModelRole) => routeChain(role).find(isUsable)?.label || 'none';
     return {
-        reasoning: MODELS.reasoning.label,
-        writing: anthropicDisabled ? 'o3-mini (Anthropic credits exhausted)' : MODELS.writing.label,
-        fallback: MODELS.fallback.label,
+        reasoning: active('reasoning'),
+        writing: active('writing'),
+        fallback: active('fallback'),
         hasAnthropic: !!anthropic && !anthropicDisabled,
+        chains: Object.fromEntries(Object.entries(chains).map(([role, targets]) => [role, targets.map(t => t.label)])),
     };
 }
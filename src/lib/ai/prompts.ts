@@ -10,9 +10,10 @@ You will receive aggregated signals from up to eight sources, diversity-selected
 3. **On-Chain Data (Helius)** — Program activity, transaction counts, active addresses for top Solana programs
 4. **Social & Community** — RSS feed mentions, Twitter/X sentiment, ecosystem announcements
 5. **DeFi Llama** — TVL changes, protocol rankings, stablecoin flows across Solana DeFi
-6. **Governance** — Active DAO proposals, voting activity from Realms
+6. **Governance** — DAO proposals from Realms / SPL Governance (Jito, Marinade) and Jupiter DAO: new proposals, vote turnout, quorum progress, executed proposals
 7. **DEX & NFT** — DEX pool activity, trending pairs, NFT collection volumes
 8. **Signal Clusters** — Pre-grouped related signals that may indicate a narrative convergence
+9. **Statistical Anomalies** — Values that are unusual for that specific signal's own 7-day history (z-score, EWMA, level shift). Each lists the signal IDs it refers to; cross-source anomalies mean several independent sources moved abnormally around the same token or project
 
 ## Your Task
 
@@ -34,6 +35,7 @@ Analyze all signals and identify **3-5 distinct emerging narratives** in the Sol
 ## Rules
 - Only identify narratives with REAL supporting evidence from the signals
 - Higher confidence when multiple signal sources converge (market + github = strong)
+- Treat cross-source anomalies as strong evidence of a narrative shift, but cite the underlying signal IDs they reference, not just the anomaly ID
 - **CRITICAL**: Populate "topSignalInsights" for EVERY signal ID in the input — all of them, not just the top ones. Users need to understand each signal, even weak ones or those not linked to a narrative.
 - Contexts must be specific: "Kaito's Capital Launchpad is seeing inflows due to..." instead of generic descriptions.
 - Never write generic insights like "This token is trending" — explain WHY it's happening or what is driving it.
@@ -0,0 +1,116 @@
+// ============================================================
+// Solana Narrative Pulse — LLM Response Cache
+// ============================================================
+// Content-addressed cache of model responses, consulted by the router
+// for every call: the key is a hash of role, provider, model, base URL,
+// messages and options, so identical requests — re-opening the same
+// deep dive, regenerating ideas for an unchanged narrative — are
+// answered from disk instead of a new completion.
+//
+// Layout: data/llm-cache/<first 2 hex>/<sha256>.json, one response per
+// file, written atomically. Entries expire after LLM_CACHE_TTL_HOURS
+// (default 24) and are deleted when next read. LLM_CACHE=off disables
+// the cache; a single call can skip the read with `cache: false`
+// (the fresh answer still replaces the stored one).
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { ChatMessage, ModelResponse } from './model-router';
+import type { ModelRole, ModelTarget } from './model-config';
+
+// ── Types ────────────────────────────────────────────────────
+
+interface CachedResponse {
+    role: ModelRole;
+    createdAt: string;
+    expiresAt: string;
+    response: ModelResponse;
+}
+
+// ── Config ───────────────────────────────────────────────────
+
+const CACHE_DIR = path.join(process.cwd(), 'data', 'llm-cache');
+const DEFAULT_TTL_HOURS = 24;
+
+export function responseCacheEnabled(): boolean {
+    return process.env.LLM_CACHE !== 'off';
+}
+
+function ttlMs(): number {
+    const hours = Number(process.env.LLM_CACHE_TTL_HOURS);
+    return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+function cacheFile(key: string): string {
+    return path.join(CACHE_DIR, key.slice(0, 2), `${key}.json`);
+}
+
+// ── Keys ─────────────────────────────────────────────────────
+
+export function responseCacheKey(
+    role: ModelRole,
+    target: ModelTarget,
+    messages: ChatMessage[],
+    options: { jsonMode: boolean; maxTokens: number; temperature: number },
+): string {
+    return createHash('sha256')
+        .update(JSON.stringify({
+            role,
+            provider: target.provider,
+            model: target.model,
+            baseURL: target.baseURL || null,
+            messages: messages.map(m => [m.role, m.content]),
+            options: [options.jsonMode, options.maxTokens, options.temperature],
+        }))
+        .digest('hex');
+}
+
+// ── Read / write ─────────────────────────────────────────────
+
+/** The stored response for `key`, or null when missing or expired */
+export async function getCachedResponse(key: string): Promise<ModelResponse | null> {
+    let entry: CachedResponse;
+    try {
+        entry = JSON.parse(await fs.readFile(cacheFile(key), 'utf-8')) as CachedResponse;
+    } catch {
+        return null;  // miss, or a torn file — treat both as a miss
+    }
+    if (Date.parse(entry.expiresAt) <= Date.now()) {
+        await evictResponse(key);
+        return null;
+    }
+    return { ...entry.response, cacheKey: key, cached: true };
+}
+
+/** Store a response. Best-effort — a failed write only costs a future miss. */
+export async function setCachedResponse(key: string, role: ModelRole, response: ModelResponse): Promise<void> {
+    const file = cacheFile(key);
+    const now = Date.now();
+    const stored: ModelResponse = { ...response };
+    delete stored.cacheKey;
+    delete stored.cached;
+    const entry: CachedResponse = {
+        role,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + ttlMs()).toISOString(),
+        response: stored,
+    };
+    try {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        // Write to a temp file first, then rename for atomicity
+        const tmp = `${file}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(entry), 'utf-8');
+        await fs.rename(tmp, file);
+    } catch (err) {
+        console.warn('LLM cache: write failed (non-fatal):', err);
+    }
+}
+
+/**
+ * Drop a stored response — used when a caller finds the answer
+ * unusable, so the same request isn't served the same bad reply.
+ */
+export async function evictResponse(key: string): Promise<void> {
+    await fs.rm(cacheFile(key), { force: true }).catch(() => {});
+}
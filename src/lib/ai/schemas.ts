@@ -0,0 +1,211 @@
+// ============================================================
+// Solana Narrative Pulse — LLM Output Schemas
+// ============================================================
+// Runtime schemas for every JSON shape the models return:
+// detection, ideas, critique and deep-dive. A validator walks the
+// parsed value, collects one issue per violating field (with its
+// path, e.g. `narratives[2].trend`), and returns the value typed as
+// the app expects it.
+//
+// Top-level lists (narratives, ideas, deepDives) are lenient: an
+// invalid entry is dropped and reported, the rest are kept, so one
+// malformed narrative doesn't throw away four good ones. Everything
+// else is strict — `complexity: "medium"` is an issue, not a value.
+
+import type { NarrativeCategory } from '@/lib/types';
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface SchemaIssue {
+    path: string;
+    message: string;
+}
+
+/**
+ * Checks `value`, pushing an issue for every violation. `ok: false`
+ * means the value is unusable; lenient containers can still be `ok`
+ * after reporting (and dropping) bad entries.
+ */
+export type Validator<T> = (value: unknown, path: string, issues: SchemaIssue[]) => Checked<T>;
+
+type Checked<T> = { ok: true; value: T } | { ok: false };
+
+type Output<V> = V extends Validator<infer T> ? T : never;
+
+// ── Validators ───────────────────────────────────────────────
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'object') return 'an object';
+    const json = JSON.stringify(value);
+    return json.length > 40 ? `${json.slice(0, 40)}…` : json;
+}
+
+function fail(issues: SchemaIssue[], path: string, expected: string, value: unknown): { ok: false } {
+    issues.push({ path: path || '(root)', message: `expected ${expected}, got ${value === undefined ? 'nothing' : describe(value)}` });
+    return { ok: false };
+}
+
+function str(options: { nonEmpty?: boolean } = {}): Validator<string> {
+    return (value, path, issues) => {
+        if (typeof value !== 'string') return fail(issues, path, 'a string', value);
+        if (options.nonEmpty && value.trim() === '') return fail(issues, path, 'a non-empty string', value);
+        return { ok: true, value };
+    };
+}
+
+function num(min: number, max: number): Validator<number> {
+    return (value, path, issues) => {
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+            return fail(issues, path, `a number from ${min} to ${max}`, value);
+        }
+        return { ok: true, value };
+    };
+}
+
+function oneOf<T extends string>(options: readonly T[]): Validator<T> {
+    return (value, path, issues) => {
+        if (typeof value === 'string' && (options as readonly string[]).includes(value)) return { ok: true, value: value as T };
+        return fail(issues, path, `one of ${options.map(o => `"${o}"`).join(' | ')}`, value);
+    };
+}
+
+/** Absent or null is fine; present must be valid */
+function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+    return (value, path, issues) => {
+        if (value === undefined || value === null) return { ok: true, value: undefined };
+        return validator(value, path, issues);
+    };
+}
+
+/**
+ * An array of `item`. With `dropInvalid`, bad entries are reported and
+ * skipped; otherwise one bad entry fails the array.
+ */
+function arr<T>(item: Validator<T>, options: { min?: number; dropInvalid?: boolean } = {}): Validator<T[]> {
+    return (value, path, issues) => {
+        if (!Array.isArray(value)) return fail(issues, path, 'an array', value);
+        const out: T[] = [];
+        let invalid = false;
+        value.forEach((entry, i) => {
+            const result = item(entry, `${path}[${i}]`, issues);
+            if (result.ok) out.push(result.value);
+            else invalid = true;
+        });
+        if (invalid && !options.dropInvalid) return { ok: false };
+        if (options.min !== undefined && out.length < options.min) {
+            issues.push({ path, message: `expected at least ${options.min} valid ${options.min === 1 ? 'entry' : 'entries'}, got ${out.length}` });
+            return { ok: false };
+        }
+        return { ok: true, value: out };
+    };
+}
+
+/** A string-keyed map of `item`; bad entries are reported and skipped */
+function record<T>(item: Validator<T>): Validator<Record<string, T>> {
+    return (value, path, issues) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(issues, path, 'an object', value);
+        const out: Record<string, T> = {};
+        for (const [key, entry] of Object.entries(value)) {
+            const result = item(entry, `${path}.${key}`, issues);
+            if (result.ok) out[key] = result.value;
+        }
+        return { ok: true, value: out };
+    };
+}
+
+function obj<S extends Record<string, Validator<unknown>>>(shape: S): Validator<{ [K in keyof S]: Output<S[K]> }> {
+    return (value, path, issues) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(issues, path, 'an object', value);
+        const input = value as Record<string, unknown>;
+        const out: Record<string, unknown> = {};
+        let valid = true;
+        for (const [key, validator] of Object.entries(shape)) {
+            const result = validator(input[key], path ? `${path}.${key}` : key, issues);
+            if (!result.ok) valid = false;
+            else if (result.value !== undefined) out[key] = result.value;
+        }
+        return valid ? { ok: true, value: out as { [K in keyof S]: Output<S[K]> } } : { ok: false };
+    };
+}
+
+// ── Shared fields ────────────────────────────────────────────
+
+export const NARRATIVE_CATEGORIES: readonly NarrativeCategory[] = [
+    'DeFi', 'DePIN', 'AI & ML', 'Gaming', 'NFTs', 'Infrastructure',
+    'Payments', 'Social', 'Memecoins', 'RWA', 'Privacy', 'Other',
+];
+const LEVELS = ['Low', 'Medium', 'High'] as const;
+const TRENDS = ['rising', 'stable', 'declining'] as const;
+
+/** `{ id, context }`, or a bare id string (older prompt format) */
+const signalRef: Validator<{ id: string; context?: string }> = (value, path, issues) => {
+    if (typeof value === 'string' && value !== '') return { ok: true, value: { id: value } };
+    return obj({ id: str({ nonEmpty: true }), context: optional(str()) })(value, path, issues);
+};
+
+// ── Detection ────────────────────────────────────────────────
+
+const detectedNarrative = obj({
+    name: str({ nonEmpty: true }),
+    category: oneOf(NARRATIVE_CATEGORIES),
+    confidence: num(0, 100),
+    summary: str({ nonEmpty: true }),
+    explanation: str({ nonEmpty: true }),
+    trend: oneOf(TRENDS),
+    supportingSignals: arr(signalRef),
+    recommendation: optional(obj({
+        thesis: str(),
+        actionables: arr(str()),
+        risks: arr(str()),
+    })),
+});
+
+export const DETECTION_SCHEMA = obj({
+    narratives: arr(detectedNarrative, { min: 1, dropInvalid: true }),
+    topSignalInsights: optional(record(str())),
+    // Older prompt format, merged into topSignalInsights
+    signalContexts: optional(record(str())),
+});
+
+export type DetectionOutput = Output<typeof DETECTION_SCHEMA>;
+export type DetectedNarrative = DetectionOutput['narratives'][number];
+
+// ── Ideas & critique ─────────────────────────────────────────
+
+const generatedIdea = obj({
+    title: str({ nonEmpty: true }),
+    description: str({ nonEmpty: true }),
+    techStack: arr(str()),
+    complexity: oneOf(LEVELS),
+    impact: oneOf(LEVELS),
+    solanaFeatures: arr(str()),
+    supportingSignalIds: optional(arr(str())),
+    signalRelevance: optional(record(str())),
+    whyNow: str({ nonEmpty: true }),
+    targetUser: str({ nonEmpty: true }),
+    problemToSolve: optional(str()),
+    possibleSolution: optional(str()),
+});
+
+export const IDEAS_SCHEMA = obj({
+    ideas: arr(generatedIdea, { min: 1, dropInvalid: true }),
+});
+
+// The critique pass returns the refined set in the same shape
+export const CRITIQUE_SCHEMA = IDEAS_SCHEMA;
+
+export type GeneratedIdea = Output<typeof IDEAS_SCHEMA>['ideas'][number];
+
+// ── Deep-dive ────────────────────────────────────────────────
+
+export const DEEPDIVE_SCHEMA = obj({
+    deepDives: arr(obj({
+        title: optional(str()),
+        problemToSolve: str({ nonEmpty: true }),
+        possibleSolution: str({ nonEmpty: true }),
+    }), { min: 1, dropInvalid: true }),
+});
+
+export type DeepDiveOutput = Output<typeof DEEPDIVE_SCHEMA>;
@@ -0,0 +1,195 @@
+// ============================================================
+// Solana Narrative Pulse — Structured LLM Output
+// ============================================================
+// One path from model text to a schema-checked value:
+//
+//   1. extract — the first complete top-level JSON object, wherever
+//      it sits (bare, inside a ```json fence, after a preamble)
+//   2. validate — against a schema from schemas.ts, field by field
+//   3. repair — if parsing failed or fields violate the schema, one
+//      follow-up turn quotes the exact violations back to the model
+//
+// The better of the original and repaired answers wins, so a reply
+// with four good narratives and one broken one never ends up worse
+// than those four.
+
+import { routeToModel, type ChatMessage, type ModelResponse } from './model-router';
+import type { ModelRole } from './model-config';
+import { evictResponse } from './response-cache';
+import type { SchemaIssue, Validator } from './schemas';
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface ValidationResult<T> {
+    /** Usable value — possibly with invalid entries dropped */
+    value: T | null;
+    issues: SchemaIssue[];
+    /** Set when no JSON could be parsed at all */
+    parseError?: string;
+}
+
+export interface StructuredResult<T> {
+    value: T;
+    /** The response the value came from */
+    response: ModelResponse;
+    /** Violations remaining in the chosen answer (dropped entries) */
+    issues: SchemaIssue[];
+    repaired: boolean;
+}
+
+interface StructuredOptions {
+    jsonMode?: boolean;
+    maxTokens?: number;
+    temperature?: number;
+    /** Temperature for the repair turn (default 0.2) */
+    repairTemperature?: number;
+    /** Skip the repair turn — for optional passes the caller can do without */
+    repair?: boolean;
+    /** false skips the response-cache read */
+    cache?: boolean;
+    /** Name used in logs and errors, e.g. "detection" */
+    label: string;
+}
+
+// ── Config ───────────────────────────────────────────────────
+
+const MAX_QUOTED_ISSUES = 25;
+
+// ── Extract ──────────────────────────────────────────────────
+
+/**
+ * The first balanced `{…}` in the text. Braces inside strings are
+ * skipped, so prose or fences around the object don't matter.
+ */
+function extractJsonObject(content: string): string | null {
+    let start = content.indexOf('{');
+    while (start >= 0) {
+        let depth = 0;
+        let inString = false;
+        for (let i = start; i < content.length; i++) {
+            const ch = content[i];
+            if (inString) {
+                if (ch === '\\') i++;
+                else if (ch === '"') inString = false;
+            } else if (ch === '"') {
+                inString = true;
+            } else if (ch === '{') {
+                depth++;
+            } else if (ch === '}' && --depth === 0) {
+                return content.slice(start, i + 1);
+            }
+        }
+        // Unbalanced from here — nothing later can close it either
+        if (depth > 0) return null;
+        start = content.indexOf('{', start + 1);
+    }
+    return null;
+}
+
+// ── Validate ─────────────────────────────────────────────────
+
+export function validateOutput<T>(content: string, schema: Validator<T>): ValidationResult<T> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content.trim());
+    } catch (directErr) {
+        const candidate = extractJsonObject(content);
+        if (!candidate) {
+            return { value: null, issues: [], parseError: `no complete JSON object found (${(directErr as Error).message})` };
+        }
+        try {
+            parsed = JSON.parse(candidate);
+        } catch (err) {
+            return { value: null, issues: [], parseError: (err as Error).message };
+        }
+    }
+
+    const issues: SchemaIssue[] = [];
+    const result = schema(parsed, '', issues);
+    return { value: result.ok ? result.value : null, issues };
+}
+
+export function formatIssues(issues: SchemaIssue[]): string {
+    const quoted = issues.slice(0, MAX_QUOTED_ISSUES).map(i => `- ${i.path}: ${i.message}`);
+    if (issues.length > MAX_QUOTED_ISSUES) quoted.push(`- …and ${issues.length - MAX_QUOTED_ISSUES} more`);
+    return quoted.join('\n');
+}
+
+function repairInstruction(result: ValidationResult<unknown>): string {
+    if (result.parseError) {
+        return `Your previous response was not valid JSON: "${result.parseError}". Return ONLY the complete JSON object — no markdown wrapping, no trailing commas, no comments.`;
+    }
+    return `Your previous response does not match the required schema. Fix these violations:\n\n${formatIssues(result.issues)}\n\n`
+        + `Return the COMPLETE corrected JSON object (every entry, not just the fixed ones) with the same content otherwise. Use the exact enum values from the schema, including capitalisation.`;
+}
+
+/** Fewer problems wins; an unparseable or empty answer always loses */
+function isBetter(candidate: ValidationResult<unknown>, current: ValidationResult<unknown>): boolean {
+    if (candidate.value === null) return false;
+    if (current.value === null) return true;
+    return candidate.issues.length < current.issues.length;
+}
+
+// ── Main entry ───────────────────────────────────────────────
+
+/**
+ * Ask `role` for JSON matching `schema`, repairing once if needed.
+ * Rejects when neither the answer nor its repair yields a usable value.
+ * `first` lets the caller supply (e.g. race a timeout against) the
+ * initial call; the repair turn is made here.
+ */
+export async function requestStructured<T>(
+    role: ModelRole,
+    messages: ChatMessage[],
+    schema: Validator<T>,
+    options: StructuredOptions,
+    first?: Promise<ModelResponse>,
+): Promise<StructuredResult<T>> {
+    const { jsonMode = true, maxTokens, temperature, repairTemperature = 0.2, repair = true, cache, label } = options;
+
+    const response = await (first ?? routeToModel(role, messages, { jsonMode, maxTokens, temperature, cache }));
+    const result = validateOutput(response.content, schema);
+    // An unusable answer must not be replayed from the response cache
+    if (result.value === null && response.cacheKey) await evictResponse(response.cacheKey);
+    let chosen = { result, response, repaired: false };
+
+    const clean = result.value !== null && result.issues.length === 0;
+    if (!clean) {
+        console.warn(`🔄 ${label}: ${result.parseError ? `JSON parse failed (${result.parseError})` : `${result.issues.length} schema violation(s)`}${repair ? ', attempting repair...' : ''}`);
+        if (result.issues.length > 0) console.warn(formatIssues(result.issues));
+    }
+
+    if (!clean && repair) {
+        try {
+            const repairResponse = await routeToModel(role, [
+                ...messages,
+                { role: 'assistant', content: response.content },
+                { role: 'user', content: repairInstruction(result) },
+            ], { jsonMode, maxTokens, temperature: repairTemperature, cache });
+            const repairedResult = validateOutput(repairResponse.content, schema);
+            if (repairedResult.value === null && repairResponse.cacheKey) await evictResponse(repairResponse.cacheKey);
+
+            if (isBetter(repairedResult, result)) {
+                chosen = { result: repairedResult, response: repairResponse, repaired: true };
+                console.log(`🔧 ${label}: repair accepted (${repairedResult.issues.length} violation(s) left)`);
+            } else {
+                console.warn(`🔧 ${label}: repair was no better — ${repairedResult.parseError || `${repairedResult.issues.length} violation(s)`}`);
+            }
+        } catch (err) {
+            console.warn(`🔧 ${label}: repair call failed:`, err instanceof Error ? err.message : err);
+        }
+    }
+
+    if (chosen.result.value === null) {
+        throw new Error(`${label}: ${chosen.result.parseError
+            ? `invalid JSON (${chosen.result.parseError})`
+            : `no valid output — ${chosen.result.issues.slice(0, 3).map(i => `${i.path}: ${i.message}`).join('; ')}`}`);
+    }
+
+    return {
+        value: chosen.result.value,
+        response: chosen.response,
+        issues: chosen.result.issues,
+        repaired: chosen.repaired,
+    };
+}
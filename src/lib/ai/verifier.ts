@@ -0,0 +1,164 @@
+// ============================================================
+// Solana Narrative Pulse — Evidence Verification
+// ============================================================
+// Post-processing for LLM-detected narratives. The model cites signals
+// by id and quotes figures in its summary and explanation; nothing in
+// the reply guarantees either is real. For each narrative:
+//
+//   1. signal ids — cited ids that aren't among the input signals are
+//      dropped and listed in `unknownSignalIds`
+//   2. numeric claims — percentages, currency amounts and large
+//      numbers are extracted and compared with the cited signals'
+//      value / delta / baseline:
+//        matched      within 10% (or 1 point for percentages)
+//        mismatch     off, but within 2× of a cited figure — a likely
+//                     misquote of that figure
+//        unsupported  no cited figure comes close
+//
+// Small bare numbers ("3 protocols") and years are not claims. A
+// percentage's direction comes from an explicit sign or a nearby word
+// ("fell 12%", "a 12% drop"); one with neither only matches a positive
+// figure, so "up 45%" can't be confirmed by a −45% signal.
+
+import { Signal, NarrativeVerification, NumericClaim } from '@/lib/types';
+
+// ── Config ───────────────────────────────────────────────────
+
+const RELATIVE_TOLERANCE = 0.1;
+const PERCENT_POINT_TOLERANCE = 1;
+const MISQUOTE_RATIO = 2;
+const MIN_BARE_NUMBER = 100;
+
+const SUFFIX_MULTIPLIERS: Record<string, number> = {
+    k: 1e3, thousand: 1e3,
+    m: 1e6, million: 1e6,
+    b: 1e9, bn: 1e9, billion: 1e9,
+};
+
+// sign, currency, digits (with thousands separators), suffix. The
+// lookarounds keep ids ("sig-123"), versions ("v2") and multiples
+// ("12x") out.
+const NUMBER_PATTERN = /(?<![\w.\-−])([+\-−]?)(\$?)(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)(?:\s?(%|k|m|bn|b|thousand|million|billion)(?![a-z]))?(?![\w%]|\.\d)/gi;
+
+const UP_WORDS = 'up|rose|risen|rising|grew|grown|growing|increased?|increasing|gain(?:ed|s)?|jump(?:ed|s)?|surge[ds]?|climb(?:ed|s)?|spike[ds]?|soared|rall(?:ied|y)|higher|growth|rise';
+const DOWN_WORDS = 'down|fell|fallen|falling|drop(?:ped|s)?|dropping|declined?|declining|decreased?|decreasing|lost|loss|slid|sank|plunge[ds]?|tumbled|shed|lower|fall';
+// Up to two words may sit between the direction word and the number ("rose by about 12%")
+const DIRECTION_BEFORE = new RegExp(`\\b(?:(${UP_WORDS})|(${DOWN_WORDS}))\\b(?:\\s+[\\w$~≈]+){0,2}\\s*$`, 'i');
+const DIRECTION_AFTER = new RegExp(`^\\s*(?:(${UP_WORDS})|(${DOWN_WORDS}))\\b`, 'i');
+
+// ── Claim extraction ─────────────────────────────────────────
+
+/** +1 / −1 from a direction word just before or after a percentage */
+function directionOf(before: string, after: string): -1 | 0 | 1 {
+    const match = before.match(DIRECTION_BEFORE) || after.match(DIRECTION_AFTER);
+    if (!match) return 0;
+    return match[1] ? 1 : -1;
+}
+
+type ParsedClaim = Pick<NumericClaim, 'text' | 'value' | 'kind' | 'field'> & { sign: -1 | 0 | 1 };
+
+function extractClaims(text: string, field: NumericClaim['field']): ParsedClaim[] {
+    // Bracketed references ("[onchain-tps]") are ids, not figures
+    const prose = text.replace(/\[[^\]]*\]/g, ' ');
+    const claims: ParsedClaim[] = [];
+
+    for (const match of prose.matchAll(NUMBER_PATTERN)) {
+        const [raw, sign, currency, digits, rawSuffix] = match;
+        const start = match.index ?? 0;
+        const suffix = rawSuffix?.toLowerCase();
+        const base = parseFloat(digits.replace(/,/g, ''));
+        if (!Number.isFinite(base)) continue;
+
+        const isPercent = suffix === '%';
+        const isYear = !currency && !suffix && /^(19|20)\d{2}$/.test(digits);
+        if (isYear) continue;
+        if (!isPercent && !currency && !suffix && base < MIN_BARE_NUMBER) continue;
+
+        claims.push({
+            text: raw.trim(),
+            value: base * (suffix && !isPercent ? SUFFIX_MULTIPLIERS[suffix] : 1),
+            kind: isPercent ? 'percent' : 'amount',
+            field,
+            sign: sign === '+' ? 1 : sign ? -1
+                : isPercent ? directionOf(prose.slice(Math.max(0, start - 40), start), prose.slice(start + raw.length, start + raw.length + 20))
+                    : 0,
+        });
+    }
+    return claims;
+}
+
+// ── Cross-check ──────────────────────────────────────────────
+
+function figures(signal: Signal, kind: NumericClaim['kind']): number[] {
+    const candidates = kind === 'percent'
+        ? [signal.delta, signal.value]
+        : [signal.value, signal.baseline];
+    return candidates.filter((n): n is number => typeof n === 'number' && Number.isFinite(n) && n !== 0);
+}
+
+/**
+ * A signed claim must agree with the figure's direction; an unsigned
+ * percentage only matches a positive figure. Amounts without a sign
+ * are compared by magnitude ("$1.2M outflow" vs a net flow of −1.2M).
+ */
+function signCompatible(claim: ParsedClaim, figure: number): boolean {
+    if (claim.sign !== 0) return Math.sign(figure) === claim.sign;
+    return claim.kind !== 'percent' || figure > 0;
+}
+
+function withinTolerance(claim: ParsedClaim, figure: number): boolean {
+    const diff = Math.abs(claim.value - Math.abs(figure));
+    const tolerance = RELATIVE_TOLERANCE * Math.abs(figure);
+    return diff <= (claim.kind === 'percent' ? Math.max(tolerance, PERCENT_POINT_TOLERANCE) : tolerance);
+}
+
+function checkClaim(claim: ParsedClaim, cited: Signal[]): NumericClaim {
+    const base = { text: claim.text, value: claim.value, kind: claim.kind, field: claim.field };
+    let nearest: { signal: Signal; figure: number; ratio: number } | null = null;
+
+    for (const signal of cited) {
+        for (const figure of figures(signal, claim.kind)) {
+            if (!signCompatible(claim, figure)) continue;
+            if (withinTolerance(claim, figure)) {
+                return { ...base, status: 'matched', signalId: signal.id, expected: figure };
+            }
+            const a = Math.abs(figure);
+            const ratio = Math.max(a, claim.value) / Math.max(Math.min(a, claim.value), Number.EPSILON);
+            if (!nearest || ratio < nearest.ratio) nearest = { signal, figure, ratio };
+        }
+    }
+
+    if (nearest && nearest.ratio <= MISQUOTE_RATIO) {
+        return { ...base, status: 'mismatch', signalId: nearest.signal.id, expected: nearest.figure };
+    }
+    return { ...base, status: 'unsupported' };
+}
+
+// ── Main entry ───────────────────────────────────────────────
+
+/**
+ * Check one narrative's citations. `citedIds` are the ids the model
+ * returned; `signals` are all input signals.
+ */
+export function verifyNarrative(
+    narrative: { summary: string; explanation: string },
+    citedIds: string[],
+    signals: Signal[],
+): NarrativeVerification {
+    const byId = new Map(signals.map(s => [s.id, s]));
+    const uniqueIds = [...new Set(citedIds)];
+    const unknownSignalIds = uniqueIds.filter(id => !byId.has(id));
+    const cited = uniqueIds.filter(id => byId.has(id)).map(id => byId.get(id)!);
+
+    const claims = [
+        ...extractClaims(narrative.summary, 'summary'),
+        ...extractClaims(narrative.explanation, 'explanation'),
+    ].map(c => checkClaim(c, cited));
+
+    const status: NarrativeVerification['status'] =
+        unknownSignalIds.length > 0 || claims.some(c => c.status === 'mismatch') ? 'flagged'
+            : claims.some(c => c.status === 'unsupported') ? 'unverified'
+                : 'verified';
+
+    return { status, unknownSignalIds, claims, checkedAt: new Date().toISOString() };
+}
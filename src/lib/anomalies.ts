@@ -0,0 +1,233 @@
+// ============================================================
+// Solana Narrative Pulse — Statistical Anomaly Detector
+// ============================================================
+// Post-aggregation stage: runs three detectors over every numeric
+// signal's recorded history and emits synthetic `Anomaly` signals
+// that reference the underlying signal ids.
+//
+//   1. Rolling z-score  — current value vs. 7-day mean/std
+//   2. EWMA             — current value vs. exponentially weighted
+//                         mean/variance (reacts faster to recent regime)
+//   3. Level shift      — mean of the latest points vs. the window
+//                         before them (simple change-point test)
+//
+// Anomalies from different sources that share a token/project are
+// merged into a cross-source anomaly, so the narrative detector gets
+// convergence as an explicit input instead of inferring it.
+
+import { Signal } from '@/lib/types';
+import { loadSignalSeries, seriesKey, SignalPoint } from '@/lib/signal-store';
+import { priorPoints } from '@/lib/baselines';
+
+// ── Config ───────────────────────────────────────────────────
+
+const HISTORY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const MIN_HISTORY = 8;          // points needed before any detector runs
+const Z_THRESHOLD = 3;
+const EWMA_ALPHA = 0.3;
+const EWMA_THRESHOLD = 3;
+const SHIFT_RECENT = 4;         // latest points (incl. current) compared...
+const SHIFT_PRIOR = 12;         // ...against this many points before them
+const SHIFT_THRESHOLD = 3;
+
+// Metrics that trend by construction (counters, ranks, constant markers)
+// and would trip the detectors on every run
+const EXCLUDED_METRICS = new Set([
+    'epoch',
+    'circulating_supply',
+    'trending_rank',
+    'new_report',
+]);
+
+// ── Types ────────────────────────────────────────────────────
+
+type Method = 'zscore' | 'ewma' | 'level-shift';
+
+interface Detection {
+    method: Method;
+    score: number;              // signed, in standard deviations
+}
+
+// ── Detectors ────────────────────────────────────────────────
+
+function meanStd(values: number[]): { mean: number; std: number } {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    return { mean, std: Math.sqrt(variance) };
+}
+
+function rollingZScore(history: number[], current: number): Detection | null {
+    const { mean, std } = meanStd(history);
+    if (std === 0) return null;
+    const score = (current - mean) / std;
+    return Math.abs(score) >= Z_THRESHOLD ? { method: 'zscore', score } : null;
+}
+
+function ewmaDeviation(history: number[], current: number): Detection | null {
+    let mean = history[0];
+    let variance = 0;
+    for (const v of history.slice(1)) {
+        const diff = v - mean;
+        mean += EWMA_ALPHA * diff;
+        variance = (1 - EWMA_ALPHA) * (variance + EWMA_ALPHA * diff * diff);
+    }
+    const std = Math.sqrt(variance);
+    if (std === 0) return null;
+    const score = (current - mean) / std;
+    return Math.abs(score) >= EWMA_THRESHOLD ? { method: 'ewma', score } : null;
+}
+
+function levelShift(history: number[], current: number): Detection | null {
+    const series = [...history, current];
+    if (series.length < SHIFT_RECENT + SHIFT_PRIOR) return null;
+
+    const recent = series.slice(-SHIFT_RECENT);
+    const prior = series.slice(-(SHIFT_RECENT + SHIFT_PRIOR), -SHIFT_RECENT);
+    const r = meanStd(recent);
+    const p = meanStd(prior);
+    const pooled = Math.sqrt((r.std ** 2 + p.std ** 2) / 2);
+    if (pooled === 0) return null;
+
+    const score = (r.mean - p.mean) / (pooled / Math.sqrt(SHIFT_RECENT));
+    return Math.abs(score) >= SHIFT_THRESHOLD ? { method: 'level-shift', score } : null;
+}
+
+// ── Signal builders ──────────────────────────────────────────
+
+const METHOD_LABELS: Record<Method, string> = {
+    zscore: 'rolling z-score',
+    ewma: 'EWMA',
+    'level-shift': 'level shift',
+};
+
+function buildAnomalySignal(signal: Signal, history: SignalPoint[], detections: Detection[]): Signal {
+    const strongest = detections.reduce((a, b) => Math.abs(b.score) > Math.abs(a.score) ? b : a);
+    const { mean } = meanStd(history.map(p => p.value));
+    const direction = strongest.score > 0 ? 'above' : 'below';
+    const delta = mean !== 0 ? ((signal.value - mean) / Math.abs(mean)) * 100 : 0;
+
+    return {
+        id: `anomaly-${signal.id}-${signal.metric}`,
+        source: 'anomaly',
+        category: 'Anomaly',
+        metric: `${signal.metric}_anomaly`,
+        value: signal.value,
+        delta: parseFloat(delta.toFixed(1)),
+        description: `Anomaly: ${signal.metric} for ${signal.id} is ${Math.abs(strongest.score).toFixed(1)}σ ${direction} normal (${signal.value.toLocaleString()} vs 7d mean ${mean.toLocaleString(undefined, { maximumFractionDigits: 2 })}) — ${detections.map(d => METHOD_LABELS[d.method]).join(' + ')}`,
+        relatedTokens: signal.relatedTokens,
+        relatedProjects: signal.relatedProjects,
+        relatedSignalIds: [signal.id],
+        timestamp: signal.timestamp,
+        strength: Math.min(95, 55 + Math.abs(strongest.score) * 6 + (detections.length - 1) * 5),
+        zScore: parseFloat(strongest.score.toFixed(2)),
+        sourceUrl: signal.sourceUrl,
+        fullText: `Underlying signal: ${signal.description}\nMethods fired: ${detections.map(d => `${METHOD_LABELS[d.method]} (${d.score.toFixed(1)}σ)`).join(', ')}. History: ${history.length} points over 7 days.`,
+    };
+}
+
+// Merge single-series anomalies whose underlying signals come from
+// different sources but share a token or project. A set of signals
+// sharing both a token and a project ("SOL" / "solana") is one
+// anomaly, labelled with every shared name, not one per key.
+function buildCrossSourceAnomalies(anomalies: Signal[], underlying: Map<string, Signal>): Signal[] {
+    const groups = new Map<string, Signal[]>();
+    for (const a of anomalies) {
+        const keys = [
+            ...a.relatedTokens.map(t => `token:${t.toLowerCase()}`),
+            ...a.relatedProjects.map(p => `project:${p.toLowerCase()}`),
+        ];
+        for (const key of keys) {
+            const list = groups.get(key) || [];
+            list.push(a);
+            groups.set(key, list);
+        }
+    }
+
+    // Keys grouping the same signals, by sorted signal ids
+    const bySignals = new Map<string, { keys: string[]; members: Signal[]; signalIds: string[] }>();
+    for (const [key, members] of groups) {
+        const sources = new Set(members.map(a => underlying.get(a.relatedSignalIds![0])?.source));
+        if (sources.size < 2) continue;
+
+        const signalIds = [...new Set(members.flatMap(a => a.relatedSignalIds || []))].sort();
+        const signature = signalIds.join('|');
+        const group = bySignals.get(signature);
+        if (group) group.keys.push(key);
+        else bySignals.set(signature, { keys: [key], members, signalIds });
+    }
+
+    const cross: Signal[] = [];
+    for (const { keys, members, signalIds } of bySignals.values()) {
+        const sources = new Set(members.map(a => underlying.get(a.relatedSignalIds![0])?.source));
+        const names = keys.map(key => key.split(':') as [string, string]);
+        const tokens = names.filter(([kind]) => kind === 'token').map(([, name]) => name.toUpperCase());
+        const projects = names.filter(([kind]) => kind === 'project').map(([, name]) => name);
+        const [firstKind, firstName] = names[0];
+        const avgStrength = members.reduce((sum, a) => sum + a.strength, 0) / members.length;
+
+        cross.push({
+            id: `anomaly-cross-${firstKind}-${firstName.replace(/[^a-z0-9]+/g, '-')}`,
+            source: 'anomaly',
+            category: 'Anomaly',
+            metric: 'cross_source_anomalies',
+            value: members.length,
+            delta: 0,
+            description: `Cross-source anomaly: ${members.length} unusual readings for ${names.map(([kind, name]) => `${kind} "${kind === 'token' ? name.toUpperCase() : name}"`).join(' / ')} across ${[...sources].join(', ')}`,
+            relatedTokens: tokens,
+            relatedProjects: projects,
+            relatedSignalIds: signalIds,
+            timestamp: new Date().toISOString(),
+            strength: Math.min(98, avgStrength + (sources.size - 1) * 10),
+            fullText: members.map(a => `- ${a.description}`).join('\n'),
+        });
+    }
+    return cross;
+}
+
+// ── Public API ───────────────────────────────────────────────
+
+/**
+ * Run the anomaly detectors over a collection run and return the
+ * synthetic anomaly signals (the input signals are not modified).
+ * History is read from the signal store, so call this before the
+ * current run is recorded.
+ */
+export async function detectAnomalies(signals: Signal[]): Promise<Signal[]> {
+    let series: Map<string, SignalPoint[]>;
+    try {
+        series = await loadSignalSeries(new Date(Date.now() - HISTORY_WINDOW_MS));
+    } catch (err) {
+        console.warn('Anomaly detection skipped — history unavailable:', err);
+        return [];
+    }
+
+    const anomalies: Signal[] = [];
+    const underlying = new Map<string, Signal>();
+
+    for (const signal of signals) {
+        if (signal.source === 'anomaly' || EXCLUDED_METRICS.has(signal.metric)) continue;
+        if (!Number.isFinite(signal.value)) continue;
+
+        const history = priorPoints(series.get(seriesKey(signal.id, signal.metric)) || [], signal);
+        if (history.length < MIN_HISTORY) continue;
+
+        const values = history.map(p => p.value);
+        const detections = [
+            rollingZScore(values, signal.value),
+            ewmaDeviation(values, signal.value),
+            levelShift(values, signal.value),
+        ].filter((d): d is Detection => d !== null);
+
+        if (detections.length === 0) continue;
+
+        underlying.set(signal.id, signal);
+        anomalies.push(buildAnomalySignal(signal, history, detections));
+    }
+
+    const cross = buildCrossSourceAnomalies(anomalies, underlying);
+    if (anomalies.length > 0) {
+        console.log(`🚨 Anomaly stage: ${anomalies.length} series anomalies, ${cross.length} cross-source`);
+    }
+
+    return [...cross, ...anomalies];
+}
@@ -0,0 +1,158 @@
+// ============================================================
+// Solana Narrative Pulse — Signal Baselines
+// ============================================================
+// Computes deltas and z-scores for signals from our own recorded
+// history (see signal-store.ts) instead of hard-coded constants.
+//
+//   delta  — % change vs. the previous stored value, or vs. the
+//            rolling 7-day mean
+//   zScore — how many standard deviations the current value sits
+//            from this signal's rolling 7-day mean
+
+import { Signal } from '@/lib/types';
+import { loadSignalSeries, querySignalHistory, seriesKey, SignalPoint } from '@/lib/signal-store';
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface SignalBaseline {
+    count: number;              // samples in the window
+    mean: number;
+    stdDev: number;
+    previous: number | null;    // most recent stored value
+    previousAt: string | null;
+}
+
+export type DeltaMode = 'previous' | 'mean';
+
+// ── Config ───────────────────────────────────────────────────
+
+const BASELINE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Below this many samples a z-score is too noisy to report */
+export const MIN_BASELINE_SAMPLES = 5;
+
+/** |z| at or above which a value counts as anomalous */
+export const ANOMALY_Z = 2;
+
+// ── Math ─────────────────────────────────────────────────────
+
+function buildBaseline(points: SignalPoint[]): SignalBaseline | null {
+    if (points.length === 0) return null;
+
+    const values = points.map(p => p.value);
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    const last = points[points.length - 1];
+
+    return {
+        count: values.length,
+        mean,
+        stdDev: Math.sqrt(variance),
+        previous: last.value,
+        previousAt: last.timestamp,
+    };
+}
+
+/**
+ * % change of `value` against the baseline. Returns null when there
+ * is no usable reference (no history, or a zero reference value).
+ */
+export function baselineDelta(value: number, baseline: SignalBaseline | null, mode: DeltaMode = 'previous'): number | null {
+    if (!baseline) return null;
+    const reference = mode === 'previous' ? baseline.previous : baseline.mean;
+    if (reference === null || reference === 0) return null;
+    return parseFloat((((value - reference) / Math.abs(reference)) * 100).toFixed(1));
+}
+
+/**
+ * Standard score of `value` against the baseline, or null when the
+ * window has too few samples or no variance.
+ */
+export function baselineZScore(value: number, baseline: SignalBaseline | null): number | null {
+    if (!baseline || baseline.count < MIN_BASELINE_SAMPLES || baseline.stdDev === 0) return null;
+    return parseFloat(((value - baseline.mean) / baseline.stdDev).toFixed(2));
+}
+
+// ── Lookups ──────────────────────────────────────────────────
+
+/**
+ * Baseline for a single signal series over the last 7 days.
+ */
+export async function getSignalBaseline(id: string, metric: string): Promise<SignalBaseline | null> {
+    const points = await querySignalHistory({
+        id,
+        metric,
+        from: new Date(Date.now() - BASELINE_WINDOW_MS),
+    });
+    return buildBaseline(points);
+}
+
+/**
+ * History points for `signal`, minus any recorded from this same
+ * observation. A collector result served from cache keeps its original
+ * timestamp and was already recorded once — comparing it with that
+ * point would give a zero delta and a z-score that includes itself.
+ */
+export function priorPoints(points: SignalPoint[], signal: Pick<Signal, 'timestamp'>): SignalPoint[] {
+    return points.filter(p => p.timestamp !== signal.timestamp);
+}
+
+/**
+ * Baselines for many signals at once (one pass over the store).
+ * Keyed by seriesKey(id, metric).
+ */
+export async function getSignalBaselines(signals: Signal[]): Promise<Map<string, SignalBaseline>> {
+    const series = await loadSignalSeries(new Date(Date.now() - BASELINE_WINDOW_MS));
+
+    const baselines = new Map<string, SignalBaseline>();
+    for (const signal of signals) {
+        const key = seriesKey(signal.id, signal.metric);
+        if (baselines.has(key)) continue;
+        const baseline = buildBaseline(priorPoints(series.get(key) || [], signal));
+        if (baseline) baselines.set(key, baseline);
+    }
+    return baselines;
+}
+
+/**
+ * Attach baseline context to a collection run:
+ *   - every signal with enough history gets `baseline` and `zScore`
+ *   - signals the collector couldn't give a delta (delta === 0) get one
+ *     against their previous stored value
+ *   - anomalous values (|z| >= ANOMALY_Z) get their strength raised so
+ *     ranking reflects what this signal normally does
+ *
+ * Must run before the current values are recorded, or every signal
+ * would be compared against itself. Cached results already recorded
+ * by an earlier run are compared with the points before their own.
+ */
+export async function applyBaselines(signals: Signal[]): Promise<Signal[]> {
+    let baselines: Map<string, SignalBaseline>;
+    try {
+        baselines = await getSignalBaselines(signals);
+    } catch (err) {
+        console.warn('Baselines unavailable (non-fatal):', err);
+        return signals;
+    }
+
+    return signals.map(signal => {
+        const baseline = baselines.get(seriesKey(signal.id, signal.metric)) || null;
+        if (!baseline) return signal;
+
+        const zScore = baselineZScore(signal.value, baseline);
+        const delta = signal.delta === 0
+            ? baselineDelta(signal.value, baseline, 'previous') ?? 0
+            : signal.delta;
+        const strength = zScore !== null && Math.abs(zScore) >= ANOMALY_Z
+            ? Math.max(signal.strength, Math.min(95, 60 + Math.abs(zScore) * 8))
+            : signal.strength;
+
+        return {
+            ...signal,
+            delta,
+            strength,
+            baseline: parseFloat(baseline.mean.toFixed(2)),
+            ...(zScore !== null ? { zScore } : {}),
+        };
+    });
+}
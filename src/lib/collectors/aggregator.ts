@@ -2,30 +2,123 @@
 // Solana Narrative Pulse — Signal Aggregator
 // ============================================================
 
-import { Signal, CollectorResult } from '@/lib/types';
-import { collectMarketSignals } from './market';
-import { collectGitHubSignals } from './github';
-import { collectOnChainSignals } from './onchain';
-import { collectSocialSignals } from './social';
-import { collectDefiLlamaSignals } from './defi-llama';
-import { collectAgentKitSignals } from '@/lib/solana-agent';
-import { collectDexSignals } from './dex';
-import { collectNftSignals } from './nft';
+import { Signal, CollectorResult, CollectorHealth, AggregatedSignals } from '@/lib/types';
+import { getEnabledCollectors, CollectorDefinition } from './registry';
 import { enrichSignalDescriptions } from '@/lib/format-signals';
 import { getCached, setCache, CACHE_TTL } from '@/lib/cache';
+import { recordSignals } from '@/lib/signal-store';
+import { applyBaselines } from '@/lib/baselines';
+import { detectAnomalies } from '@/lib/anomalies';
+import { httpMode } from '@/lib/http-fixtures';
 
 const SIGNAL_CACHE_KEY = 'all-signals';
+const COLLECTOR_CACHE_PREFIX = 'collector:';
+
+// ── Run a single registered collector ────────────────────────
+// Serves the collector's own cache entry when fresh, otherwise races
+// the collector against its timeout so one slow source can't stall the run.
+// Never rejects: failures and timeouts are reported in the health entry.
+async function runCollector(
+    collector: CollectorDefinition,
+    forceRefresh: boolean
+): Promise<{ signals: Signal[]; health: CollectorHealth }> {
+    // Requests outside lib/http have no fixtures — keep replay runs offline
+    if (collector.usesHttpClient === false && httpMode() === 'replay') {
+        return {
+            signals: [],
+            health: {
+                name: collector.name,
+                status: 'disabled',
+                latencyMs: 0,
+                signalCount: 0,
+                error: 'disabled in replay',
+                fromCache: false,
+            },
+        };
+    }
+
+    const cacheKey = `${COLLECTOR_CACHE_PREFIX}${collector.name}`;
+    if (!forceRefresh) {
+        const cached = getCached<CollectorResult<Signal[]>>(cacheKey);
+        if (cached) {
+            return {
+                signals: cached.data,
+                health: {
+                    name: collector.name,
+                    status: cached.data.length > 0 ? 'ok' : 'empty',
+                    latencyMs: 0,
+                    signalCount: cached.data.length,
+                    fromCache: true,
+                },
+            };
+        }
+    }
+
+    const startedAt = Date.now();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            timedOut = true;
+            reject(new Error(`Timed out after ${collector.timeoutMs / 1000}s`));
+        }, collector.timeoutMs);
+    });
+
+    try {
+        const result = await Promise.race([collector.collect(), timeoutPromise]);
+        const signals = Array.isArray(result.data) ? result.data : [];
+
+        const undeclared = [...new Set(signals.map(s => s.source))]
+            .filter(source => !collector.sources.includes(source));
+        if (undeclared.length > 0) {
+            console.warn(`Collector ${collector.name} emitted undeclared sources: ${undeclared.join(', ')}`);
+        }
+
+        // Don't cache failed runs — let the next request retry the source
+        if (!result.error) {
+            setCache(cacheKey, result, collector.cacheTtlMs);
+        }
+
+        return {
+            signals,
+            health: {
+                name: collector.name,
+                status: result.error ? 'failed' : signals.length > 0 ? 'ok' : 'empty',
+                latencyMs: Date.now() - startedAt,
+                signalCount: signals.length,
+                error: result.error,
+                fromCache: false,
+            },
+        };
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`Collector ${collector.name} failed:`, err);
+        return {
+            signals: [],
+            health: {
+                name: collector.name,
+                status: timedOut ? 'timed-out' : 'failed',
+                latencyMs: Date.now() - startedAt,
+                signalCount: 0,
+                error: message,
+                fromCache: false,
+            },
+        };
+    } finally {
+        clearTimeout(timer);
+    }
+}
 
 // ── Run all collectors and merge signals ─────────────────────
 // Results are cached for 5 minutes to prevent redundant API calls.
 // Pass `forceRefresh: true` to bypass the cache.
 export async function collectAllSignals(
     options: { forceRefresh?: boolean } = {}
-): Promise<CollectorResult<Signal[]>> {
+): Promise<AggregatedSignals> {
 
     // Check cache first (unless forced refresh)
     if (!options.forceRefresh) {
-        const cached = getCached<CollectorResult<Signal[]>>(SIGNAL_CACHE_KEY);
+        const cached = getCached<AggregatedSignals>(SIGNAL_CACHE_KEY);
         if (cached) {
             console.log(`📦 Returning cached signals (${cached.data.length} signals, collected at ${cached.collectedAt})`);
             return cached;
@@ -35,49 +128,46 @@ export async function collectAllSignals(
     console.log('🔄 Cache miss — collecting fresh signals from all sources...');
     const collectedAt = new Date().toISOString();
     const allSignals: Signal[] = [];
-    const errors: string[] = [];
-
-    // Run collectors in parallel with error isolation
-    const results = await Promise.allSettled([
-        collectMarketSignals(),
-        collectGitHubSignals(),
-        collectOnChainSignals(),
-        collectAgentKitSignals(),
-        collectSocialSignals(),
-        collectDefiLlamaSignals(),
-        collectDexSignals(),
-        collectNftSignals(),
-    ]);
-
-    const sourceNames = ['market', 'github', 'onchain', 'agent-kit', 'social', 'defi-llama', 'dex', 'nft'];
-
-    results.forEach((result, i) => {
-        const source = sourceNames[i];
-        if (result.status === 'fulfilled') {
-            // Flatten the result if it's an array, or extract .data if it's a CollectorResult
-            const data = (result.value as any).data || result.value;
-            if (Array.isArray(data)) {
-                allSignals.push(...data);
-            }
-        } else {
-            // errors.push(`${source}: ${result.reason?.message || 'Unknown error'}`);
-            console.error(`Collector ${source} failed:`, result.reason);
-        }
-    });
+
+    // Run every enabled collector in parallel — runCollector isolates errors
+    const collectors = getEnabledCollectors();
+    const runs = await Promise.all(
+        collectors.map(collector => runCollector(collector, !!options.forceRefresh))
+    );
+
+    runs.forEach(run => allSignals.push(...run.signals));
+    const health = runs.map(run => run.health);
+    const errors = health
+        .filter(h => h.error && h.status !== 'disabled')
+        .map(h => `${h.name}: ${h.error}`);
+
+    console.log(`🩺 Collector health: ${health.map(h => `${h.name}=${h.status}(${h.signalCount}, ${h.latencyMs}ms)`).join(', ')}`);
+
+    // Deltas + z-scores against our own history (before this run is recorded)
+    const withBaselines = await applyBaselines(allSignals);
+
+    // Statistical anomaly stage — emits synthetic 'anomaly' signals
+    const anomalies = await detectAnomalies(withBaselines);
+    withBaselines.push(...anomalies);
 
     // Sort by signal strength descending
-    allSignals.sort((a, b) => b.strength - a.strength);
+    withBaselines.sort((a, b) => b.strength - a.strength);
 
     // Enrich descriptions for consistency
-    const enriched = enrichSignalDescriptions(allSignals);
+    const enriched = enrichSignalDescriptions(withBaselines);
 
-    const result: CollectorResult<Signal[]> = {
+    const result: AggregatedSignals = {
         data: enriched,
         source: 'aggregator',
         collectedAt,
         error: errors.length > 0 ? errors.join('; ') : undefined,
+        health,
     };
 
+    // Append to the time-series store (async, best-effort) — derived
+    // anomaly signals are recomputed each run, so only raw values are kept
+    recordSignals(enriched.filter(s => s.source !== 'anomaly'));
+
     // Cache the result
     setCache(SIGNAL_CACHE_KEY, result, CACHE_TTL.SIGNALS);
     console.log(`📦 Cached ${enriched.length} signals (TTL: ${CACHE_TTL.SIGNALS / 1000}s)`);
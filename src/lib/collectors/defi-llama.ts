@@ -5,6 +5,7 @@
 // Solana protocols to detect capital flow narratives.
 
 import { Signal, CollectorResult } from '@/lib/types';
+import { httpFetch } from '@/lib/http';
 
 const DEFI_LLAMA_BASE = 'https://api.llama.fi';
 
@@ -25,9 +26,9 @@ async function getSolanaTVL(): Promise<Signal[]> {
     const now = new Date().toISOString();
 
     try {
-        const res = await fetch(`${DEFI_LLAMA_BASE}/v2/chains`, {
+        const res = await httpFetch(`${DEFI_LLAMA_BASE}/v2/chains`, {
             headers: { 'Accept': 'application/json' },
-            signal: AbortSignal.timeout(8000),
+            timeoutMs: 8000,
         });
         if (!res.ok) throw new Error(`DefiLlama chains: ${res.status}`);
 
@@ -64,9 +65,8 @@ async function getTopProtocols(): Promise<Signal[]> {
     const now = new Date().toISOString();
 
     try {
-        const res = await fetch(`${DEFI_LLAMA_BASE}/protocols`, {
+        const res = await httpFetch(`${DEFI_LLAMA_BASE}/protocols`, {
             headers: { 'Accept': 'application/json' },
-            signal: AbortSignal.timeout(12000),
         });
         if (!res.ok) throw new Error(`DefiLlama protocols: ${res.status}`);
 
@@ -185,9 +185,8 @@ async function getStablecoinFlows(): Promise<Signal[]> {
     const now = new Date().toISOString();
 
     try {
-        const res = await fetch('https://stablecoins.llama.fi/stablecoins?includePrices=false', {
+        const res = await httpFetch('https://stablecoins.llama.fi/stablecoins?includePrices=false', {
             headers: { 'Accept': 'application/json' },
-            signal: AbortSignal.timeout(8000),
         });
         if (!res.ok) throw new Error(`DefiLlama stablecoins: ${res.status}`);
 
@@ -7,6 +7,7 @@
 // - High-volume pairs
 
 import { Signal, CollectorResult } from '@/lib/types';
+import { httpFetch } from '@/lib/http';
 
 const DEXSCREENER_BASE = 'https://api.dexscreener.com';
 
@@ -31,9 +32,8 @@ async function getTopPairs(): Promise<Signal[]> {
     const now = new Date().toISOString();
 
     try {
-        const res = await fetch(`${DEXSCREENER_BASE}/token-profiles/latest/v1`, {
+        const res = await httpFetch(`${DEXSCREENER_BASE}/token-profiles/latest/v1`, {
             headers: { 'Accept': 'application/json' },
-            signal: AbortSignal.timeout(8000),
         });
 
         if (!res.ok) throw new Error(`DexScreener profiles: ${res.status}`);
@@ -46,9 +46,9 @@ async function getTopPairs(): Promise<Signal[]> {
         for (const profile of solanaProfiles) {
             try {
                 // Fetch actual pair data for this token
-                const pairRes = await fetch(
+                const pairRes = await httpFetch(
                     `${DEXSCREENER_BASE}/tokens/v1/solana/${profile.tokenAddress}`,
-                    { signal: AbortSignal.timeout(5000) }
+                    { timeoutMs: 5000 }
                 );
                 if (!pairRes.ok) continue;
 
@@ -97,9 +97,8 @@ async function getBoostedTokens(): Promise<Signal[]> {
     const now = new Date().toISOString();
 
     try {
-        const res = await fetch(`${DEXSCREENER_BASE}/token-boosts/top/v1`, {
+        const res = await httpFetch(`${DEXSCREENER_BASE}/token-boosts/top/v1`, {
             headers: { 'Accept': 'application/json' },
-            signal: AbortSignal.timeout(8000),
         });
 
         if (!res.ok) throw new Error(`DexScreener boosts: ${res.status}`);
@@ -139,9 +138,8 @@ async function getNewPairs(): Promise<Signal[]> {
     const now = new Date().toISOString();
 
     try {
-        const res = await fetch(`${DEXSCREENER_BASE}/latest/dex/pairs/solana`, {
+        const res = await httpFetch(`${DEXSCREENER_BASE}/latest/dex/pairs/solana`, {
             headers: { 'Accept': 'application/json' },
-            signal: AbortSignal.timeout(8000),
         });
 
         if (!res.ok) throw new Error(`DexScreener new pairs: ${res.status}`);
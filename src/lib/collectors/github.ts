@@ -3,6 +3,8 @@
 // ============================================================
 
 import { CONFIG } from '@/lib/config';
+import { getWatchlist } from '@/lib/watchlists';
+import { httpFetch } from '@/lib/http';
 import { Signal, GitHubRepoActivity, CollectorResult } from '@/lib/types';
 
 const BASE = CONFIG.github.baseUrl;
@@ -15,7 +17,7 @@ async function ghFetch(url: string) {
     if (CONFIG.github.token) {
         headers['Authorization'] = `Bearer ${CONFIG.github.token}`;
     }
-    const res = await fetch(url, { headers, next: { revalidate: 600 } });
+    const res = await httpFetch(url, { headers });
     if (!res.ok) {
         if (res.status === 403) {
             console.warn('GitHub rate limit hit');
@@ -74,9 +76,10 @@ export async function collectGitHubSignals(): Promise<CollectorResult<Signal[]>>
     const oneWeekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
 
     // Fetch repos from tracked orgs (limit concurrency)
+    const orgs = (await getWatchlist('githubOrgs')).map(o => o.org);
     const orgBatches = [];
-    for (let i = 0; i < CONFIG.github.trackedOrgs.length; i += 3) {
-        orgBatches.push(CONFIG.github.trackedOrgs.slice(i, i + 3));
+    for (let i = 0; i < orgs.length; i += 3) {
+        orgBatches.push(orgs.slice(i, i + 3));
     }
 
     const allRepos: GitHubRepoActivity[] = [];
@@ -0,0 +1,483 @@
+// ============================================================
+// Solana Narrative Pulse — Governance Collector
+// ============================================================
+// Reads DAO proposals straight from chain (no indexer API):
+//
+//   • SPL Governance / Realms — ProposalV2 accounts (Jito, Marinade,
+//     plus any realm listed in GOVERNANCE_REALMS)
+//   • Jupiter DAO            — Anchor Govern program Proposal accounts
+//
+// and emits signals for new proposals, vote turnout, quorum progress
+// and executed proposals, each linking to the proposal page.
+//
+// Uses getProgramAccounts, which the public RPC refuses for large
+// programs — set GOVERNANCE_RPC_URL, HELIUS_API_KEY or SOLANA_RPC_URL.
+
+import { Signal, CollectorResult } from '@/lib/types';
+import { CONFIG } from '@/lib/config';
+import { httpFetch } from '@/lib/http';
+import { createHash } from 'crypto';
+import bs58 from 'bs58';
+
+// ── Types ────────────────────────────────────────────────────
+
+interface DaoConfig {
+    name: string;
+    kind: 'spl-governance' | 'govern';
+    programId: string;
+    /** Realm to filter by when the program hosts many DAOs; '' = all */
+    realm: string;
+    token: string;
+    project: string;
+    proposalUrl: string;
+}
+
+type ProposalState = 'draft' | 'voting' | 'succeeded' | 'executing' | 'executed' | 'defeated' | 'cancelled';
+
+interface GovernanceProposal {
+    address: string;
+    title: string;
+    state: ProposalState;
+    /** Unix seconds; null when the account doesn't record it */
+    createdAt: number | null;
+    votingEndsAt: number | null;
+    executedAt: number | null;
+    forVotes: number;
+    againstVotes: number;
+    abstainVotes: number;
+    /** Total vote weight that could be cast (token supply for Realms) */
+    maxVoteWeight: number | null;
+    /** Yes votes needed to pass */
+    quorumVotes: number | null;
+}
+
+// ── RPC helper ───────────────────────────────────────────────
+
+const GOVERNANCE_RPC = CONFIG.governance.rpcUrl
+    || (process.env.HELIUS_API_KEY ? `https://mainnet.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}` : '')
+    || process.env.SOLANA_RPC_URL
+    || 'https://api.mainnet-beta.solana.com';
+
+async function rpc<T>(method: string, params: unknown[] = []): Promise<T> {
+    const res = await httpFetch(GOVERNANCE_RPC, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    });
+    if (!res.ok) throw new Error(`Governance RPC error: ${res.status}`);
+    const json = await res.json() as { result?: T; error?: { message: string } };
+    if (json.error) throw new Error(`RPC: ${json.error.message}`);
+    return json.result as T;
+}
+
+interface ProgramAccount {
+    pubkey: string;
+    account: { data: [string, string] };
+}
+
+type MemcmpFilter = { memcmp: { offset: number; bytes: string } };
+
+async function getProgramAccounts(programId: string, filters: MemcmpFilter[]): Promise<{ pubkey: string; data: Buffer }[]> {
+    const accounts = await rpc<ProgramAccount[]>('getProgramAccounts', [
+        programId,
+        { encoding: 'base64', filters },
+    ]);
+    return (accounts || []).map(a => ({ pubkey: a.pubkey, data: Buffer.from(a.account.data[0], 'base64') }));
+}
+
+function memcmp(offset: number, bytes: Uint8Array | string): MemcmpFilter {
+    return { memcmp: { offset, bytes: typeof bytes === 'string' ? bytes : bs58.encode(bytes) } };
+}
+
+// ── Borsh reader ─────────────────────────────────────────────
+// Minimal little-endian cursor; reads past the end throw RangeError,
+// which the parsers treat as "not the layout we expected".
+
+function borshReader(data: Buffer) {
+    let offset = 0;
+    const take = (n: number) => {
+        if (offset + n > data.length) throw new RangeError('Unexpected end of account data');
+        const start = offset;
+        offset += n;
+        return start;
+    };
+    const reader = {
+        skip: (n: number) => { take(n); },
+        u8: () => data.readUInt8(take(1)),
+        u16: () => data.readUInt16LE(take(2)),
+        u32: () => data.readUInt32LE(take(4)),
+        u64: () => Number(data.readBigUInt64LE(take(8))),
+        i64: () => Number(data.readBigInt64LE(take(8))),
+        pubkey: () => bs58.encode(data.subarray(take(32), offset)),
+        string: () => {
+            const len = reader.u32();
+            return data.subarray(take(len), offset).toString('utf-8');
+        },
+        option: <T>(read: () => T): T | null => (reader.u8() === 1 ? read() : null),
+    };
+    return reader;
+}
+
+// ── SPL Governance (Realms) ──────────────────────────────────
+
+const SPL_ACCOUNT_TYPE = { GOVERNANCE_V2: 18, PROPOSAL_V2: 14 } as const;
+const MAX_GOVERNANCES_PER_REALM = 25;
+
+const SPL_STATES: ProposalState[] = [
+    'draft',      // Draft
+    'draft',      // SigningOff
+    'voting',     // Voting
+    'succeeded',  // Succeeded
+    'executing',  // Executing
+    'executed',   // Completed
+    'cancelled',  // Cancelled
+    'defeated',   // Defeated
+    'executing',  // ExecutingWithErrors
+    'defeated',   // Vetoed
+];
+
+interface SplProposal extends GovernanceProposal {
+    mint: string;
+    /** Yes-vote threshold as % of max vote weight */
+    thresholdPct: number | null;
+}
+
+function parseSplProposal(address: string, data: Buffer): SplProposal | null {
+    try {
+        const r = borshReader(data);
+        if (r.u8() !== SPL_ACCOUNT_TYPE.PROPOSAL_V2) return null;
+        r.pubkey();                        // governance
+        const mint = r.pubkey();
+        const state = SPL_STATES[r.u8()];
+        r.pubkey();                        // token_owner_record
+        r.skip(2);                         // signatories_count, signatories_signed_off_count
+        if (r.u8() === 1) r.skip(4);       // vote_type: MultiChoice { max_voter_options, max_winning_options }
+
+        let forVotes = 0;
+        const optionCount = r.u32();
+        for (let i = 0; i < optionCount; i++) {
+            r.string();                    // label
+            forVotes += r.u64();           // vote_weight
+            r.skip(1 + 2 * 3);             // vote_result, transaction counters
+        }
+        const againstVotes = r.option(r.u64) ?? 0;     // deny_vote_weight
+        r.skip(1);                                     // reserved1
+        const abstainVotes = r.option(r.u64) ?? 0;
+        r.option(r.i64);                               // start_voting_at
+        const draftAt = r.i64();
+        r.option(r.i64);                               // signing_off_at
+        const votingAt = r.option(r.i64);
+        r.option(r.u64);                               // voting_at_slot
+        const votingCompletedAt = r.option(r.i64);
+        r.option(r.i64);                               // executing_at
+        const closedAt = r.option(r.i64);
+        r.skip(1);                                     // execution_flags
+        const maxVoteWeight = r.option(r.u64);
+        const maxVotingTime = r.option(r.u32);
+        // vote_threshold: Option<YesVotePercentage(u8) | QuorumPercentage(u8) | Disabled>
+        const thresholdPct = r.option(() => (r.u8() === 2 ? null : r.u8()));
+        r.skip(64);                                    // reserved
+        const title = r.string();
+
+        if (!state) return null;
+        return {
+            address,
+            title,
+            state,
+            mint,
+            createdAt: draftAt,
+            votingEndsAt: votingAt !== null && maxVotingTime !== null ? votingAt + maxVotingTime : votingCompletedAt,
+            executedAt: state === 'executed' ? closedAt ?? votingCompletedAt : null,
+            forVotes,
+            againstVotes,
+            abstainVotes,
+            maxVoteWeight,
+            quorumVotes: null,
+            thresholdPct,
+        };
+    } catch {
+        return null;
+    }
+}
+
+async function getSplProposals(dao: DaoConfig): Promise<GovernanceProposal[]> {
+    const proposalType = memcmp(0, new Uint8Array([SPL_ACCOUNT_TYPE.PROPOSAL_V2]));
+    let accounts: { pubkey: string; data: Buffer }[];
+
+    if (dao.realm) {
+        // Shared program: realm → its governances → their proposals
+        const governances = await getProgramAccounts(dao.programId, [
+            memcmp(0, new Uint8Array([SPL_ACCOUNT_TYPE.GOVERNANCE_V2])),
+            memcmp(1, dao.realm),
+        ]);
+        const batches = await Promise.all(
+            governances.slice(0, MAX_GOVERNANCES_PER_REALM).map(g =>
+                getProgramAccounts(dao.programId, [proposalType, memcmp(1, g.pubkey)])
+            )
+        );
+        accounts = batches.flat();
+    } else {
+        accounts = await getProgramAccounts(dao.programId, [proposalType]);
+    }
+
+    const proposals = accounts
+        .map(a => parseSplProposal(a.pubkey, a.data))
+        .filter((p): p is SplProposal => p !== null);
+
+    // Proposals don't always snapshot max vote weight — fall back to mint supply
+    const supplies = new Map<string, number>();
+    for (const mint of new Set(proposals.filter(p => p.maxVoteWeight === null).map(p => p.mint))) {
+        try {
+            const supply = await rpc<{ value: { amount: string } }>('getTokenSupply', [mint]);
+            supplies.set(mint, Number(supply.value.amount));
+        } catch {
+            // Turnout/quorum just stay unknown for this mint
+        }
+    }
+
+    return proposals.map(p => {
+        const maxVoteWeight = p.maxVoteWeight ?? supplies.get(p.mint) ?? null;
+        return {
+            ...p,
+            maxVoteWeight,
+            quorumVotes: maxVoteWeight !== null && p.thresholdPct !== null
+                ? (maxVoteWeight * p.thresholdPct) / 100
+                : null,
+        };
+    });
+}
+
+// ── Jupiter Govern (Anchor) ──────────────────────────────────
+
+function anchorDiscriminator(account: string): Buffer {
+    return createHash('sha256').update(`account:${account}`).digest().subarray(0, 8);
+}
+
+function parseGovernProposal(address: string, data: Buffer, now: number): GovernanceProposal | null {
+    try {
+        const r = borshReader(data);
+        r.skip(8);                         // discriminator
+        r.pubkey();                        // governor
+        r.u64();                           // index
+        r.u8();                            // bump
+        r.pubkey();                        // proposer
+        const quorumVotes = r.u64();
+        const forVotes = r.u64();
+        const againstVotes = r.u64();
+        const abstainVotes = r.u64();
+        const canceledAt = r.i64();
+        const createdAt = r.i64();
+        const activatedAt = r.i64();
+        const votingEndsAt = r.i64();
+        const queuedAt = r.i64();
+
+        // Guard against accounts that share the prefix but not the layout
+        if (createdAt <= 0 || createdAt > now + 86_400) return null;
+
+        let state: ProposalState;
+        if (canceledAt > 0) state = 'cancelled';
+        else if (queuedAt > 0) state = 'executed';
+        else if (activatedAt === 0) state = 'draft';
+        else if (votingEndsAt > now) state = 'voting';
+        else if (forVotes > againstVotes && forVotes >= quorumVotes) state = 'succeeded';
+        else state = 'defeated';
+
+        return {
+            address,
+            title: '',
+            state,
+            createdAt,
+            votingEndsAt: votingEndsAt || null,
+            executedAt: queuedAt || null,
+            forVotes,
+            againstVotes,
+            abstainVotes,
+            maxVoteWeight: null,   // escrowed voting power isn't a single on-chain number
+            quorumVotes: quorumVotes || null,
+        };
+    } catch {
+        return null;
+    }
+}
+
+async function getGovernProposals(dao: DaoConfig): Promise<GovernanceProposal[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const [proposalAccounts, metaAccounts] = await Promise.all([
+        getProgramAccounts(dao.programId, [memcmp(0, anchorDiscriminator('Proposal'))]),
+        getProgramAccounts(dao.programId, [memcmp(0, anchorDiscriminator('ProposalMeta'))]),
+    ]);
+
+    // ProposalMeta { proposal, title, description_link }
+    const titles = new Map<string, string>();
+    for (const { data } of metaAccounts) {
+        try {
+            const r = borshReader(data);
+            r.skip(8);
+            titles.set(r.pubkey(), r.string());
+        } catch {
+            // Skip malformed meta accounts
+        }
+    }
+
+    return proposalAccounts
+        .map(a => parseGovernProposal(a.pubkey, a.data, now))
+        .filter((p): p is GovernanceProposal => p !== null)
+        .map(p => ({ ...p, title: titles.get(p.address) || p.title }));
+}
+
+// ── DAO list ─────────────────────────────────────────────────
+
+// Extra Realms DAOs, e.g. GOVERNANCE_REALMS="Mango DAO:DPiH3H3c7t47BMxqTxLsuPQpEC6Kne8GA9VXbxpnZxFE:MNGO"
+// (name:realm[:token]) — all on the shared SPL Governance program.
+const SPL_GOVERNANCE_PROGRAM = 'GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw';
+
+function getTrackedDaos(): DaoConfig[] {
+    const extra = (process.env.GOVERNANCE_REALMS || '')
+        .split(',')
+        .map(entry => entry.trim().split(':').map(part => part.trim()))
+        .filter(([name, realm]) => name && realm)
+        .map(([name, realm, token]): DaoConfig => ({
+            name,
+            kind: 'spl-governance',
+            programId: SPL_GOVERNANCE_PROGRAM,
+            realm,
+            token: token || '',
+            project: name.toLowerCase().replace(/\s*dao$/, '').replace(/\s+/g, '-'),
+            proposalUrl: `https://app.realms.today/dao/${realm}/proposal/{proposal}`,
+        }));
+    return [...(CONFIG.governance.daos as readonly DaoConfig[]), ...extra];
+}
+
+// ── Signal building ──────────────────────────────────────────
+
+const DAY_SECONDS = 86_400;
+
+function proposalSignals(dao: DaoConfig, proposal: GovernanceProposal, nowSec: number): Signal[] {
+    const signals: Signal[] = [];
+    const now = new Date(nowSec * 1000).toISOString();
+    const lookback = CONFIG.governance.lookbackDays * DAY_SECONDS;
+    const title = proposal.title || `Proposal ${proposal.address.slice(0, 8)}`;
+    const base = {
+        source: 'governance' as const,
+        relatedTokens: dao.token ? [dao.token] : [],
+        relatedProjects: [dao.project],
+        timestamp: now,
+        sourceUrl: dao.proposalUrl.replace('{proposal}', proposal.address),
+    };
+    const idPrefix = `gov-${dao.project}-${proposal.address.slice(0, 8)}`;
+
+    const cast = proposal.forVotes + proposal.againstVotes + proposal.abstainVotes;
+    const decisive = proposal.forVotes + proposal.againstVotes;
+    // Close votes are the interesting ones: 50/50 → 1, landslide → 0
+    const contested = decisive > 0 ? 1 - Math.abs(proposal.forVotes - proposal.againstVotes) / decisive : 0;
+    const forPct = decisive > 0 ? Math.round((proposal.forVotes / decisive) * 100) : 0;
+    const voteSplit = decisive > 0 ? ` — ${forPct}% for / ${100 - forPct}% against` : '';
+
+    // 1. New proposal
+    if (proposal.createdAt && nowSec - proposal.createdAt <= lookback && proposal.state !== 'cancelled') {
+        const ageDays = (nowSec - proposal.createdAt) / DAY_SECONDS;
+        signals.push({
+            ...base,
+            id: `${idPrefix}-new`,
+            category: 'Governance Proposal',
+            metric: 'new_proposal',
+            value: 1,
+            delta: 0,
+            description: `${dao.name}: new proposal "${title}" (${proposal.state === 'voting' ? 'voting open' : proposal.state})`,
+            strength: Math.round(Math.max(40, 70 - ageDays * 2) + (proposal.state === 'voting' ? 10 : 0)),
+        });
+    }
+
+    if (proposal.state === 'voting') {
+        const endsIn = proposal.votingEndsAt ? Math.max(0, proposal.votingEndsAt - nowSec) : null;
+        const endsText = endsIn !== null ? `, ends in ${endsIn > DAY_SECONDS ? `${Math.round(endsIn / DAY_SECONDS)}d` : `${Math.max(1, Math.round(endsIn / 3600))}h`}` : '';
+
+        // 2. Vote turnout
+        if (proposal.maxVoteWeight) {
+            const turnout = (cast / proposal.maxVoteWeight) * 100;
+            signals.push({
+                ...base,
+                id: `${idPrefix}-turnout`,
+                category: 'Vote Turnout',
+                metric: 'vote_turnout',
+                value: Math.round(turnout * 10) / 10,
+                delta: 0,
+                description: `${dao.name} "${title}": ${turnout.toFixed(1)}% turnout${voteSplit}${endsText}`,
+                strength: Math.min(95, Math.round(45 + Math.min(turnout, 40) + contested * 15)),
+            });
+        }
+
+        // 3. Quorum progress
+        if (proposal.quorumVotes) {
+            const progress = (proposal.forVotes / proposal.quorumVotes) * 100;
+            signals.push({
+                ...base,
+                id: `${idPrefix}-quorum`,
+                category: 'Quorum Progress',
+                metric: 'quorum_progress',
+                value: Math.round(progress),
+                delta: 0,
+                description: `${dao.name} "${title}": ${Math.round(progress)}% of quorum reached${voteSplit}${endsText}`,
+                // Proposals about to cross (or stuck just short of) quorum matter most
+                strength: Math.min(95, Math.round(40 + Math.min(progress, 100) * 0.35 + contested * 20)),
+            });
+        }
+    }
+
+    // 4. Executed proposal
+    if (proposal.state === 'executed' && proposal.executedAt && nowSec - proposal.executedAt <= lookback) {
+        const ageDays = (nowSec - proposal.executedAt) / DAY_SECONDS;
+        signals.push({
+            ...base,
+            id: `${idPrefix}-executed`,
+            category: 'Proposal Executed',
+            metric: 'proposal_executed',
+            value: 1,
+            delta: 0,
+            description: `${dao.name} executed "${title}"${voteSplit}`,
+            strength: Math.round(Math.max(45, 75 - ageDays * 2) + contested * 10),
+        });
+    }
+
+    return signals;
+}
+
+async function getDaoSignals(dao: DaoConfig): Promise<Signal[]> {
+    const proposals = dao.kind === 'govern'
+        ? await getGovernProposals(dao)
+        : await getSplProposals(dao);
+
+    const nowSec = Math.floor(Date.now() / 1000);
+    return proposals.flatMap(p => proposalSignals(dao, p, nowSec));
+}
+
+// ── Main collector ───────────────────────────────────────────
+
+export async function collectGovernanceSignals(): Promise<CollectorResult<Signal[]>> {
+    const collectedAt = new Date().toISOString();
+    const daos = getTrackedDaos();
+
+    const results = await Promise.allSettled(daos.map(getDaoSignals));
+
+    const signals: Signal[] = [];
+    const errors: string[] = [];
+    results.forEach((r, i) => {
+        if (r.status === 'fulfilled') {
+            signals.push(...r.value);
+        } else {
+            console.error(`Governance ${daos[i].name} error:`, r.reason);
+            errors.push(`${daos[i].name}: ${r.reason instanceof Error ? r.reason.message : String(r.reason)}`);
+        }
+    });
+
+    signals.sort((a, b) => b.strength - a.strength);
+    console.log(`🏛️ Governance: ${signals.length} signals from ${daos.length - errors.length}/${daos.length} DAOs`);
+
+    return {
+        data: signals,
+        source: 'governance',
+        collectedAt,
+        // Only a failure when no DAO could be read at all
+        error: errors.length === daos.length && daos.length > 0 ? errors.join('; ') : undefined,
+    };
+}
@@ -0,0 +1,79 @@
+// ============================================================
+// Solana Narrative Pulse — Helius Client
+// ============================================================
+// JSON-RPC and enhanced-transactions access shared by the on-chain
+// collectors (onchain.ts, program-analytics.ts, new-programs.ts).
+
+import { httpFetch } from '@/lib/http';
+import { httpMode } from '@/lib/http-fixtures';
+
+const HELIUS_API_KEY = process.env.HELIUS_API_KEY || '';
+const HELIUS_RPC = `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`;
+
+/** True when Helius can be queried — with a key, or from fixtures in replay mode */
+export function hasHeliusKey(): boolean {
+    return HELIUS_API_KEY !== '' || httpMode() === 'replay';
+}
+
+// ── RPC helper ───────────────────────────────────────────────
+export async function rpc(method: string, params: any[] = []): Promise<any> {
+    const res = await httpFetch(HELIUS_RPC, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    });
+    if (!res.ok) throw new Error(`Helius RPC error: ${res.status}`);
+    const json = await res.json();
+    if (json.error) throw new Error(`RPC: ${json.error.message}`);
+    return json.result;
+}
+
+/**
+ * Several RPC calls in one JSON-RPC batch request. Results come back in
+ * call order; a call that errored yields null rather than failing the batch.
+ */
+export async function rpcBatch(calls: { method: string; params: unknown[] }[]): Promise<unknown[]> {
+    if (calls.length === 0) return [];
+    const res = await httpFetch(HELIUS_RPC, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(calls.map((c, id) => ({ jsonrpc: '2.0', id, method: c.method, params: c.params }))),
+    });
+    if (!res.ok) throw new Error(`Helius RPC error: ${res.status}`);
+    const json = await res.json() as { id: number; result?: unknown }[];
+    const byId = new Map(json.map(r => [r.id, r.result ?? null]));
+    return calls.map((_, id) => byId.get(id) ?? null);
+}
+
+// ── Enhanced transactions ────────────────────────────────────
+
+export interface HeliusTransfer {
+    fromUserAccount?: string;
+    toUserAccount?: string;
+    amount?: number;          // native: lamports
+    mint?: string;
+    tokenAmount?: number;     // token: UI units
+    tokenStandard?: string;
+}
+
+export interface HeliusEnhancedTx {
+    signature: string;
+    timestamp?: number;
+    type?: string;
+    description?: string;
+    feePayer?: string;
+    transactionError?: unknown;
+    nativeTransfers?: HeliusTransfer[];
+    tokenTransfers?: HeliusTransfer[];
+}
+
+/**
+ * Parsed transactions involving `address`, newest first (max 100 per page).
+ * Pass the last signature of a page as `before` to get the next one.
+ */
+export async function fetchEnhancedTxs(address: string, limit: number, before?: string): Promise<HeliusEnhancedTx[]> {
+    const url = `https://api.helius.xyz/v0/addresses/${address}/transactions?api-key=${HELIUS_API_KEY}&limit=${limit}${before ? `&before=${before}` : ''}`;
+    const res = await httpFetch(url);
+    if (!res.ok) throw new Error(`Helius transactions error: ${res.status}`);
+    return res.json();
+}
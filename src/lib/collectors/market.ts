@@ -3,15 +3,14 @@
 // ============================================================
 
 import { CONFIG } from '@/lib/config';
+import { getWatchlist } from '@/lib/watchlists';
+import { httpFetch } from '@/lib/http';
 import { Signal, TrendingToken, TrendingPool, CollectorResult } from '@/lib/types';
 
 const BASE = CONFIG.coingecko.baseUrl;
 
 async function fetchJSON(url: string) {
-    const res = await fetch(url, {
-        headers: { 'Accept': 'application/json' },
-        next: { revalidate: 300 }, // cache for 5 min
-    });
+    const res = await httpFetch(url, { headers: { 'Accept': 'application/json' } });
     if (!res.ok) throw new Error(`CoinGecko API error: ${res.status} ${res.statusText}`);
     return res.json();
 }
@@ -39,7 +38,7 @@ export async function getTrendingTokens(): Promise<TrendingToken[]> {
 // ── Solana Ecosystem Token Prices ────────────────────────────
 export async function getSolanaTokenPrices(): Promise<Record<string, any>> {
     try {
-        const ids = CONFIG.trackedTokens.map(t => t.coingeckoId).join(',');
+        const ids = (await getWatchlist('tokens')).filter(t => t.coingeckoId).map(t => t.coingeckoId).join(',');
         const data = await fetchJSON(
             `${BASE}/simple/price?ids=${ids}&vs_currencies=usd&include_24hr_vol=true&include_24hr_change=true&include_market_cap=true`
         );
@@ -93,8 +92,8 @@ export async function collectMarketSignals(): Promise<CollectorResult<Signal[]>>
 
         // 2. Solana token price movements → signals  
         const prices = await getSolanaTokenPrices();
-        for (const token of CONFIG.trackedTokens) {
-            const data = prices[token.coingeckoId];
+        for (const token of await getWatchlist('tokens')) {
+            const data = token.coingeckoId ? prices[token.coingeckoId] : undefined;
             if (!data) continue;
             const change = data.usd_24h_change || 0;
             if (Math.abs(change) > 5) {
@@ -0,0 +1,451 @@
+// ============================================================
+// Solana Narrative Pulse — New Program Classifier
+// ============================================================
+// Turns raw BPF upgradeable-loader activity into "what kind of
+// programs are being shipped":
+//
+//   1. Page loader signatures back to the last one scanned.
+//   2. Look up likely deploy/upgrade transactions (jsonParsed) and
+//      resolve the program id from DeployWithMaxDataLen / Upgrade.
+//   3. Fetch each program's Anchor IDL account, inflate it and read
+//      the instruction names.
+//   4. Classify by instruction names (borrow/repay → lending, swap →
+//      DEX, vote/proposal → governance…) into a NarrativeCategory.
+//
+// Resolved programs are kept for 7 days in data/new-programs.json, so
+// the signals read "3 new lending-like programs deployed this week"
+// rather than counting loader transactions. Programs without an IDL
+// (native / non-Anchor) are counted as unclassified.
+//
+// Only MAX_TX_LOOKUPS transactions are looked up per run. Candidates
+// left over are carried to the next run; when loader activity outruns
+// that (scan cut short, carry-over full), the signals say the counts
+// are sampled.
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { inflateSync } from 'zlib';
+import { createHash } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { Signal, NarrativeCategory } from '@/lib/types';
+import { rpc, rpcBatch } from './helius';
+
+// ── Types ────────────────────────────────────────────────────
+
+interface SignatureInfo {
+    signature: string;
+    slot: number;
+    blockTime: number | null;
+    err: unknown;
+}
+
+interface ParsedInstruction {
+    programId: string;
+    parsed?: { type?: string; info?: { programAccount?: string } };
+}
+
+interface ParsedTransaction {
+    blockTime?: number | null;
+    meta?: { err: unknown; innerInstructions?: { instructions: ParsedInstruction[] }[] } | null;
+    transaction: { message: { instructions: ParsedInstruction[] } };
+}
+
+export type DeployEvent = 'deploy' | 'upgrade';
+
+export interface ProgramKind {
+    kind: string;
+    label: string;              // "lending-like"
+    category: NarrativeCategory;
+    keywords: string[];         // distinctive snake_case prefixes, matched at a word start
+    names: string[];            // generic words, matched only as the whole instruction name
+}
+
+export interface DeployedProgram {
+    programId: string;
+    event: DeployEvent;         // 'deploy' wins if both were seen in the window
+    firstSeen: number;          // ms
+    lastSeen: number;           // ms
+    idlName: string | null;
+    instructions: string[];
+    kind: string | null;        // null = unclassified
+    category: NarrativeCategory;
+}
+
+/** A successful loader transaction waiting for a getTransaction */
+interface DeployCandidate {
+    signature: string;
+    slot: number;
+    blockTime: number | null;
+    slotLoad: number;           // loader transactions in the same slot
+}
+
+interface ProgramRegistry {
+    /** Newest loader signature already scanned; the next scan stops there */
+    cursor: string | null;
+    /** Scanned candidates not looked up yet, quietest slot first */
+    pending?: DeployCandidate[];
+    /** Last time loader activity was skipped unexamined (ms) */
+    sampledAt?: number | null;
+    programs: Record<string, DeployedProgram>;
+}
+
+// ── Config ───────────────────────────────────────────────────
+
+const BPF_LOADER = 'BPFLoaderUpgradeab1e11111111111111111111111';
+const REGISTRY_FILE = path.join(process.cwd(), 'data', 'new-programs.json');
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const SIGNATURE_PAGE_SIZE = 1000;
+const MAX_SIGNATURE_PAGES = 3;
+const MAX_TX_LOOKUPS = 100;         // per run
+const MAX_PENDING_CANDIDATES = 1000; // carried between runs
+const TX_BATCH_SIZE = 25;
+const IDL_BATCH_SIZE = 100;         // getMultipleAccounts limit
+
+// Checked in order; the kind with the most matching instructions wins.
+// Generic words (buy, like, post, pay…) show up in unrelated programs
+// as parts of longer names, so they only count as a whole name.
+export const PROGRAM_KINDS: ProgramKind[] = [
+    { kind: 'lending', label: 'lending-like', category: 'DeFi', keywords: ['borrow', 'repay', 'liquidat', 'obligation', 'flash_loan'], names: ['lend', 'withdraw_collateral', 'deposit_collateral'] },
+    { kind: 'perps', label: 'perps-like', category: 'DeFi', keywords: ['open_position', 'close_position', 'increase_position', 'decrease_position', 'perp', 'funding_rate', 'add_margin', 'remove_margin'], names: ['margin', 'funding'] },
+    { kind: 'dex', label: 'DEX-like', category: 'DeFi', keywords: ['swap', 'add_liquidity', 'remove_liquidity', 'place_order', 'cancel_order', 'create_pool', 'initialize_pool', 'amm'], names: [] },
+    { kind: 'staking', label: 'staking', category: 'DeFi', keywords: ['stake', 'unstake', 'claim_reward', 'harvest'], names: ['delegate'] },
+    { kind: 'launchpad', label: 'token-launch', category: 'Memecoins', keywords: ['bonding_curve'], names: ['buy', 'sell', 'launch', 'migrate', 'create_token'] },
+    { kind: 'nft', label: 'NFT', category: 'NFTs', keywords: ['mint_nft', 'collection', 'candy', 'royalt', 'list_nft', 'buy_nft'], names: ['edition'] },
+    { kind: 'governance', label: 'governance', category: 'Other', keywords: ['cast_vote', 'proposal', 'create_proposal', 'execute_proposal'], names: ['vote', 'dao'] },
+    { kind: 'gaming', label: 'gaming', category: 'Gaming', keywords: ['battle', 'quest', 'level_up', 'craft', 'raffle'], names: ['game', 'player', 'bet', 'spin'] },
+    { kind: 'payments', label: 'payments', category: 'Payments', keywords: ['invoice', 'subscription', 'escrow', 'payroll'], names: ['pay', 'stream', 'tip'] },
+    { kind: 'depin', label: 'DePIN', category: 'DePIN', keywords: ['hotspot', 'sensor', 'bandwidth', 'register_node'], names: ['device', 'coverage'] },
+    { kind: 'social', label: 'social', category: 'Social', keywords: ['follow', 'comment'], names: ['post', 'profile', 'like', 'message'] },
+    { kind: 'ai', label: 'AI-agent', category: 'AI & ML', keywords: ['inference', 'prompt', 'submit_task'], names: ['agent', 'model'] },
+    { kind: 'rwa', label: 'RWA', category: 'RWA', keywords: ['kyc', 'investor', 'tranche', 'coupon', 'redeem_asset', 'asset_token'], names: [] },
+    { kind: 'privacy', label: 'privacy', category: 'Privacy', keywords: ['shield', 'unshield', 'nullifier', 'private_transfer'], names: ['commitment'] },
+];
+
+// A single matching instruction is too weak to name a program's kind
+const MIN_KIND_MATCHES = 2;
+
+// ── Registry persistence ─────────────────────────────────────
+
+let memoryRegistry: ProgramRegistry = { cursor: null, programs: {} };
+
+async function loadRegistry(): Promise<ProgramRegistry> {
+    try {
+        memoryRegistry = JSON.parse(await fs.readFile(REGISTRY_FILE, 'utf-8')) as ProgramRegistry;
+    } catch {
+        // Missing or unreadable — keep the in-memory copy
+    }
+    return memoryRegistry;
+}
+
+async function saveRegistry(registry: ProgramRegistry): Promise<void> {
+    const horizon = Date.now() - RETENTION_MS;
+    registry.programs = Object.fromEntries(
+        Object.entries(registry.programs).filter(([, p]) => p.lastSeen >= horizon),
+    );
+    memoryRegistry = registry;
+
+    try {
+        await fs.mkdir(path.dirname(REGISTRY_FILE), { recursive: true });
+        // Write to a temp file first, then rename for atomicity
+        const tmp = `${REGISTRY_FILE}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(registry, null, 2), 'utf-8');
+        await fs.rename(tmp, REGISTRY_FILE);
+    } catch (err) {
+        // Best-effort — read-only FS or permission issues are non-fatal
+        console.warn('Program registry: disk persist failed (non-fatal):', err);
+    }
+}
+
+// ── 1. Loader scan ───────────────────────────────────────────
+
+/**
+ * Loader signatures newer than `cursor`, newest first. `complete` is
+ * false when the page limit stopped the scan before the cursor.
+ */
+async function scanLoaderSignatures(cursor: string | null): Promise<{ sigs: SignatureInfo[]; complete: boolean }> {
+    const sigs: SignatureInfo[] = [];
+    let before: string | undefined;
+
+    for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+        const batch: SignatureInfo[] = await rpc('getSignaturesForAddress', [
+            BPF_LOADER,
+            { limit: SIGNATURE_PAGE_SIZE, ...(before && { before }), ...(cursor && { until: cursor }) },
+        ]) || [];
+        sigs.push(...batch);
+        if (batch.length < SIGNATURE_PAGE_SIZE) return { sigs, complete: cursor !== null };
+        before = batch[batch.length - 1].signature;
+    }
+    return { sigs, complete: false };
+}
+
+function toCandidates(sigs: SignatureInfo[]): DeployCandidate[] {
+    const perSlot = new Map<number, number>();
+    for (const s of sigs) perSlot.set(s.slot, (perSlot.get(s.slot) || 0) + 1);
+
+    return sigs
+        .filter(s => s.err === null)
+        .map(s => ({ signature: s.signature, slot: s.slot, blockTime: s.blockTime, slotLoad: perSlot.get(s.slot)! }));
+}
+
+/**
+ * Order candidates by how likely a getTransaction finds a deploy. Buffer
+ * writes land dozens per slot while a deploy or upgrade usually sits
+ * alone in its slot, so the quietest slots go first.
+ */
+function rankDeployCandidates(candidates: DeployCandidate[]): DeployCandidate[] {
+    return candidates
+        .map((c, i) => ({ c, i }))
+        .sort((a, b) => (a.c.slotLoad - b.c.slotLoad) || a.i - b.i)
+        .map(({ c }) => c);
+}
+
+/**
+ * Program ids deployed or upgraded by a transaction, including loader
+ * calls made through CPI (e.g. multisig-controlled upgrades).
+ */
+export function extractDeployments(tx: ParsedTransaction): { programId: string; event: DeployEvent }[] {
+    if (tx.meta?.err) return [];
+    const instructions = [
+        ...tx.transaction.message.instructions,
+        ...(tx.meta?.innerInstructions || []).flatMap(inner => inner.instructions),
+    ];
+
+    const found: { programId: string; event: DeployEvent }[] = [];
+    for (const ix of instructions) {
+        if (ix.programId !== BPF_LOADER) continue;
+        const programId = ix.parsed?.info?.programAccount;
+        if (!programId) continue;
+        if (ix.parsed?.type === 'deployWithMaxDataLen') found.push({ programId, event: 'deploy' });
+        else if (ix.parsed?.type === 'upgrade') found.push({ programId, event: 'upgrade' });
+    }
+    return found;
+}
+
+async function resolveDeployments(candidates: DeployCandidate[]): Promise<{ programId: string; event: DeployEvent; at: number }[]> {
+    const deployments: { programId: string; event: DeployEvent; at: number }[] = [];
+    for (let i = 0; i < candidates.length; i += TX_BATCH_SIZE) {
+        const batch = candidates.slice(i, i + TX_BATCH_SIZE);
+        const txs = await rpcBatch(batch.map(s => ({
+            method: 'getTransaction',
+            params: [s.signature, { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 }],
+        })));
+        txs.forEach((tx, j) => {
+            if (!tx) return;
+            const at = (batch[j].blockTime ?? Date.now() / 1000) * 1000;
+            for (const d of extractDeployments(tx as ParsedTransaction)) deployments.push({ ...d, at });
+        });
+    }
+    return deployments;
+}
+
+// ── 2. Anchor IDL ────────────────────────────────────────────
+// Legacy Anchor IDL account at createWithSeed(PDA([], program),
+// "anchor:idl", program): 8-byte discriminator, 32-byte authority,
+// u32 length, then zlib-deflated IDL JSON.
+
+const IDL_ACCOUNT_DISCRIMINATOR = createHash('sha256').update('account:IdlAccount').digest().subarray(0, 8);
+
+export async function idlAddress(programId: string): Promise<string> {
+    const program = new PublicKey(programId);
+    const [base] = PublicKey.findProgramAddressSync([], program);
+    return (await PublicKey.createWithSeed(base, 'anchor:idl', program)).toBase58();
+}
+
+/**
+ * Decode an IDL account into its name and instruction names; null if
+ * the data isn't an Anchor IDL account.
+ */
+export function decodeIdlAccount(data: Buffer): { name: string | null; instructions: string[] } | null {
+    if (data.length < 44 || !data.subarray(0, 8).equals(IDL_ACCOUNT_DISCRIMINATOR)) return null;
+    const length = data.readUInt32LE(40);
+    try {
+        const idl = JSON.parse(inflateSync(data.subarray(44, 44 + length)).toString('utf-8')) as {
+            name?: string;
+            metadata?: { name?: string };
+            instructions?: { name?: string }[];
+        };
+        return {
+            name: idl.metadata?.name || idl.name || null,
+            instructions: (idl.instructions || []).map(ix => ix.name).filter((n): n is string => !!n),
+        };
+    } catch {
+        return null;
+    }
+}
+
+async function fetchIdls(programIds: string[]): Promise<Map<string, { name: string | null; instructions: string[] }>> {
+    const idls = new Map<string, { name: string | null; instructions: string[] }>();
+    const addresses = await Promise.all(programIds.map(id => idlAddress(id).catch(() => null)));
+
+    for (let i = 0; i < programIds.length; i += IDL_BATCH_SIZE) {
+        const ids = programIds.slice(i, i + IDL_BATCH_SIZE);
+        const addrs = addresses.slice(i, i + IDL_BATCH_SIZE);
+        const lookup = addrs.filter((a): a is string => a !== null);
+        if (lookup.length === 0) continue;
+
+        const res = await rpc('getMultipleAccounts', [lookup, { encoding: 'base64' }]);
+        const accounts: ({ data: [string, string] } | null)[] = res?.value || [];
+        const byAddress = new Map(lookup.map((a, j) => [a, accounts[j]]));
+
+        ids.forEach((id, j) => {
+            const account = addrs[j] ? byAddress.get(addrs[j]!) : null;
+            if (!account) return;
+            const idl = decodeIdlAccount(Buffer.from(account.data[0], 'base64'));
+            if (idl) idls.set(id, idl);
+        });
+    }
+    return idls;
+}
+
+// ── 3. Classification ────────────────────────────────────────
+
+function snakeCase(name: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * Best-matching kind for a set of instruction names, or null when no
+ * kind has MIN_KIND_MATCHES instructions. A keyword matches the start
+ * of a word, so "borrow" hits borrow_obligation_liquidity; a generic
+ * name must be the whole instruction, so "buy" hits buy but not
+ * buy_ticket.
+ */
+export function classifyInstructions(instructions: string[]): ProgramKind | null {
+    const names = instructions.map(n => snakeCase(n));
+    let best: ProgramKind | null = null;
+    let bestScore = MIN_KIND_MATCHES - 1;
+
+    for (const kind of PROGRAM_KINDS) {
+        const score = names.filter(n =>
+            kind.names.includes(n) || kind.keywords.some(k => `_${n}`.includes(`_${k}`)),
+        ).length;
+        if (score > bestScore) {
+            best = kind;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+// ── 4. Signals ───────────────────────────────────────────────
+
+function programSignals(programs: DeployedProgram[], sampled: boolean): Signal[] {
+    const now = new Date().toISOString();
+    const sampledNote = sampled ? ' [sampled: not every loader transaction was examined]' : '';
+    const groups = new Map<string, DeployedProgram[]>();
+    for (const p of programs) {
+        const key = p.kind || 'unclassified';
+        groups.set(key, [...(groups.get(key) || []), p]);
+    }
+
+    const signals: Signal[] = [];
+    for (const [key, group] of groups) {
+        const kind = PROGRAM_KINDS.find(k => k.kind === key);
+        const deployed = group.filter(p => p.event === 'deploy').length;
+        const upgraded = group.length - deployed;
+        const names = group.map(p => p.idlName).filter((n): n is string => !!n);
+        const counts = [
+            deployed > 0 ? `${deployed} new` : '',
+            upgraded > 0 ? `${upgraded} upgraded` : '',
+        ].filter(Boolean).join(', ');
+
+        let description = kind
+            ? `🚀 ${counts} ${kind.label} program${group.length > 1 ? 's' : ''} this week (${kind.category})${names.length ? ` — ${names.slice(0, 4).join(', ')}` : ''}`
+            : `${counts} other program${group.length > 1 ? 's' : ''} this week (no Anchor IDL or no recognisable instructions)`;
+        description += sampledNote;
+
+        signals.push({
+            id: `onchain-new-programs-${key}`,
+            source: 'onchain',
+            category: 'New Programs',
+            metric: 'programs_7d',
+            value: group.length,
+            delta: 0,
+            description,
+            relatedTokens: ['SOL'],
+            relatedProjects: names.slice(0, 5),
+            timestamp: now,
+            strength: kind
+                ? Math.min(85, 45 + deployed * 8 + upgraded * 3)
+                : Math.min(60, 30 + group.length * 2),
+            sourceUrl: group.length === 1
+                ? `https://explorer.solana.com/address/${group[0].programId}`
+                : 'https://explorer.solana.com',
+        });
+    }
+    return signals;
+}
+
+// ── Main entry ───────────────────────────────────────────────
+
+/**
+ * Resolve programs deployed or upgraded since the last run, classify
+ * them by IDL and report the past week grouped by kind.
+ */
+export async function collectNewPrograms(): Promise<Signal[]> {
+    try {
+        const registry = await loadRegistry();
+        const { sigs, complete } = await scanLoaderSignatures(registry.cursor);
+
+        // Candidates carried from earlier runs (older, so first on ties) plus new ones
+        const byId = new Map<string, DeployCandidate>();
+        for (const c of [...(registry.pending || []), ...toCandidates(sigs)]) {
+            if (!byId.has(c.signature)) byId.set(c.signature, c);
+        }
+        const queue = rankDeployCandidates([...byId.values()]);
+        const lookups = queue.slice(0, MAX_TX_LOOKUPS);
+
+        const horizon = (Date.now() - RETENTION_MS) / 1000;
+        const carried = queue.slice(MAX_TX_LOOKUPS).filter(c => (c.blockTime ?? Infinity) >= horizon);
+        registry.pending = carried.slice(0, MAX_PENDING_CANDIDATES);
+        if (!complete || carried.length > MAX_PENDING_CANDIDATES) registry.sampledAt = Date.now();
+
+        const deployments = await resolveDeployments(lookups);
+
+        const touched = new Set<string>();
+        for (const d of deployments) {
+            const existing = registry.programs[d.programId];
+            registry.programs[d.programId] = {
+                programId: d.programId,
+                event: existing?.event === 'deploy' || d.event === 'deploy' ? 'deploy' : 'upgrade',
+                firstSeen: Math.min(existing?.firstSeen ?? d.at, d.at),
+                lastSeen: Math.max(existing?.lastSeen ?? d.at, d.at),
+                idlName: existing?.idlName ?? null,
+                instructions: existing?.instructions ?? [],
+                kind: existing?.kind ?? null,
+                category: existing?.category ?? 'Other',
+            };
+            touched.add(d.programId);
+        }
+
+        // (Re-)read IDLs of programs seen this run — an upgrade may ship a new one
+        if (touched.size > 0) {
+            try {
+                const idls = await fetchIdls([...touched]);
+                for (const [programId, idl] of idls) {
+                    const kind = classifyInstructions(idl.instructions);
+                    Object.assign(registry.programs[programId], {
+                        idlName: idl.name,
+                        instructions: idl.instructions,
+                        kind: kind?.kind ?? null,
+                        category: kind?.category ?? 'Other',
+                    });
+                }
+            } catch (err) {
+                console.error('IDL fetch error:', err);
+            }
+            console.log(`🚀 New programs: ${touched.size} deployed/upgraded since last scan`);
+        }
+
+        // Every scanned candidate was looked up or carried in `pending`
+        if (sigs.length > 0) registry.cursor = sigs[0].signature;
+        await saveRegistry(registry);
+
+        const sampled = !!registry.sampledAt && Date.now() - registry.sampledAt < RETENTION_MS;
+        if (registry.pending.length > 0) console.log(`🚀 New programs: ${registry.pending.length} loader transactions carried to the next scan`);
+        return programSignals(Object.values(registry.programs), sampled);
+    } catch (err) {
+        console.error('New programs error:', err);
+        return [];
+    }
+}
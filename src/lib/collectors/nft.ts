@@ -5,6 +5,7 @@
 // to track trending collections, volume, and floor prices.
 
 import { Signal, CollectorResult } from '@/lib/types';
+import { httpFetch } from '@/lib/http';
 
 const ME_API = 'https://api-mainnet.magiceden.dev/v2';
 
@@ -24,9 +25,8 @@ async function getTrendingCollections(): Promise<Signal[]> {
     const now = new Date().toISOString();
 
     try {
-        const res = await fetch(`${ME_API}/marketplace/popular_collections?timeRange=1d&limit=10`, {
+        const res = await httpFetch(`${ME_API}/marketplace/popular_collections?timeRange=1d&limit=10`, {
             headers: { 'Accept': 'application/json' },
-            signal: AbortSignal.timeout(10000),
         });
 
         if (!res.ok) throw new Error(`Magic Eden popular: ${res.status}`);
@@ -82,9 +82,9 @@ async function getCollectionStats(): Promise<Signal[]> {
 
     for (const col of TOP_COLLECTIONS) {
         try {
-            const res = await fetch(`${ME_API}/collections/${col.symbol}/stats`, {
+            const res = await httpFetch(`${ME_API}/collections/${col.symbol}/stats`, {
                 headers: { 'Accept': 'application/json' },
-                signal: AbortSignal.timeout(5000),
+                timeoutMs: 5000,
             });
 
             if (!res.ok) continue;
@@ -6,69 +6,19 @@
 
 import { Signal, CollectorResult } from '@/lib/types';
 import { getCached, setCache } from '@/lib/cache';
+import { getSignalBaseline, baselineDelta, baselineZScore, ANOMALY_Z } from '@/lib/baselines';
+import { getWatchlists, WatchedToken, WatchedWhale } from '@/lib/watchlists';
+import { rpc, hasHeliusKey } from './helius';
+import { collectProgramAnalytics } from './program-analytics';
+import { collectNewPrograms } from './new-programs';
 
-const HELIUS_API_KEY = process.env.HELIUS_API_KEY || '';
-const HELIUS_RPC = `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`;
-
-// ── RPC helper ───────────────────────────────────────────────
-async function rpc(method: string, params: any[] = []): Promise<any> {
-    const res = await fetch(HELIUS_RPC, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
-    });
-    if (!res.ok) throw new Error(`Helius RPC error: ${res.status}`);
-    const json = await res.json();
-    if (json.error) throw new Error(`RPC: ${json.error.message}`);
-    return json.result;
-}
-
-// ── Monitored addresses ──────────────────────────────────────
-const PROGRAMS = [
-    { name: 'Jupiter v6', address: 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4', cat: 'DeFi' },
-    { name: 'Raydium AMM', address: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8', cat: 'DeFi' },
-    { name: 'Orca Whirlpool', address: 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc', cat: 'DeFi' },
-    { name: 'Marinade', address: 'MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD', cat: 'Staking' },
-    { name: 'Drift Protocol', address: 'dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH', cat: 'DeFi' },
-    { name: 'Tensor', address: 'TSWAPaqyCSx2KABk68Shruf4rp7CxcNi8hAsbdwmHbN', cat: 'NFT' },
-    { name: 'Metaplex Core', address: 'CoREENxT6tW1HoK8ypY1SxRMZTcVPm7R94rH4PZNhX7d', cat: 'NFT' },
-    { name: 'Jito Tip', address: 'T1pyyaTNZsKv2WcRAB8oVnk93mLJw2XzjtVYqCsaHqt', cat: 'MEV' },
-    { name: 'Pyth Oracle', address: 'FsJ3A3u2vn5cTVofAjvy6y5kwABJAqYWpe4975bi2epH', cat: 'Infra' },
-    { name: 'Sanctum Router', address: 'sRouteGWUhqfFY8WoYMxHhGWReTMFcRC3o5LEqvSqf8', cat: 'Staking' },
-];
-
-const WHALES = [
-    // CEX wallets — track exchange inflows/outflows
-    { label: 'Binance Hot Wallet', address: '5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9', type: 'cex' },
-    { label: 'Coinbase Prime', address: 'GJRs4FwHtemZ5ZE9x3FNvJ8TMwitKTh21yxdRPqn7npE', type: 'cex' },
-    { label: 'Kraken', address: '2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm', type: 'cex' },
-    { label: 'OKX', address: '5VCwKtCXgCJ6kit5FybXjvriW3xELsFDhYrPSqtJNmcD', type: 'cex' },
-    { label: 'Bybit', address: 'AC5RDfQFmDS1deWZos921JfqscXdByf8BKHs5ACWjtW2', type: 'cex' },
-    // Market makers — track smart money positioning
-    { label: 'Jump Trading', address: 'jUPMchCHN8zVEm14TGrJXgrMa4bNEBEeREaKkBJvipF', type: 'mm' },
-    { label: 'Wintermute', address: 'CMS4BFbVgiSsPcV4JBmfcKUYVQVhJJFSQ7p8dXksJzQF', type: 'mm' },
-    // Ecosystem / Foundation
-    { label: 'Solana Foundation', address: 'GK2zqSsXLA2rwVZk347RYhh6jJXRsAkGMFSi7GDDsHTy', type: 'eco' },
-    // VCs
-    { label: 'Galaxy Digital', address: 'HUoZj36B4JStFmJp1BUi6BqSrpWWsn6n36v6EbQTueCx', type: 'vc' },
-    { label: 'Multicoin Capital', address: '4vJfp62jor7ReMxLYLAErqVoWJrsfYoFpvFJ3r4Jh6cD', type: 'vc' },
-    { label: 'Paradigm', address: '9kMFe8EPPdGREuqD74MPBXpT5Js2zSPNV3xBmdKL6xyJ', type: 'vc' },
-    { label: 'a16z', address: '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM', type: 'vc' },
-] as const;
-
-// Major SPL tokens to track on whale wallets
-const TRACKED_TOKENS = [
-    { symbol: 'USDC', mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' },
-    { symbol: 'JUP', mint: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN' },
-    { symbol: 'JTO', mint: 'jtojtomepa8beP8AuQc6eXt5FriJwfFMwQx2v2f9mCL' },
-    { symbol: 'BONK', mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263' },
-    { symbol: 'jitoSOL', mint: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn' },
-];
+// Monitored programs, whale wallets and SPL tokens come from the watchlists
+// (src/lib/watchlists.ts), re-read on every run.
 
 const WHALE_CACHE_KEY = 'whale-balances';
 
-const BPF_LOADER = 'BPFLoaderUpgradeab1e11111111111111111111111';
-const BASELINE_TPS = 2800;
+// Used only until enough TPS history has been recorded for a real baseline
+const COLD_START_BASELINE_TPS = 2800;
 
 // ── 1. TPS + usage spike detection ───────────────────────────
 async function getTpsAndSpikes(): Promise<Signal[]> {
@@ -81,13 +31,20 @@ async function getTpsAndSpikes(): Promise<Signal[]> {
         const tps = samples.map((s: any) => s.numTransactions / s.samplePeriodSecs);
         const current = tps[0];
         const avg = tps.reduce((a: number, b: number) => a + b, 0) / tps.length;
-        const spike = ((current - BASELINE_TPS) / BASELINE_TPS) * 100;
-        const isSpike = spike > 25;
+
+        // Spike = unusual for *this* network's recent history, not a fixed number
+        const baseline = await getSignalBaseline('onchain-tps', 'tps').catch(() => null);
+        const zScore = baselineZScore(current, baseline);
+        const baselineTps = zScore !== null && baseline ? baseline.mean : COLD_START_BASELINE_TPS;
+        const spike = zScore !== null
+            ? baselineDelta(current, baseline, 'mean') ?? 0
+            : ((current - COLD_START_BASELINE_TPS) / COLD_START_BASELINE_TPS) * 100;
+        const isSpike = zScore !== null ? zScore >= ANOMALY_Z : spike > 25;
 
         signals.push({
             id: 'onchain-tps', source: 'onchain', category: 'Network Activity',
             metric: 'tps', value: Math.round(current), delta: parseFloat(spike.toFixed(1)),
-            description: `Solana TPS: ${Math.round(current).toLocaleString()}${isSpike ? ' 🔥 SPIKE' : ''} (avg: ${Math.round(avg).toLocaleString()}, baseline: ${BASELINE_TPS})`,
+            description: `Solana TPS: ${Math.round(current).toLocaleString()}${isSpike ? ' 🔥 SPIKE' : ''} (avg: ${Math.round(avg).toLocaleString()}, ${zScore !== null ? '7d baseline' : 'baseline'}: ${Math.round(baselineTps).toLocaleString()})`,
             relatedTokens: ['SOL'], relatedProjects: ['solana'], timestamp: now,
             strength: isSpike ? 85 : current > 3000 ? 60 : 40,
             sourceUrl: 'https://explorer.solana.com',
@@ -108,74 +65,15 @@ async function getTpsAndSpikes(): Promise<Signal[]> {
     return signals;
 }
 
-// ── 2. Program activity ──────────────────────────────────────
-async function getProgramActivity(): Promise<Signal[]> {
-    const signals: Signal[] = [];
-    const now = new Date().toISOString();
+// ── 2. Program activity — tx rate, success rate, fee payers, share ──
+// Lives in program-analytics.ts
 
-    for (const p of PROGRAMS) {
-        try {
-            const sigs = await rpc('getSignaturesForAddress', [p.address, { limit: 10 }]);
-            if (!sigs?.length) continue;
-
-            const age = sigs[0].blockTime ? (Date.now() / 1000 - sigs[0].blockTime) / 60 : null;
-            const active = age !== null && age < 5;
-            const errors = sigs.filter((s: any) => s.err !== null).length;
-            const errRate = (errors / sigs.length) * 100;
-
-            signals.push({
-                id: `onchain-prog-${p.name.toLowerCase().replace(/\s+/g, '-')}`,
-                source: 'onchain', category: 'Program Activity', metric: 'recent_txs',
-                value: sigs.length, delta: -errRate,
-                description: `${p.name} [${p.cat}] — ${sigs.length} txs${active ? ' (live!)' : ''}${age !== null ? ` • ${age.toFixed(0)}m ago` : ''}${errRate > 20 ? ` ⚠️ ${errRate.toFixed(0)}% errors` : ''}`,
-                relatedTokens: [], relatedProjects: [p.name], timestamp: now,
-                strength: active ? 75 : sigs.length >= 10 ? 60 : 40,
-                sourceUrl: `https://explorer.solana.com/address/${p.address}`,
-            });
-        } catch (err) { console.error(`${p.name} error:`, err); }
-        await new Promise(r => setTimeout(r, 80));
-    }
-    return signals;
-}
-
-// ── 3. New program deployments ───────────────────────────────
-async function detectNewPrograms(): Promise<Signal[]> {
-    const signals: Signal[] = [];
-    const now = new Date().toISOString();
-    try {
-        const deploys = await rpc('getSignaturesForAddress', [BPF_LOADER, { limit: 20 }]);
-        if (!deploys?.length) return signals;
-
-        const nowSec = Date.now() / 1000;
-        const last1h = deploys.filter((s: any) => s.blockTime && (nowSec - s.blockTime) < 3600).length;
-        const last24h = deploys.filter((s: any) => s.blockTime && (nowSec - s.blockTime) < 86400).length;
-
-        if (last1h > 0) {
-            signals.push({
-                id: 'onchain-new-programs-1h', source: 'onchain', category: 'New Programs',
-                metric: 'deployed_1h', value: last1h, delta: 0,
-                description: `🚀 ${last1h} new program${last1h > 1 ? 's' : ''} deployed in the last hour — builders are shipping!`,
-                relatedTokens: ['SOL'], relatedProjects: [], timestamp: now,
-                strength: Math.min(90, 50 + last1h * 10),
-                sourceUrl: 'https://explorer.solana.com',
-            });
-        }
-        if (last24h > 0) {
-            signals.push({
-                id: 'onchain-new-programs-24h', source: 'onchain', category: 'New Programs',
-                metric: 'deployed_24h', value: last24h, delta: 0,
-                description: `${last24h} new programs deployed in last 24h — development activity trend`,
-                relatedTokens: ['SOL'], relatedProjects: [], timestamp: now,
-                strength: Math.min(85, 40 + last24h * 5),
-                sourceUrl: 'https://explorer.solana.com',
-            });
-        }
-    } catch (err) { console.error('New programs error:', err); }
-    return signals;
-}
+// ── 3. New program deployments — resolved and classified by IDL ──
+// Lives in new-programs.ts
 
-// ── 4. Whale wallet monitoring (with balance deltas + enhanced txs) ──
-async function monitorWhales(): Promise<Signal[]> {
+// ── 4. Whale wallet monitoring (SOL + SPL balances) ─────────
+// Net flows and recent whale txs live in whale-flows.ts (own collector)
+async function monitorWhales(whales: WatchedWhale[], tokens: WatchedToken[]): Promise<Signal[]> {
     const signals: Signal[] = [];
     const now = new Date().toISOString();
 
@@ -183,7 +81,7 @@ async function monitorWhales(): Promise<Signal[]> {
     const prevBalances = getCached<Record<string, number>>(WHALE_CACHE_KEY) || {};
     const newBalances: Record<string, number> = {};
 
-    for (const w of WHALES) {
+    for (const w of whales) {
         const slug = w.label.toLowerCase().replace(/\s+/g, '-');
         try {
             // 4a. SOL balance with delta tracking
@@ -219,65 +117,8 @@ async function monitorWhales(): Promise<Signal[]> {
                 });
             }
 
-            // 4b. Enhanced transaction parsing via Helius
-            try {
-                const txRes = await fetch(
-                    `https://api.helius.xyz/v0/addresses/${w.address}/transactions?api-key=${HELIUS_API_KEY}&limit=3`,
-                    { signal: AbortSignal.timeout(8000) }
-                );
-                if (txRes.ok) {
-                    const txs: any[] = await txRes.json();
-                    const recentTxs = txs.filter((tx: any) => {
-                        const ageSec = tx.timestamp ? (Date.now() / 1000 - tx.timestamp) : Infinity;
-                        return ageSec < 3600; // last hour
-                    });
-
-                    for (const tx of recentTxs.slice(0, 2)) {
-                        const type = tx.type || 'UNKNOWN';
-                        const desc = tx.description || '';
-                        const ageMins = tx.timestamp
-                            ? Math.round((Date.now() / 1000 - tx.timestamp) / 60)
-                            : null;
-                        const ageLabel = ageMins !== null ? `${ageMins}m ago` : '';
-
-                        // Extract token transfers
-                        const transfers = tx.tokenTransfers || [];
-                        const nativeTransfers = tx.nativeTransfers || [];
-                        const solMoved = nativeTransfers.reduce(
-                            (sum: number, t: any) => sum + Math.abs(t.amount || 0) / 1e9, 0
-                        );
-
-                        let txDesc = `🐋 ${w.label}: ${type}`;
-                        if (desc) txDesc += ` — ${desc.slice(0, 100)}`;
-                        else if (solMoved > 100) txDesc += ` — moved ${solMoved.toLocaleString(undefined, { maximumFractionDigits: 0 })} SOL`;
-                        if (ageLabel) txDesc += ` (${ageLabel})`;
-
-                        const txTokens = transfers
-                            .map((t: any) => t.tokenStandard === 'Fungible' ? t.mint : null)
-                            .filter(Boolean)
-                            .slice(0, 3);
-
-                        signals.push({
-                            id: `onchain-whale-tx-${slug}-${tx.signature?.slice(0, 8) || signals.length}`,
-                            source: 'onchain',
-                            category: 'Whale Movement',
-                            metric: 'enhanced_tx',
-                            value: Math.round(solMoved),
-                            delta: 0,
-                            description: txDesc,
-                            relatedTokens: txTokens.length > 0 ? txTokens : ['SOL'],
-                            relatedProjects: [],
-                            timestamp: tx.timestamp ? new Date(tx.timestamp * 1000).toISOString() : now,
-                            strength: solMoved > 10000 ? 90 : solMoved > 1000 ? 75 : 60,
-                            sourceUrl: `https://explorer.solana.com/tx/${tx.signature}`,
-                            fullText: desc || undefined,
-                        });
-                    }
-                }
-            } catch (err) { /* Enhanced tx API failed — non-critical */ }
-
-            // 4c. SPL token holdings
-            for (const token of TRACKED_TOKENS) {
+            // 4b. SPL token holdings
+            for (const token of tokens) {
                 try {
                     const tokenAccounts = await rpc('getTokenAccountsByOwner', [
                         w.address,
@@ -476,15 +317,19 @@ async function getSupplyMetrics(): Promise<Signal[]> {
 // ── Main collector ───────────────────────────────────────────
 export async function collectOnChainSignals(): Promise<CollectorResult<Signal[]>> {
     const collectedAt = new Date().toISOString();
-    if (!HELIUS_API_KEY) {
+    if (!hasHeliusKey()) {
         return { data: [], source: 'helius', collectedAt, error: 'No Helius API key' };
     }
 
+    const { programs, whales, tokens } = await getWatchlists();
+    // Only tokens with a mint can be looked up in whale wallets
+    const splTokens = tokens.filter((t): t is WatchedToken & { mint: string } => !!t.mint);
+
     const results = await Promise.allSettled([
         getTpsAndSpikes(),
-        getProgramActivity(),
-        detectNewPrograms(),
-        monitorWhales(),
+        collectProgramAnalytics(programs),
+        collectNewPrograms(),
+        monitorWhales(whales, splTokens),
         getNetworkHealth(),
         getStakeDistribution(),
         getSupplyMetrics(),
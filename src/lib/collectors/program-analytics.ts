@@ -0,0 +1,328 @@
+// ============================================================
+// Solana Narrative Pulse — Program Usage Analytics
+// ============================================================
+// Measures load on each watched program instead of eyeballing its
+// last few signatures. Per program, signatures are paged back over
+// a fixed 10-minute window (plus the window before it) and turned
+// into separate metrics:
+//
+//   tx_per_min         — transactions per minute in the window
+//   success_rate       — % of those that didn't fail
+//   tx_growth          — window-over-window change in tx/min
+//   unique_fee_payers  — distinct payers in the last 100 parsed txs
+//   category_share     — share of tx/min among programs of the same
+//                        category (e.g. Jupiter vs Raydium in DeFi)
+//
+// Busy programs exceed the signature page cap before the window is
+// covered; their rate is then extrapolated from the sampled span
+// and marked "est.", and growth compares the newer half of that span
+// with the older half — the window is sized from the signature rate.
+
+import { Signal } from '@/lib/types';
+import { getSignalBaseline } from '@/lib/baselines';
+import type { WatchedProgram } from '@/lib/watchlists';
+import { rpc, fetchEnhancedTxs } from './helius';
+
+// ── Types ────────────────────────────────────────────────────
+
+interface SignatureInfo {
+    signature: string;
+    blockTime: number | null;
+    err: unknown;
+}
+
+export interface ProgramUsage {
+    program: WatchedProgram;
+    /** Signatures sampled across both windows */
+    sampled: number;
+    txPerMin: number;
+    /** True when the rate was extrapolated from less than a full window */
+    estimated: boolean;
+    /** % of current-window transactions without an error */
+    successRate: number | null;
+    failed: number;
+    /** Window-over-window tx/min, null when the sample is too thin to split */
+    comparison: {
+        windowSec: number;
+        previousTxPerMin: number;
+        currentTxPerMin: number;
+    } | null;
+    uniquePayers: number | null;
+    payerSample: number;
+    /** % of sampled transactions paid by the single most active payer */
+    topPayerShare: number | null;
+}
+
+// ── Config ───────────────────────────────────────────────────
+
+const WINDOW_SEC = 10 * 60;
+const SIGNATURE_PAGE_SIZE = 1000;
+const MAX_SIGNATURE_PAGES = 3;
+const PAYER_SAMPLE_SIZE = 100;
+const PROGRAM_BATCH_SIZE = 3;
+// Fewest signatures per half before a sampled-span growth is reported
+const MIN_HALF_SAMPLE = 100;
+
+// ── Sampling ─────────────────────────────────────────────────
+
+async function sampleSignatures(address: string, untilSec: number): Promise<SignatureInfo[]> {
+    const sample: SignatureInfo[] = [];
+    let before: string | undefined;
+
+    for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+        const sigs: SignatureInfo[] = await rpc('getSignaturesForAddress', [
+            address,
+            { limit: SIGNATURE_PAGE_SIZE, ...(before && { before }) },
+        ]) || [];
+        sample.push(...sigs);
+
+        const oldest = sigs[sigs.length - 1];
+        if (sigs.length < SIGNATURE_PAGE_SIZE || !oldest || (oldest.blockTime ?? 0) < untilSec) break;
+        before = oldest.signature;
+    }
+    return sample;
+}
+
+async function samplePayers(address: string): Promise<Pick<ProgramUsage, 'uniquePayers' | 'payerSample' | 'topPayerShare'>> {
+    try {
+        const txs = await fetchEnhancedTxs(address, PAYER_SAMPLE_SIZE);
+        const counts = new Map<string, number>();
+        for (const tx of txs) {
+            if (tx.feePayer) counts.set(tx.feePayer, (counts.get(tx.feePayer) || 0) + 1);
+        }
+        const payerSample = [...counts.values()].reduce((a, b) => a + b, 0);
+        if (payerSample === 0) return { uniquePayers: null, payerSample: 0, topPayerShare: null };
+        return {
+            uniquePayers: counts.size,
+            payerSample,
+            topPayerShare: (Math.max(...counts.values()) / payerSample) * 100,
+        };
+    } catch {
+        // Enhanced API unavailable — payer metrics are skipped
+        return { uniquePayers: null, payerSample: 0, topPayerShare: null };
+    }
+}
+
+/**
+ * Sample one program's recent signatures and fee payers.
+ */
+export async function measureProgramUsage(program: WatchedProgram, nowSec = Math.floor(Date.now() / 1000)): Promise<ProgramUsage> {
+    const windowStart = nowSec - WINDOW_SEC;
+    const previousStart = windowStart - WINDOW_SEC;
+
+    const [sigs, payers] = await Promise.all([
+        sampleSignatures(program.address, previousStart),
+        samplePayers(program.address),
+    ]);
+
+    const timed = sigs.filter((s): s is SignatureInfo & { blockTime: number } => s.blockTime !== null);
+    const oldest = timed.length > 0 ? timed[timed.length - 1].blockTime : nowSec;
+    // A short final page means the program has no older history to miss
+    const exhausted = sigs.length < SIGNATURE_PAGE_SIZE * MAX_SIGNATURE_PAGES;
+    const coversWindow = exhausted || oldest <= windowStart;
+    const coversPrevious = exhausted || oldest <= previousStart;
+
+    const current = timed.filter(s => s.blockTime >= windowStart);
+    let txPerMin: number;
+    let measured: SignatureInfo[];
+    if (coversWindow) {
+        txPerMin = current.length / (WINDOW_SEC / 60);
+        measured = current;
+    } else {
+        txPerMin = timed.length / (Math.max(1, nowSec - oldest) / 60);
+        measured = timed;
+    }
+
+    let comparison: ProgramUsage['comparison'] = null;
+    if (coversPrevious) {
+        comparison = {
+            windowSec: WINDOW_SEC,
+            previousTxPerMin: timed.filter(s => s.blockTime >= previousStart && s.blockTime < windowStart).length / (WINDOW_SEC / 60),
+            currentTxPerMin: txPerMin,
+        };
+    } else if (timed.length >= MIN_HALF_SAMPLE * 2) {
+        // Too busy for two fixed windows: split the sampled span in half
+        const newest = timed[0].blockTime;
+        const halfSec = (newest - oldest) / 2;
+        if (halfSec > 0) {
+            const split = newest - halfSec;
+            const older = timed.filter(s => s.blockTime < split).length;
+            if (older >= MIN_HALF_SAMPLE && timed.length - older >= MIN_HALF_SAMPLE) {
+                comparison = {
+                    windowSec: halfSec,
+                    previousTxPerMin: older / (halfSec / 60),
+                    currentTxPerMin: (timed.length - older) / (halfSec / 60),
+                };
+            }
+        }
+    }
+    const failed = measured.filter(s => s.err !== null && s.err !== undefined).length;
+
+    return {
+        program,
+        sampled: sigs.length,
+        txPerMin,
+        estimated: !coversWindow,
+        successRate: measured.length > 0 ? ((measured.length - failed) / measured.length) * 100 : null,
+        failed,
+        comparison,
+        ...payers,
+    };
+}
+
+// ── Signals ──────────────────────────────────────────────────
+
+function programSlug(program: WatchedProgram): string {
+    return program.name.toLowerCase().replace(/\s+/g, '-');
+}
+
+function round1(n: number): number {
+    return Math.round(n * 10) / 10;
+}
+
+function formatSpan(sec: number): string {
+    return sec >= 60 ? `${Math.round(sec / 60)}m` : `${Math.max(1, Math.round(sec))}s`;
+}
+
+function usageSignals(usage: ProgramUsage, now: string): Signal[] {
+    const { program } = usage;
+    const id = `onchain-prog-${programSlug(program)}`;
+    const base = {
+        source: 'onchain' as const,
+        category: 'Program Activity',
+        relatedTokens: [],
+        relatedProjects: [program.name],
+        timestamp: now,
+        sourceUrl: `https://explorer.solana.com/address/${program.address}`,
+    };
+    const signals: Signal[] = [];
+
+    const { comparison } = usage;
+    const growth = comparison && comparison.previousTxPerMin
+        ? ((comparison.currentTxPerMin - comparison.previousTxPerMin) / comparison.previousTxPerMin) * 100
+        : null;
+    const span = comparison ? formatSpan(comparison.windowSec) : '';
+    const rate = `${round1(usage.txPerMin).toLocaleString()} tx/min${usage.estimated ? ' (est.)' : ''}`;
+
+    signals.push({
+        ...base,
+        id,
+        metric: 'tx_per_min',
+        value: round1(usage.txPerMin),
+        delta: growth !== null ? round1(growth) : 0,
+        description: `${program.name} [${program.cat}] — ${rate}${growth !== null ? ` (${growth >= 0 ? '+' : ''}${growth.toFixed(0)}% vs prev ${span})` : ''}`,
+        strength: Math.round(usage.txPerMin > 0
+            ? Math.min(90, 45 + Math.min(30, Math.log10(usage.txPerMin + 1) * 10) + Math.min(15, Math.abs(growth ?? 0) / 4))
+            : 30),
+    });
+
+    if (growth !== null) {
+        signals.push({
+            ...base,
+            id: `${id}-growth`,
+            metric: 'tx_growth',
+            value: round1(growth),
+            delta: round1(growth),
+            description: `${program.name}: tx rate ${growth >= 0 ? 'up' : 'down'} ${Math.abs(growth).toFixed(0)}% vs previous ${span} (${round1(comparison!.previousTxPerMin)} → ${round1(comparison!.currentTxPerMin)} tx/min)`,
+            strength: Math.round(Math.min(85, 40 + Math.abs(growth) / 2)),
+        });
+    }
+
+    if (usage.successRate !== null) {
+        signals.push({
+            ...base,
+            id: `${id}-success`,
+            metric: 'success_rate',
+            value: round1(usage.successRate),
+            delta: 0,
+            description: `${program.name}: ${usage.successRate.toFixed(1)}% tx success (${usage.failed} failed)${usage.successRate < 80 ? ' ⚠️ elevated failures' : ''}`,
+            strength: Math.round(Math.min(80, 40 + Math.max(0, 80 - usage.successRate) / 2)),
+        });
+    }
+
+    if (usage.uniquePayers !== null && usage.topPayerShare !== null) {
+        const botHeavy = usage.topPayerShare > 30;
+        signals.push({
+            ...base,
+            id: `${id}-payers`,
+            metric: 'unique_fee_payers',
+            value: usage.uniquePayers,
+            delta: 0,
+            description: `${program.name}: ${usage.uniquePayers} unique fee payers in last ${usage.payerSample} txs — top payer ${usage.topPayerShare.toFixed(0)}%${botHeavy ? ' (bot-heavy)' : ''}`,
+            strength: Math.round(40 + (usage.uniquePayers / usage.payerSample) * 25 + (botHeavy ? 10 : 0)),
+        });
+    }
+
+    return signals;
+}
+
+/**
+ * Share of tx/min within each category with 2+ programs, with the
+ * shift since the last recorded share.
+ */
+async function shareSignals(usages: ProgramUsage[], now: string): Promise<Signal[]> {
+    const signals: Signal[] = [];
+    const byCategory = new Map<string, ProgramUsage[]>();
+    for (const u of usages) {
+        byCategory.set(u.program.cat, [...(byCategory.get(u.program.cat) || []), u]);
+    }
+
+    for (const [category, group] of byCategory) {
+        const total = group.reduce((sum, u) => sum + u.txPerMin, 0);
+        if (group.length < 2 || total === 0) continue;
+
+        const peers = [...group]
+            .sort((a, b) => b.txPerMin - a.txPerMin)
+            .map(u => `${u.program.name} ${((u.txPerMin / total) * 100).toFixed(0)}%`)
+            .join(' / ');
+
+        for (const u of group) {
+            const share = (u.txPerMin / total) * 100;
+            const id = `onchain-prog-${programSlug(u.program)}-share`;
+            const previous = (await getSignalBaseline(id, 'category_share').catch(() => null))?.previous ?? null;
+            const shift = previous !== null ? share - previous : null;
+
+            signals.push({
+                id,
+                source: 'onchain',
+                category: 'Program Activity',
+                metric: 'category_share',
+                value: round1(share),
+                delta: 0,
+                description: `${u.program.name}: ${share.toFixed(1)}% of ${category} program tx/min${shift !== null ? ` (${shift >= 0 ? '+' : ''}${shift.toFixed(1)}pp vs last run)` : ''} — ${peers}`,
+                relatedTokens: [],
+                relatedProjects: group.map(g => g.program.name),
+                timestamp: now,
+                strength: Math.round(Math.min(85, 45 + Math.abs(shift ?? 0) * 4)),
+                sourceUrl: `https://explorer.solana.com/address/${u.program.address}`,
+            });
+        }
+    }
+    return signals;
+}
+
+// ── Main entry ───────────────────────────────────────────────
+
+/**
+ * Usage metrics for every watched program, plus category shares.
+ * Programs are sampled a few at a time; one failing doesn't drop the rest.
+ */
+export async function collectProgramAnalytics(programs: WatchedProgram[]): Promise<Signal[]> {
+    const now = new Date().toISOString();
+    const nowSec = Math.floor(Date.now() / 1000);
+    const usages: ProgramUsage[] = [];
+
+    for (let i = 0; i < programs.length; i += PROGRAM_BATCH_SIZE) {
+        const batch = programs.slice(i, i + PROGRAM_BATCH_SIZE);
+        const results = await Promise.allSettled(batch.map(p => measureProgramUsage(p, nowSec)));
+        results.forEach((r, j) => {
+            if (r.status === 'fulfilled') usages.push(r.value);
+            else console.error(`${batch[j].name} error:`, r.reason);
+        });
+    }
+
+    return [
+        ...usages.flatMap(u => usageSignals(u, now)),
+        ...(await shareSignals(usages, now)),
+    ];
+}
@@ -0,0 +1,180 @@
+// ============================================================
+// Solana Narrative Pulse — Collector Registry
+// ============================================================
+// Single list of every signal collector the aggregator runs.
+// Each entry declares its name, the Signal sources it emits,
+// its cache TTL, a timeout and whether it is enabled — adding
+// a new source is one registerCollector() call, no aggregator edits.
+
+import { Signal, CollectorResult } from '@/lib/types';
+import { CACHE_TTL } from '@/lib/cache';
+import { collectMarketSignals } from './market';
+import { collectGitHubSignals } from './github';
+import { collectOnChainSignals } from './onchain';
+import { collectWhaleFlowSignals } from './whale-flows';
+import { collectSocialSignals } from './social';
+import { collectDefiLlamaSignals } from './defi-llama';
+import { collectAgentKitSignals } from '@/lib/solana-agent';
+import { collectDexSignals } from './dex';
+import { collectNftSignals } from './nft';
+import { collectGovernanceSignals } from './governance';
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface CollectorDefinition {
+    /** Unique collector name (also used as the cache key suffix) */
+    name: string;
+    /** Signal['source'] values this collector emits */
+    sources: Signal['source'][];
+    /** How long a successful result is cached, in milliseconds */
+    cacheTtlMs: number;
+    /** Max time the collector may run before it is abandoned, in milliseconds */
+    timeoutMs: number;
+    /** Disabled collectors are skipped by the aggregator */
+    enabled: boolean;
+    /**
+     * False when the collector makes requests outside lib/http (an SDK
+     * with its own client). Those can't be recorded, so the collector
+     * is skipped in replay mode. Defaults to true.
+     */
+    usesHttpClient?: boolean;
+    collect: () => Promise<CollectorResult<Signal[]>>;
+}
+
+// ── Registry store ───────────────────────────────────────────
+// Insertion order is run order (and the order signals are merged in).
+
+const registry = new Map<string, CollectorDefinition>();
+
+// Comma-separated collector names to skip, e.g. DISABLED_COLLECTORS=nft,social
+const DISABLED_BY_ENV = new Set(
+    (process.env.DISABLED_COLLECTORS || '')
+        .split(',')
+        .map(name => name.trim())
+        .filter(Boolean)
+);
+
+/**
+ * Register a collector. Re-registering an existing name replaces it
+ * in place, so internal sources can override a built-in.
+ */
+export function registerCollector(definition: CollectorDefinition): void {
+    registry.set(definition.name, {
+        ...definition,
+        enabled: definition.enabled && !DISABLED_BY_ENV.has(definition.name),
+    });
+}
+
+/**
+ * Remove a collector from the registry.
+ */
+export function unregisterCollector(name: string): boolean {
+    return registry.delete(name);
+}
+
+/**
+ * Get all registered collectors (enabled and disabled), in run order.
+ */
+export function getRegisteredCollectors(): CollectorDefinition[] {
+    return [...registry.values()];
+}
+
+/**
+ * Get only the collectors the aggregator should run.
+ */
+export function getEnabledCollectors(): CollectorDefinition[] {
+    return getRegisteredCollectors().filter(c => c.enabled);
+}
+
+// ── Built-in collectors ──────────────────────────────────────
+
+registerCollector({
+    name: 'market',
+    sources: ['market'],
+    cacheTtlMs: CACHE_TTL.COLLECTOR,
+    timeoutMs: 20_000,
+    enabled: true,
+    collect: collectMarketSignals,
+});
+
+registerCollector({
+    name: 'github',
+    sources: ['github'],
+    cacheTtlMs: 10 * 60 * 1000, // repo activity moves slowly
+    timeoutMs: 30_000,
+    enabled: true,
+    collect: collectGitHubSignals,
+});
+
+registerCollector({
+    name: 'onchain',
+    sources: ['onchain'],
+    cacheTtlMs: CACHE_TTL.COLLECTOR,
+    timeoutMs: 45_000,
+    enabled: true,
+    collect: collectOnChainSignals,
+});
+
+registerCollector({
+    name: 'whale-flows',
+    sources: ['onchain'],
+    cacheTtlMs: CACHE_TTL.COLLECTOR,
+    timeoutMs: 45_000, // flow sync stops starting pages after 25s
+    enabled: true,
+    collect: collectWhaleFlowSignals,
+});
+
+registerCollector({
+    name: 'agent-kit',
+    sources: ['market'],
+    cacheTtlMs: CACHE_TTL.COLLECTOR,
+    timeoutMs: 20_000,
+    enabled: true,
+    usesHttpClient: false, // solana-agent-kit talks to its RPC directly
+    collect: collectAgentKitSignals,
+});
+
+registerCollector({
+    name: 'social',
+    sources: ['social'],
+    cacheTtlMs: CACHE_TTL.COLLECTOR,
+    timeoutMs: 30_000,
+    enabled: true,
+    collect: collectSocialSignals,
+});
+
+registerCollector({
+    name: 'defi-llama',
+    sources: ['defi-llama'],
+    cacheTtlMs: CACHE_TTL.COLLECTOR,
+    timeoutMs: 20_000,
+    enabled: true,
+    collect: collectDefiLlamaSignals,
+});
+
+registerCollector({
+    name: 'dex',
+    sources: ['market'],
+    cacheTtlMs: CACHE_TTL.COLLECTOR,
+    timeoutMs: 30_000,
+    enabled: true,
+    collect: collectDexSignals,
+});
+
+registerCollector({
+    name: 'nft',
+    sources: ['market'],
+    cacheTtlMs: CACHE_TTL.COLLECTOR,
+    timeoutMs: 20_000,
+    enabled: true,
+    collect: collectNftSignals,
+});
+
+registerCollector({
+    name: 'governance',
+    sources: ['governance'],
+    cacheTtlMs: 15 * 60 * 1000, // proposals run for days
+    timeoutMs: 45_000,
+    enabled: true,
+    collect: collectGovernanceSignals,
+});
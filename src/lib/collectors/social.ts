@@ -3,33 +3,14 @@
 // ============================================================
 // Collects signals from:
 // 1. RSS Feeds (Blogs, Research Reports from Helius, Messari, etc.)
-// 2. Twitter/X KOL tracking (via agent-twitter-client scraper)
+// 2. Twitter/X KOL tracking (API v2, needs TWITTER_BEARER_TOKEN)
 
 import { Signal, CollectorResult } from '@/lib/types';
+import { getWatchlists, isPublicFeedUrl, WatchedFeed, WatchedKol } from '@/lib/watchlists';
+import { httpFetch } from '@/lib/http';
 
-// ── RSS Configuration ────────────────────────────────────────
-const RSS_FEEDS = [
-    { name: 'Helius Blog', url: 'https://www.helius.dev/blog/rss.xml', category: 'Infrastructure', solanaOnly: true },
-    { name: 'Messari', url: 'https://messari.io/rss', category: 'Market Research', solanaOnly: false },
-    { name: 'Electric Capital', url: 'https://electriccapital.substack.com/feed', category: 'VC Report', solanaOnly: false },
-    { name: 'Solana Foundation', url: 'https://solana.com/news/rss', category: 'Ecosystem News', solanaOnly: true },
-    { name: 'Superteam', url: 'https://blog.superteam.fun/rss.xml', category: 'Community', solanaOnly: true },
-    { name: 'Jupiter', url: 'https://www.jup.ag/blog/rss.xml', category: 'DeFi', solanaOnly: true },
-    { name: 'Jito Labs', url: 'https://www.jito.network/blog/rss.xml', category: 'Infrastructure', solanaOnly: true },
-    { name: 'Marinade Finance', url: 'https://blog.marinade.finance/rss/', category: 'DeFi', solanaOnly: true },
-];
-
-// ── KOL Configuration ────────────────────────────────────────
-const KOLS = [
-    { name: 'Mert Mumtaz', handle: '0xMert_', tags: ['Infrastructure', 'Helius', 'Validation'], weight: 90 },
-    { name: 'Anatoly Yakovenko', handle: 'aeyakovenko', tags: ['Protocol', 'Vision', 'Firedancer'], weight: 95 },
-    { name: 'Akshay BD', handle: 'akshaybd', tags: ['Community', 'Superteam', 'Growth'], weight: 85 },
-    { name: 'Raj Gokal', handle: 'rajgokal', tags: ['Solana', 'Strategy'], weight: 85 },
-    { name: 'Chase Barker', handle: 'therealchaseeb', tags: ['DeFi', 'Jupiter'], weight: 80 },
-    { name: 'Max Resnick', handle: 'MaxResnick', tags: ['Infrastructure', 'MEV', 'Protocol'], weight: 85 },
-    { name: 'Kash Dhanda', handle: 'kashdhanda', tags: ['Ecosystem', 'Growth'], weight: 80 },
-    { name: 'SOLBigBrain', handle: 'SOLBigBrain', tags: ['DeFi', 'Alpha', 'Trading'], weight: 80 },
-];
+// RSS feeds and KOLs come from the watchlists (src/lib/watchlists.ts),
+// re-read on every run.
 
 // Narrative keywords to boost signal strength
 const NARRATIVE_KEYWORDS = [
@@ -43,20 +24,20 @@ const NARRATIVE_KEYWORDS = [
 const SPAM_PATTERNS = /\b(buy now|100x|1000x|gem alert|next 100|guaranteed|pump it|to the moon|moon soon|nfa|dyor|ape in|send it|free airdrop|giveaway|whitelist spot|presale|call of the day|easy 10x|dont miss|don't miss)\b/i;
 
 // ── 1. RSS Feed Collector ────────────────────────────────────
-async function fetchRssSignals(): Promise<Signal[]> {
+async function fetchRssSignals(feeds: WatchedFeed[]): Promise<Signal[]> {
     const signals: Signal[] = [];
     const now = new Date().toISOString();
 
-    for (const feed of RSS_FEEDS) {
+    for (const feed of feeds) {
+        // Entries saved before feed URLs were restricted may still point inward
+        if (!isPublicFeedUrl(feed.url)) {
+            console.warn(`RSS: skipping ${feed.name} — not an https URL on a public host`);
+            continue;
+        }
         try {
-            const controller = new AbortController();
-            const timeout = setTimeout(() => controller.abort(), 8000);
-
-            const res = await fetch(feed.url, {
-                signal: controller.signal,
+            const res = await httpFetch(feed.url, {
                 headers: { 'User-Agent': 'SolanaNarrativePulse/1.0' },
             });
-            clearTimeout(timeout);
 
             if (!res.ok) continue;
 
@@ -116,9 +97,8 @@ async function fetchRssSignals(): Promise<Signal[]> {
                 });
             }
         } catch (err: any) {
-            if (err.name !== 'AbortError') {
-                console.warn(`RSS ${feed.name} failed:`, err.message);
-            }
+            // Timeouts, network errors and open circuits all land here
+            console.warn(`RSS ${feed.name} failed:`, err.message);
         }
     }
     return signals;
@@ -126,7 +106,7 @@ async function fetchRssSignals(): Promise<Signal[]> {
 
 // ── 2. Twitter/X API v2 ──────────────────────────────────────
 // Uses the official Twitter API v2 recent search endpoint with bearer token.
-// Falls back to agent-twitter-client scraper if bearer token is not set.
+// Without a bearer token, Twitter signals are skipped.
 
 const TWITTER_API_BASE = 'https://api.twitter.com/2';
 
@@ -166,17 +146,12 @@ async function twitterApiSearch(query: string, maxResults: number = 10): Promise
             'user.fields': 'name,username',
         });
 
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 10000);
-
-        const res = await fetch(`${TWITTER_API_BASE}/tweets/search/recent?${params}`, {
+        const res = await httpFetch(`${TWITTER_API_BASE}/tweets/search/recent?${params}`, {
             headers: {
                 Authorization: `Bearer ${bearerToken}`,
                 'Content-Type': 'application/json',
             },
-            signal: controller.signal,
         });
-        clearTimeout(timeout);
 
         if (!res.ok) {
             const body = await res.text().catch(() => '');
@@ -186,16 +161,12 @@ async function twitterApiSearch(query: string, maxResults: number = 10): Promise
 
         return await res.json();
     } catch (err: any) {
-        if (err.name === 'AbortError') {
-            console.warn('[Twitter API] ⏱ Request timed out');
-        } else {
-            console.warn('[Twitter API] ❌ Fetch error:', err.message);
-        }
+        console.warn('[Twitter API] ❌ Fetch error:', err.message);
         return null;
     }
 }
 
-async function fetchTwitterSignals(): Promise<Signal[]> {
+async function fetchTwitterSignals(kols: WatchedKol[]): Promise<Signal[]> {
     const signals: Signal[] = [];
     const now = new Date().toISOString();
     const bearerToken = process.env.TWITTER_BEARER_TOKEN;
@@ -211,7 +182,7 @@ async function fetchTwitterSignals(): Promise<Signal[]> {
     const userMap = new Map<string, { name: string; username: string }>();
 
     // Strategy 1: KOL monitoring — search for tweets from each KOL about Solana
-    for (const kol of KOLS) {
+    for (const kol of kols) {
         try {
             const query = `from:${kol.handle} (solana OR firedancer OR depin OR restaking OR "token extensions" OR "zk compression" OR jito OR sanctum) -is:retweet`;
             console.log(`[Twitter] Searching KOL @${kol.handle}...`);
@@ -345,9 +316,11 @@ function extractTokens(text: string): string[] {
 export async function collectSocialSignals(): Promise<CollectorResult<Signal[]>> {
     const collectedAt = new Date().toISOString();
 
+    const { feeds, kols } = await getWatchlists();
+
     const results = await Promise.allSettled([
-        fetchRssSignals(),
-        fetchTwitterSignals(),
+        fetchRssSignals(feeds),
+        fetchTwitterSignals(kols),
     ]);
 
     const signals: Signal[] = [];
@@ -0,0 +1,281 @@
+// ============================================================
+// Solana Narrative Pulse — Whale Flow Collector
+// ============================================================
+// Syncs every watched wallet's flow ledger (src/lib/flow-ledger.ts)
+// from Helius enhanced transactions and emits:
+//
+//   • net_flow signals per entity type and asset over 1h / 24h / 7d
+//   • the newest whale transactions ("recent whale tx" feed)
+//
+// Registered as its own collector so a slow sync can never time out
+// the rest of the on-chain signals. Wallets are synced concurrently
+// against one page + time budget per run; a wallet that runs out of
+// budget keeps the coverage it did reach.
+
+import { Signal, CollectorResult } from '@/lib/types';
+import { getCached, setCache } from '@/lib/cache';
+import { getWatchlists, WatchedToken, WatchedWhale } from '@/lib/watchlists';
+import {
+    loadFlowLedger, saveFlowLedger, applyFlowTransfers, coversWindow, flowTotals,
+    FLOW_WINDOWS, FLOW_RETENTION_MS, FlowTransfer, FlowTotals, FlowWindow, WalletFlowLedger,
+} from '@/lib/flow-ledger';
+import { hasHeliusKey, fetchEnhancedTxs, HeliusEnhancedTx, HeliusTransfer } from './helius';
+
+// ── Config ───────────────────────────────────────────────────
+
+const FLOW_PAGE_SIZE = 100;
+// Shared by all wallets in one run. Pages are taken one at a time, so
+// quiet wallets finish early and leave the rest to busy ones.
+const FLOW_MAX_PAGES = 60;
+// Stop starting new pages after this; leaves room inside the collector timeout
+const FLOW_SYNC_BUDGET_MS = 25_000;
+const RECENT_TX_CACHE_KEY = 'whale-recent-txs';
+
+interface SyncBudget {
+    pagesLeft: number;
+    deadline: number;
+}
+
+// ── Ledger sync ──────────────────────────────────────────────
+// Pages enhanced transactions newest → oldest until it reaches the
+// last ingested signature (or the 7d retention horizon), and books
+// every SOL / tracked-mint transfer in or out of the wallet.
+
+function parseWalletTransfers(tx: HeliusEnhancedTx, wallet: string, symbolsByMint: Map<string, string>): FlowTransfer[] {
+    const timestamp = (tx.timestamp || Date.now() / 1000) * 1000;
+    const transfers: FlowTransfer[] = [];
+    const book = (t: HeliusTransfer, asset: string, amount: number) => {
+        if (t.toUserAccount === t.fromUserAccount) return;
+        if (t.toUserAccount === wallet) transfers.push({ timestamp, asset, amount });
+        else if (t.fromUserAccount === wallet) transfers.push({ timestamp, asset, amount: -amount });
+    };
+
+    for (const t of tx.nativeTransfers || []) book(t, 'SOL', (t.amount || 0) / 1e9);
+    for (const t of tx.tokenTransfers || []) {
+        const symbol = t.mint && symbolsByMint.get(t.mint);
+        if (symbol) book(t, symbol, t.tokenAmount || 0);
+    }
+    return transfers;
+}
+
+async function syncWalletFlows(
+    whale: WatchedWhale,
+    tokens: WatchedToken[],
+    budget: SyncBudget,
+): Promise<{ ledger: WalletFlowLedger; fresh: HeliusEnhancedTx[] }> {
+    const ledger = await loadFlowLedger(whale.address);
+    const horizon = Date.now() - FLOW_RETENTION_MS;
+    const fresh: HeliusEnhancedTx[] = [];
+    let reachedKnown = false;
+    let reachedHorizon = false;
+    let before: string | undefined;
+
+    while (!reachedKnown && !reachedHorizon && budget.pagesLeft > 0 && Date.now() < budget.deadline) {
+        budget.pagesLeft--;
+        let txs: HeliusEnhancedTx[];
+        try {
+            txs = await fetchEnhancedTxs(whale.address, FLOW_PAGE_SIZE, before);
+        } catch (err) {
+            // Nothing fetched yet → nothing to book; otherwise keep what we have
+            if (fresh.length === 0) throw err;
+            console.warn(`Flow sync for ${whale.label} stopped early (non-critical):`, err);
+            break;
+        }
+        for (const tx of txs) {
+            if (tx.signature === ledger.lastSignature) { reachedKnown = true; break; }
+            if (tx.timestamp && tx.timestamp * 1000 < horizon) { reachedHorizon = true; break; }
+            fresh.push(tx);
+        }
+        // A short page means the wallet has no older history
+        if (txs.length < FLOW_PAGE_SIZE) reachedHorizon = true;
+        before = txs[txs.length - 1]?.signature;
+    }
+
+    const symbolsByMint = new Map(tokens.filter(t => t.mint).map(t => [t.mint!, t.symbol]));
+    applyFlowTransfers(ledger, fresh.flatMap(tx => parseWalletTransfers(tx, whale.address, symbolsByMint)));
+
+    // Coverage stays continuous only if this sync joined up with the last
+    // one; otherwise it is partial — from the oldest transaction reached
+    const oldestFresh = fresh.length > 0 ? (fresh[fresh.length - 1].timestamp ?? Date.now() / 1000) * 1000 : Date.now();
+    if (reachedHorizon) {
+        ledger.coverageStart = horizon;
+    } else if (!reachedKnown || ledger.coverageStart === null) {
+        if (ledger.lastSignature) console.warn(`Flow ledger gap for ${whale.label}: sync budget ran out before the last synced tx (${fresh.length} new txs)`);
+        ledger.coverageStart = oldestFresh;
+    }
+    if (fresh.length > 0) ledger.lastSignature = fresh[0].signature;
+
+    await saveFlowLedger(ledger);
+    return { ledger, fresh };
+}
+
+// ── Net flows per entity type ────────────────────────────────
+
+const ENTITY_FLOW = {
+    cex: { label: 'CEX', category: 'Exchange Flow', inflow: 'potential sell pressure', outflow: 'accumulation signal' },
+    mm: { label: 'Market maker', category: 'Smart Money Flow', inflow: 'market makers loading inventory', outflow: 'market makers distributing' },
+    vc: { label: 'VC', category: 'Smart Money Flow', inflow: 'funds accumulating', outflow: 'funds distributing' },
+    eco: { label: 'Ecosystem', category: 'Ecosystem Flow', inflow: 'treasury inflow', outflow: 'treasury deployment' },
+    other: { label: 'Watched wallet', category: 'Whale Movement', inflow: 'net accumulation', outflow: 'net distribution' },
+} as const;
+
+// Ignore windows where less than this moved in + out
+const MIN_GROSS_FLOW: Record<string, number> = { SOL: 100 };
+const DEFAULT_MIN_GROSS_FLOW = 1000;
+
+function flowSignals(ledgers: { whale: WatchedWhale; ledger: WalletFlowLedger }[]): Signal[] {
+    const signals: Signal[] = [];
+    const nowMs = Date.now();
+    const now = new Date(nowMs).toISOString();
+    const fmt = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+    const types = [...new Set(ledgers.map(l => l.whale.type))];
+    for (const type of types) {
+        const entity = ENTITY_FLOW[type];
+        const group = ledgers.filter(l => l.whale.type === type);
+
+        for (const window of Object.keys(FLOW_WINDOWS) as FlowWindow[]) {
+            // Only wallets whose ledger has seen the whole window
+            const covered = group.filter(l => coversWindow(l.ledger, window, nowMs));
+            if (covered.length === 0) continue;
+
+            const byAsset: Record<string, FlowTotals> = {};
+            const topWallet: Record<string, { label: string; net: number }> = {};
+            for (const { whale, ledger } of covered) {
+                for (const [asset, t] of Object.entries(flowTotals(ledger, window, nowMs))) {
+                    byAsset[asset] ??= { inflow: 0, outflow: 0, net: 0 };
+                    byAsset[asset].inflow += t.inflow;
+                    byAsset[asset].outflow += t.outflow;
+                    byAsset[asset].net += t.net;
+                    if (!topWallet[asset] || Math.abs(t.net) > Math.abs(topWallet[asset].net)) {
+                        topWallet[asset] = { label: whale.label, net: t.net };
+                    }
+                }
+            }
+
+            for (const [asset, t] of Object.entries(byAsset)) {
+                const gross = t.inflow + t.outflow;
+                if (gross < (MIN_GROSS_FLOW[asset] ?? DEFAULT_MIN_GROSS_FLOW) || t.net === 0) continue;
+
+                // −100 (all out) … +100 (all in)
+                const imbalance = (t.net / gross) * 100;
+                const direction = t.net > 0 ? 'inflow' : 'outflow';
+                const coverage = covered.length < group.length ? ` [${covered.length}/${group.length} wallets]` : '';
+                const top = topWallet[asset];
+
+                signals.push({
+                    id: `onchain-flow-${type}-${asset.toLowerCase()}-${window}`,
+                    source: 'onchain',
+                    category: entity.category,
+                    metric: 'net_flow',
+                    value: Math.round(t.net),
+                    delta: parseFloat(imbalance.toFixed(1)),
+                    description: `${entity.label} net ${direction} (${window}): ${t.net > 0 ? '+' : '−'}${fmt(Math.abs(t.net))} ${asset} — in ${fmt(t.inflow)} / out ${fmt(t.outflow)}${coverage} — ${entity[direction]}`,
+                    relatedTokens: [asset],
+                    relatedProjects: [],
+                    timestamp: now,
+                    strength: Math.min(90, Math.round(
+                        35 + Math.abs(imbalance) * 0.35
+                        + (window === '7d' ? 10 : window === '24h' ? 5 : 0)
+                        + (type === 'cex' ? 10 : 0)
+                    )),
+                    sourceUrl: `https://explorer.solana.com/address/${covered[0].whale.address}`,
+                    fullText: `${entity.label} wallets (${covered.map(l => l.whale.label).join(', ')}) over ${window}: ${fmt(t.inflow)} ${asset} in, ${fmt(t.outflow)} ${asset} out, net ${t.net > 0 ? '+' : '−'}${fmt(Math.abs(t.net))}. Largest mover: ${top.label} (${top.net > 0 ? '+' : '−'}${fmt(Math.abs(top.net))} ${asset}).`,
+                });
+            }
+        }
+    }
+    return signals;
+}
+
+// ── Recent whale transactions ────────────────────────────────
+
+function recentTxSignals(whale: WatchedWhale, recentTxs: HeliusEnhancedTx[]): Signal[] {
+    const slug = whale.label.toLowerCase().replace(/\s+/g, '-');
+    const now = new Date().toISOString();
+
+    return recentTxs.slice(0, 2).map((tx, i): Signal => {
+        const type = tx.type || 'UNKNOWN';
+        const desc = tx.description || '';
+        const ageMins = tx.timestamp
+            ? Math.round((Date.now() / 1000 - tx.timestamp) / 60)
+            : null;
+        const ageLabel = ageMins !== null ? `${ageMins}m ago` : '';
+
+        // Extract token transfers
+        const transfers = tx.tokenTransfers || [];
+        const nativeTransfers = tx.nativeTransfers || [];
+        const solMoved = nativeTransfers.reduce(
+            (sum: number, t) => sum + Math.abs(t.amount || 0) / 1e9, 0
+        );
+
+        let txDesc = `🐋 ${whale.label}: ${type}`;
+        if (desc) txDesc += ` — ${desc.slice(0, 100)}`;
+        else if (solMoved > 100) txDesc += ` — moved ${solMoved.toLocaleString(undefined, { maximumFractionDigits: 0 })} SOL`;
+        if (ageLabel) txDesc += ` (${ageLabel})`;
+
+        const txTokens = transfers
+            .map(t => t.tokenStandard === 'Fungible' ? t.mint : null)
+            .filter((mint): mint is string => !!mint)
+            .slice(0, 3);
+
+        return {
+            id: `onchain-whale-tx-${slug}-${tx.signature?.slice(0, 8) || i}`,
+            source: 'onchain',
+            category: 'Whale Movement',
+            metric: 'enhanced_tx',
+            value: Math.round(solMoved),
+            delta: 0,
+            description: txDesc,
+            relatedTokens: txTokens.length > 0 ? txTokens : ['SOL'],
+            relatedProjects: [],
+            timestamp: tx.timestamp ? new Date(tx.timestamp * 1000).toISOString() : now,
+            strength: solMoved > 10000 ? 90 : solMoved > 1000 ? 75 : 60,
+            sourceUrl: `https://explorer.solana.com/tx/${tx.signature}`,
+            fullText: desc || undefined,
+        };
+    });
+}
+
+// ── Main collector ───────────────────────────────────────────
+export async function collectWhaleFlowSignals(): Promise<CollectorResult<Signal[]>> {
+    const collectedAt = new Date().toISOString();
+    if (!hasHeliusKey()) {
+        return { data: [], source: 'helius', collectedAt, error: 'No Helius API key' };
+    }
+
+    const { whales, tokens } = await getWatchlists();
+    const splTokens = tokens.filter(t => !!t.mint);
+    const budget: SyncBudget = { pagesLeft: FLOW_MAX_PAGES, deadline: Date.now() + FLOW_SYNC_BUDGET_MS };
+
+    // Transactions from the last hour, kept across runs that see no new ones
+    const recentByWallet = getCached<Record<string, HeliusEnhancedTx[]>>(RECENT_TX_CACHE_KEY) || {};
+    const ledgers: { whale: WatchedWhale; ledger: WalletFlowLedger }[] = [];
+    const signals: Signal[] = [];
+
+    // Concurrency is capped per host by the shared HTTP client
+    await Promise.all(whales.map(async w => {
+        try {
+            const { ledger, fresh } = await syncWalletFlows(w, splTokens, budget);
+            ledgers.push({ whale: w, ledger });
+
+            const recentTxs = [...fresh, ...(recentByWallet[w.address] || [])].filter(tx => {
+                const ageSec = tx.timestamp ? (Date.now() / 1000 - tx.timestamp) : Infinity;
+                return ageSec < 3600; // last hour
+            }).slice(0, 3);
+            recentByWallet[w.address] = recentTxs;
+            signals.push(...recentTxSignals(w, recentTxs));
+        } catch (err) { console.warn(`Flow sync failed for ${w.label} (non-critical):`, err); }
+    }));
+
+    if (budget.pagesLeft <= 0 || Date.now() >= budget.deadline) {
+        console.warn(`Flow sync hit its budget (${FLOW_MAX_PAGES - Math.max(0, budget.pagesLeft)} pages) — some ledgers have partial coverage`);
+    }
+    setCache(RECENT_TX_CACHE_KEY, recentByWallet, 3_600_000);
+
+    // Net flows per entity type across every synced ledger
+    signals.push(...flowSignals(ledgers));
+    signals.sort((a, b) => b.strength - a.strength);
+
+    return { data: signals, source: 'helius', collectedAt };
+}
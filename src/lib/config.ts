@@ -9,44 +9,50 @@ export const CONFIG = {
         network: 'solana',
     },
 
-    // GitHub orgs/repos to track for Solana ecosystem activity
+    // GitHub API (tracked orgs live in the watchlists)
     github: {
         baseUrl: 'https://api.github.com',
         token: process.env.GITHUB_TOKEN || '',
-        trackedOrgs: [
-            'solana-labs',
-            'solana-foundation',
-            'jito-foundation',
-            'marinade-finance',
-            'jup-ag',
-            'helium',
-            'orca-so',
-            'raydium-io',
-            'drift-labs',
-            'metaplex-foundation',
-            'pyth-network',
-            'squads-protocol',
-            'tensor-hq',
-        ],
     },
 
-    // Key Solana token addresses for tracking
-    trackedTokens: [
-        { symbol: 'SOL', coingeckoId: 'solana' },
-        { symbol: 'JTO', coingeckoId: 'jito-governance-token' },
-        { symbol: 'JUP', coingeckoId: 'jupiter-exchange-solana' },
-        { symbol: 'PYTH', coingeckoId: 'pyth-network' },
-        { symbol: 'RAY', coingeckoId: 'raydium' },
-        { symbol: 'ORCA', coingeckoId: 'orca' },
-        { symbol: 'MNDE', coingeckoId: 'marinade' },
-        { symbol: 'HNT', coingeckoId: 'helium' },
-        { symbol: 'MOBILE', coingeckoId: 'helium-mobile' },
-        { symbol: 'BONK', coingeckoId: 'bonk' },
-        { symbol: 'WIF', coingeckoId: 'dogwifcoin' },
-        { symbol: 'RENDER', coingeckoId: 'render-token' },
-        { symbol: 'W', coingeckoId: 'wormhole' },
-        { symbol: 'TENSOR', coingeckoId: 'tensor' },
-    ],
+    // DAOs whose on-chain proposals feed the governance collector.
+    // `spl-governance` reads Realms ProposalV2 accounts (filtered by
+    // realm when the governance program is shared); `govern` reads
+    // Jupiter's Anchor Govern program. `{proposal}` in the link is
+    // replaced with the proposal address.
+    governance: {
+        rpcUrl: process.env.GOVERNANCE_RPC_URL || '',
+        lookbackDays: 14,
+        daos: [
+            {
+                name: 'Jito DAO',
+                kind: 'spl-governance',
+                programId: 'jtogvBNH3WBSWDYD5FJfQP2ZxNTuf82zL8GkEhPeaJx',
+                realm: '',  // dedicated program — every proposal is Jito's
+                token: 'JTO',
+                project: 'jito',
+                proposalUrl: 'https://gov.jito.network/dao/JTO/proposal/{proposal}',
+            },
+            {
+                name: 'Marinade DAO',
+                kind: 'spl-governance',
+                programId: 'GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw',
+                realm: '899YG3yk4F66ZgbNWLHriZHTXSKk9e1kvsKEquW7L6Mo',
+                token: 'MNDE',
+                project: 'marinade',
+                proposalUrl: 'https://app.realms.today/dao/MNDE/proposal/{proposal}',
+            },
+            {
+                name: 'Jupiter DAO',
+                kind: 'govern',
+                programId: 'GovaE4iu227srtG2s3tZzB4RmWBzw8sTwrCLZz7kN7rY',
+                realm: '',
+                token: 'JUP',
+                project: 'jupiter',
+                proposalUrl: 'https://vote.jup.ag/proposal/{proposal}',
+            },
+        ],
+    },
 
     // Narrative categories to detect
     narrativeCategories: [
@@ -61,10 +67,4 @@ export const CONFIG = {
         agentName: 'solana-narrative-pulse',
         agentVersion: 'earn-agent-mvp',
     },
-
-    // LLM
-    openai: {
-        model: 'gpt-4o',
-        maxTokens: 4000,
-    },
 } as const;
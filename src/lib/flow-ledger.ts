@@ -0,0 +1,167 @@
+// ============================================================
+// Solana Narrative Pulse — Wallet Flow Ledger
+// ============================================================
+// Running in/out totals per watched wallet and asset (SOL + tracked
+// SPL mints), so net flows can be reported over 1h / 24h / 7d even
+// though each collector run only sees the newest transactions.
+//
+// Layout: one JSON file per wallet under data/flows/,
+//   data/flows/<address>.json
+// holding 10-minute buckets for the last 7 days, the newest ingested
+// signature (the next sync stops there) and `coverageStart` — the
+// time since which the ledger has seen every transaction. A window
+// is only reported once coverage spans it, so a fresh ledger or a
+// sync gap never shows up as a fake outflow.
+//
+// Writes are best-effort; the in-memory copy keeps read-only
+// deployments working for the life of the process.
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// ── Types ────────────────────────────────────────────────────
+
+export type FlowWindow = '1h' | '24h' | '7d';
+
+export const FLOW_WINDOWS: Record<FlowWindow, number> = {
+    '1h': 60 * 60 * 1000,
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+/** One asset movement into (+) or out of (−) a wallet */
+export interface FlowTransfer {
+    timestamp: number;    // ms
+    asset: string;        // 'SOL' or token symbol
+    amount: number;       // UI units, signed
+}
+
+interface FlowBucket {
+    start: number;        // ms, aligned to BUCKET_MS
+    in: Record<string, number>;
+    out: Record<string, number>;
+}
+
+export interface WalletFlowLedger {
+    address: string;
+    lastSignature: string | null;
+    /** ms since which every transaction has been ingested; null = nothing yet */
+    coverageStart: number | null;
+    updatedAt: number;
+    buckets: FlowBucket[];
+}
+
+export interface FlowTotals {
+    inflow: number;
+    outflow: number;
+    net: number;
+}
+
+// ── Storage config ──────────────────────────────────────────
+
+const FLOWS_DIR = path.join(process.cwd(), 'data', 'flows');
+const BUCKET_MS = 10 * 60 * 1000;
+export const FLOW_RETENTION_MS = FLOW_WINDOWS['7d'];
+
+const memory = new Map<string, WalletFlowLedger>();
+
+function ledgerFile(address: string): string {
+    return path.join(FLOWS_DIR, `${address}.json`);
+}
+
+function emptyLedger(address: string): WalletFlowLedger {
+    return { address, lastSignature: null, coverageStart: null, updatedAt: 0, buckets: [] };
+}
+
+// ── Read / write ─────────────────────────────────────────────
+
+/**
+ * Load a wallet's ledger — disk first (another process may have
+ * synced it), then the in-memory copy, else an empty ledger.
+ */
+export async function loadFlowLedger(address: string): Promise<WalletFlowLedger> {
+    try {
+        const ledger = JSON.parse(await fs.readFile(ledgerFile(address), 'utf-8')) as WalletFlowLedger;
+        memory.set(address, ledger);
+        return ledger;
+    } catch {
+        return memory.get(address) || emptyLedger(address);
+    }
+}
+
+/**
+ * Persist a ledger after pruning buckets older than the 7d retention.
+ */
+export async function saveFlowLedger(ledger: WalletFlowLedger): Promise<void> {
+    const horizon = Date.now() - FLOW_RETENTION_MS - BUCKET_MS;
+    ledger.buckets = ledger.buckets.filter(b => b.start >= horizon);
+    if (ledger.coverageStart !== null && ledger.coverageStart < horizon) ledger.coverageStart = horizon;
+    ledger.updatedAt = Date.now();
+    memory.set(ledger.address, ledger);
+
+    try {
+        await fs.mkdir(FLOWS_DIR, { recursive: true });
+        // Write to a temp file first, then rename for atomicity
+        const file = ledgerFile(ledger.address);
+        const tmp = `${file}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(ledger), 'utf-8');
+        await fs.rename(tmp, file);
+    } catch (err) {
+        // Best-effort — read-only FS or permission issues are non-fatal
+        console.warn('Flow ledger: disk persist failed (non-fatal):', err);
+    }
+}
+
+// ── Ingest ───────────────────────────────────────────────────
+
+/**
+ * Add transfers to the ledger's buckets. Callers are responsible for
+ * not passing a transaction twice (sync stops at `lastSignature`).
+ */
+export function applyFlowTransfers(ledger: WalletFlowLedger, transfers: FlowTransfer[]): void {
+    const byStart = new Map(ledger.buckets.map(b => [b.start, b]));
+    for (const t of transfers) {
+        if (!t.amount) continue;
+        const start = Math.floor(t.timestamp / BUCKET_MS) * BUCKET_MS;
+        let bucket = byStart.get(start);
+        if (!bucket) {
+            bucket = { start, in: {}, out: {} };
+            byStart.set(start, bucket);
+        }
+        const side = t.amount > 0 ? bucket.in : bucket.out;
+        side[t.asset] = (side[t.asset] || 0) + Math.abs(t.amount);
+    }
+    ledger.buckets = [...byStart.values()].sort((a, b) => a.start - b.start);
+}
+
+// ── Query ────────────────────────────────────────────────────
+
+/**
+ * True when the ledger has seen every transaction of the window.
+ */
+export function coversWindow(ledger: WalletFlowLedger, window: FlowWindow, now = Date.now()): boolean {
+    return ledger.coverageStart !== null && ledger.coverageStart <= now - FLOW_WINDOWS[window];
+}
+
+/**
+ * In/out/net per asset over the window. Buckets partially inside the
+ * window count in full, so windows are accurate to ±10 minutes.
+ */
+export function flowTotals(ledger: WalletFlowLedger, window: FlowWindow, now = Date.now()): Record<string, FlowTotals> {
+    const since = now - FLOW_WINDOWS[window];
+    const totals: Record<string, FlowTotals> = {};
+    for (const bucket of ledger.buckets) {
+        if (bucket.start + BUCKET_MS <= since) continue;
+        for (const [asset, amount] of Object.entries(bucket.in)) {
+            totals[asset] ??= { inflow: 0, outflow: 0, net: 0 };
+            totals[asset].inflow += amount;
+            totals[asset].net += amount;
+        }
+        for (const [asset, amount] of Object.entries(bucket.out)) {
+            totals[asset] ??= { inflow: 0, outflow: 0, net: 0 };
+            totals[asset].outflow += amount;
+            totals[asset].net -= amount;
+        }
+    }
+    return totals;
+}
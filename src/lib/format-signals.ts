@@ -13,10 +13,12 @@ const SOURCE_BADGES: Record<string, string> = {
     social: '💬',
     'defi-llama': '🏦',
     governance: '🏛️',
+    anomaly: '🚨',
 };
 
 const CATEGORY_BADGES: Record<string, string> = {
     'Governance': '🏛️',
+    'Anomaly': '🚨',
     'NFT Collection': '🎨',
     'NFT Floor Price': '🖼️',
     'DEX Trending': '📊',
@@ -24,6 +26,9 @@ const CATEGORY_BADGES: Record<string, string> = {
     'New Pair': '🆕',
     'Whale Activity': '🐋',
     'Whale Movement': '🐋',
+    'Exchange Flow': '💱',
+    'Smart Money Flow': '🐋',
+    'Ecosystem Flow': '🐋',
     'KOL Signal': '🐦',
     'X Trend': '🔥',
     'New Programs': '🚀',
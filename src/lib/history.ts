@@ -1,16 +1,22 @@
 // ============================================================
-// Solana Narrative Pulse — Narrative History Storage
+// Solana Narrative Pulse — Narrative History
 // ============================================================
-// In-memory primary store with async file persistence as backup.
-//
-// Fixes over the original fs.writeFileSync approach:
-//   1. Non-blocking I/O (fs.promises instead of sync)
-//   2. Concurrency-safe (in-memory primary + write mutex for disk)
-//   3. Works on read-only deployments (memory always works; disk is best-effort)
-
-import { Narrative } from '@/lib/types';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+// Editions (one per detection run), their comparison with earlier
+// editions, and trajectory / idea lookups. Storage lives behind the
+// HistoryBackend interface (see storage/history-backend.ts): SQLite
+// by default, with the original JSON file as a fallback.
+
+import { BuildIdea, Narrative } from '@/lib/types';
+import { resolveLineages, LINEAGE_LOOKBACK } from '@/lib/narrative-identity';
+import {
+    getHistoryBackend,
+    HistoryBackend,
+    EditionQuery,
+    NarrativeQuery,
+    NarrativeRecord,
+} from '@/lib/storage/history-backend';
+
+export type { EditionQuery, NarrativeQuery, NarrativeRecord };
 
 // ── Types ────────────────────────────────────────────────────
 
@@ -34,6 +40,11 @@ export interface EditionNarrative {
     ideaCount: number;
     ideaTitles?: string[];
     signalCount: number;
+    // Identity features used to link renamed narratives (see narrative-identity.ts)
+    lineageId?: string;
+    signalIds?: string[];
+    tokens?: string[];
+    projects?: string[];
     // Computed by comparison
     status?: 'new' | 'rising' | 'fading' | 'stable' | 'returning';
     confidenceDelta?: number;
@@ -44,68 +55,32 @@ export interface NarrativeHistoryData {
     lastUpdated: string;
 }
 
-// ── Storage config ──────────────────────────────────────────
-
-const DATA_DIR = path.join(process.cwd(), 'data');
-const HISTORY_FILE = path.join(DATA_DIR, 'narrative-history.json');
-const MAX_EDITIONS = 20;
-
-// ── In-memory store (primary source of truth) ───────────────
-
-let memoryStore: NarrativeHistoryData | null = null;
-let initialLoadDone = false;
-let initialLoadPromise: Promise<void> | null = null;
-
-// Simple promise-based mutex for serializing disk writes
-let writeLock: Promise<void> = Promise.resolve();
-
-function empty(): NarrativeHistoryData {
-    return { editions: [], lastUpdated: new Date().toISOString() };
+export interface NarrativeChange {
+    lineageId?: string;
+    slug: string;
+    name: string;
+    status: 'rising' | 'fading' | 'stable';
+    confidence: { from: number; to: number; delta: number };
+    signalStrength: { from: number; to: number; delta: number };
+    category?: { from: string; to: string };   // only when it shifted
+    ideasAdded: string[];
+    ideasRemoved: string[];
 }
 
-// ── Load from disk (once, on first access) ──────────────────
-
-async function ensureLoaded(): Promise<void> {
-    if (initialLoadDone) return;
-
-    // Deduplicate concurrent init calls
-    if (initialLoadPromise) return initialLoadPromise;
-
-    initialLoadPromise = (async () => {
-        try {
-            const raw = await fs.readFile(HISTORY_FILE, 'utf-8');
-            memoryStore = JSON.parse(raw) as NarrativeHistoryData;
-        } catch {
-            // File doesn't exist or is unreadable — start fresh
-            memoryStore = empty();
-        }
-        initialLoadDone = true;
-    })();
-
-    return initialLoadPromise;
+export interface EditionDiff {
+    from: { id: string; detectedAt: string };
+    to: { id: string; detectedAt: string };
+    added: EditionNarrative[];
+    dropped: EditionNarrative[];
+    renamed: { lineageId?: string; from: { name: string; slug: string }; to: { name: string; slug: string } }[];
+    changed: NarrativeChange[];   // every narrative present in both editions
+    categoryShifts: { lineageId?: string; name: string; from: string; to: string }[];
 }
 
-// ── Persist to disk (best-effort, non-blocking) ─────────────
-
-function persistToDisk(data: NarrativeHistoryData): void {
-    // Chain onto the write lock so concurrent saves don't interleave
-    writeLock = writeLock
-        .then(async () => {
-            try {
-                await fs.mkdir(DATA_DIR, { recursive: true });
-                // Write to a temp file first, then rename for atomicity
-                const tmp = `${HISTORY_FILE}.tmp`;
-                await fs.writeFile(tmp, JSON.stringify(data, null, 2), 'utf-8');
-                await fs.rename(tmp, HISTORY_FILE);
-            } catch (err) {
-                // Best-effort — read-only FS or permission issues are non-fatal
-                console.warn('History: disk persist failed (non-fatal):', err);
-            }
-        })
-        .catch(() => {
-            // Never let the lock chain break
-        });
-}
+// ── Config ──────────────────────────────────────────────────
+
+/** Editions returned by readHistory() when no limit is given */
+const DEFAULT_READ_LIMIT = 20;
 
 // ── Generate edition ID ─────────────────────────────────────
 
@@ -117,70 +92,190 @@ function editionId(): string {
     return `E-${now.getFullYear()}-W${week}-${now.getDate()}-${timestamp}-${random}`;
 }
 
+// ── Lineage lookup ──────────────────────────────────────────
+
+// Accepts either a lineageId or a slug (resolved via the most recent
+// narrative with that slug)
+async function findLineageId(backend: HistoryBackend, slugOrLineage: string): Promise<string | null> {
+    const [byLineage] = await backend.findNarratives({ lineageId: slugOrLineage, limit: 1 });
+    if (byLineage) return slugOrLineage;
+    const [bySlug] = await backend.findNarratives({ slug: slugOrLineage, limit: 1 });
+    return bySlug?.narrative.lineageId || null;
+}
+
 // ── Compare with previous edition ───────────────────────────
 
 function compareWithPrevious(
     current: EditionNarrative[],
-    history: NarrativeHistoryData
+    recent: NarrativeEdition[]
 ): EditionNarrative[] {
-    if (history.editions.length === 0) {
+    if (recent.length === 0) {
         return current.map(n => ({ ...n, status: 'new' as const, confidenceDelta: 0 }));
     }
 
-    const previous = history.editions[0];
-    const prevMap = new Map(previous.narratives.map(n => [n.slug, n]));
+    // Narratives are matched by lineage, so a renamed narrative keeps its history
+    const previous = recent[0];
+    const prevMap = new Map(previous.narratives.map(n => [n.lineageId || n.slug, n]));
 
-    const olderSlugs = new Set<string>();
-    history.editions.slice(1, 5).forEach(e => {
-        e.narratives.forEach(n => olderSlugs.add(n.slug));
+    const olderLineages = new Set<string>();
+    recent.slice(1, LINEAGE_LOOKBACK).forEach(e => {
+        e.narratives.forEach(n => olderLineages.add(n.lineageId || n.slug));
     });
 
     return current.map(n => {
-        const prev = prevMap.get(n.slug);
+        const key = n.lineageId || n.slug;
+        const prev = prevMap.get(key);
 
         if (!prev) {
-            if (olderSlugs.has(n.slug)) {
+            if (olderLineages.has(key)) {
                 return { ...n, status: 'returning' as const, confidenceDelta: 0 };
             }
             return { ...n, status: 'new' as const, confidenceDelta: 0 };
         }
 
         const confidenceDelta = n.confidence - prev.confidence;
-        let status: EditionNarrative['status'];
-        if (confidenceDelta > 10) {
-            status = 'rising';
-        } else if (confidenceDelta < -10) {
-            status = 'fading';
-        } else {
-            status = 'stable';
+        return { ...n, status: statusFromDelta(confidenceDelta), confidenceDelta };
+    });
+}
+
+function statusFromDelta(confidenceDelta: number): NarrativeChange['status'] {
+    if (confidenceDelta > 10) return 'rising';
+    if (confidenceDelta < -10) return 'fading';
+    return 'stable';
+}
+
+// ── Diff two editions ───────────────────────────────────────
+
+function round1(n: number): number {
+    return Math.round(n * 10) / 10;
+}
+
+/**
+ * What changed between two editions. Narratives are matched by
+ * lineage (falling back to slug), so a rename shows up in `renamed`
+ * and `changed` rather than as one dropped plus one added.
+ */
+export function diffEditions(from: NarrativeEdition, to: NarrativeEdition): EditionDiff {
+    const keyOf = (n: EditionNarrative) => n.lineageId || n.slug;
+    const fromMap = new Map(from.narratives.map(n => [keyOf(n), n]));
+    const toKeys = new Set(to.narratives.map(keyOf));
+
+    const diff: EditionDiff = {
+        from: { id: from.id, detectedAt: from.detectedAt },
+        to: { id: to.id, detectedAt: to.detectedAt },
+        added: [],
+        dropped: from.narratives.filter(n => !toKeys.has(keyOf(n))),
+        renamed: [],
+        changed: [],
+        categoryShifts: [],
+    };
+
+    for (const n of to.narratives) {
+        const prev = fromMap.get(keyOf(n));
+        if (!prev) {
+            diff.added.push(n);
+            continue;
         }
 
-        return { ...n, status, confidenceDelta };
-    });
+        if (prev.slug !== n.slug) {
+            diff.renamed.push({
+                lineageId: n.lineageId,
+                from: { name: prev.name, slug: prev.slug },
+                to: { name: n.name, slug: n.slug },
+            });
+        }
+        if (prev.category !== n.category) {
+            diff.categoryShifts.push({ lineageId: n.lineageId, name: n.name, from: prev.category, to: n.category });
+        }
+
+        const prevIdeas = new Set(prev.ideaTitles || []);
+        const ideas = new Set(n.ideaTitles || []);
+        const confidenceDelta = n.confidence - prev.confidence;
+
+        diff.changed.push({
+            lineageId: n.lineageId,
+            slug: n.slug,
+            name: n.name,
+            status: statusFromDelta(confidenceDelta),
+            confidence: { from: prev.confidence, to: n.confidence, delta: confidenceDelta },
+            signalStrength: {
+                from: round1(prev.signalStrength),
+                to: round1(n.signalStrength),
+                delta: round1(n.signalStrength - prev.signalStrength),
+            },
+            ...(prev.category !== n.category ? { category: { from: prev.category, to: n.category } } : {}),
+            ideasAdded: [...ideas].filter(t => !prevIdeas.has(t)),
+            ideasRemoved: [...prevIdeas].filter(t => !ideas.has(t)),
+        });
+    }
+
+    return diff;
 }
 
 // ── Public API ──────────────────────────────────────────────
 
 /**
- * Read the full history. Loads from disk on first call,
- * then serves from memory on subsequent calls.
+ * Read editions, newest first. Defaults to the 20 most recent;
+ * pass limit/offset/from/to to page through older ones.
+ */
+export async function readHistory(query: EditionQuery = {}): Promise<NarrativeHistoryData> {
+    const backend = await getHistoryBackend();
+    const editions = await backend.listEditions({ ...query, limit: query.limit ?? DEFAULT_READ_LIMIT });
+    return {
+        editions,
+        lastUpdated: editions[0]?.detectedAt || new Date().toISOString(),
+    };
+}
+
+/**
+ * A single edition by id, or null if it doesn't exist.
+ */
+export async function getEdition(id: string): Promise<NarrativeEdition | null> {
+    return (await getHistoryBackend()).getEdition(id);
+}
+
+/**
+ * Total number of stored editions.
+ */
+export async function countEditions(): Promise<number> {
+    return (await getHistoryBackend()).countEditions();
+}
+
+/**
+ * Narratives matching a slug / lineage / category / date range,
+ * newest first (indexed lookup on the SQLite backend).
+ */
+export async function findNarratives(query: NarrativeQuery): Promise<NarrativeRecord[]> {
+    return (await getHistoryBackend()).findNarratives(query);
+}
+
+/**
+ * Full stored Narrative (signals and ideas) by narrative id, or null
+ * if it predates full storage or the backend only keeps summaries.
+ */
+export async function getStoredNarrative(id: string): Promise<Narrative | null> {
+    return (await getHistoryBackend()).getNarrative(id);
+}
+
+/**
+ * Full stored Narrative as saved in one edition — narrative ids such as
+ * `fallback-0` repeat across editions. Null when the backend only keeps
+ * summaries.
  */
-export async function readHistory(): Promise<NarrativeHistoryData> {
-    await ensureLoaded();
-    return memoryStore!;
+export async function getEditionNarrative(editionId: string, narrativeId: string): Promise<Narrative | null> {
+    return (await getHistoryBackend()).getEditionNarrative(editionId, narrativeId);
 }
 
 /**
- * Save a new edition. Updates in-memory store immediately,
- * then persists to disk asynchronously (best-effort).
+ * Save a new edition, compared against the most recent ones.
  */
 export async function saveEdition(
     narratives: Narrative[],
     signalCount: number,
     processingTime: number
 ): Promise<NarrativeEdition> {
-    await ensureLoaded();
-    const history = memoryStore!;
+    const backend = await getHistoryBackend();
+    const recent = await backend.listEditions({ limit: LINEAGE_LOOKBACK });
 
     const editionNarratives: EditionNarrative[] = narratives.map(n => ({
         id: n.id,
@@ -194,9 +289,13 @@ export async function saveEdition(
         ideaCount: n.ideas.length,
         ideaTitles: n.ideas.map(i => i.title),
         signalCount: n.signals.length,
+        signalIds: n.signals.map(s => s.id),
+        tokens: [...new Set(n.signals.flatMap(s => s.relatedTokens))],
+        projects: [...new Set(n.signals.flatMap(s => s.relatedProjects))],
     }));
 
-    const compared = compareWithPrevious(editionNarratives, history);
+    const resolved = resolveLineages(editionNarratives, recent);
+    const compared = compareWithPrevious(resolved, recent);
 
     const edition: NarrativeEdition = {
         id: editionId(),
@@ -206,65 +305,77 @@ export async function saveEdition(
         processingTime,
     };
 
-    // Update in-memory store (immediate, synchronous)
-    history.editions.unshift(edition);
-    if (history.editions.length > MAX_EDITIONS) {
-        history.editions = history.editions.slice(0, MAX_EDITIONS);
-    }
-    history.lastUpdated = new Date().toISOString();
-
-    // Persist to disk (async, non-blocking, best-effort)
-    persistToDisk(history);
-
+    await backend.saveEdition(edition, narratives);
     return edition;
 }
 
+/**
+ * Store ideas generated after an edition was saved (see ai/idea-jobs.ts),
+ * so idea dedup and the full stored narrative include them.
+ */
+export async function saveNarrativeIdeas(editionId: string, narrativeId: string, ideas: BuildIdea[]): Promise<void> {
+    await (await getHistoryBackend()).updateNarrativeIdeas(editionId, narrativeId, ideas);
+}
+
 /**
  * Get a narrative's confidence trajectory across editions.
+ * Follows the narrative's lineage, so renames don't break the line;
+ * accepts a lineageId or a slug.
  */
-export async function getNarrativeTrajectory(slug: string, limit = 10): Promise<{
+export async function getNarrativeTrajectory(slugOrLineage: string, limit = 10): Promise<{
     edition: string;
     detectedAt: string;
+    name: string;
+    lineageId?: string;
     confidence: number;
     status?: string;
 }[]> {
-    await ensureLoaded();
-    const history = memoryStore!;
+    const backend = await getHistoryBackend();
+    const lineageId = await findLineageId(backend, slugOrLineage);
+    const records = await backend.findNarratives(
+        lineageId ? { lineageId, limit } : { slug: slugOrLineage, limit }
+    );
 
     const trajectory: {
         edition: string;
         detectedAt: string;
+        name: string;
+        lineageId?: string;
         confidence: number;
         status?: string;
     }[] = [];
 
-    history.editions.slice(0, limit).forEach(e => {
-        const match = e.narratives.find(n => n.slug === slug);
-        if (match) {
-            trajectory.push({
-                edition: e.id,
-                detectedAt: e.detectedAt,
-                confidence: match.confidence,
-                status: match.status,
-            });
-        }
-    });
+    // One point per edition (a lineage continues into one narrative per edition)
+    const seen = new Set<string>();
+    for (const { editionId, detectedAt, narrative } of records) {
+        if (seen.has(editionId)) continue;
+        seen.add(editionId);
+        trajectory.push({
+            edition: editionId,
+            detectedAt,
+            name: narrative.name,
+            lineageId: narrative.lineageId,
+            confidence: narrative.confidence,
+            status: narrative.status,
+        });
+    }
 
     return trajectory.reverse();
 }
 
 /**
  * Get idea titles from recent editions for deduplication.
- * Optionally filter by narrative slug to get ideas from the same/similar narrative.
+ * Optionally filter by narrative slug (or lineageId) to get ideas from
+ * the same narrative, including under its earlier names.
  */
 export async function getRecentIdeaTitles(slug?: string, editionLimit = 3): Promise<string[]> {
-    await ensureLoaded();
-    const history = memoryStore!;
+    const backend = await getHistoryBackend();
+    const lineageId = slug ? await findLineageId(backend, slug) : null;
 
     const titles: string[] = [];
-    for (const edition of history.editions.slice(0, editionLimit)) {
+    for (const edition of await backend.listEditions({ limit: editionLimit })) {
         for (const narrative of edition.narratives) {
-            if (slug && narrative.slug !== slug) continue;
+            if (slug && (lineageId ? narrative.lineageId !== lineageId : narrative.slug !== slug)) continue;
             if (narrative.ideaTitles?.length) {
                 titles.push(...narrative.ideaTitles);
             }
@@ -0,0 +1,149 @@
+// ============================================================
+// Solana Narrative Pulse — HTTP Record / Replay
+// ============================================================
+// PULSE_HTTP_MODE=record   every collector request made through
+//                          httpFetch is saved under data/fixtures/
+// PULSE_HTTP_MODE=replay   requests are answered from those files
+//                          with no network at all; a request with
+//                          no fixture fails like a network error
+//
+// Layout: one JSON file per distinct request,
+//   data/fixtures/<host>/<method>-<path-slug>-<hash>.json
+// keyed by method, URL and body. API keys in the query string are
+// redacted before hashing (and never written), and ISO timestamps in
+// URLs (GitHub's `since=`) are normalised, so a recording replays on
+// a later day and without credentials. Failures (timeouts, open
+// circuits) are recorded too and re-thrown on replay.
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+// ── Types ────────────────────────────────────────────────────
+
+export type HttpMode = 'live' | 'record' | 'replay';
+
+interface FixtureRequest {
+    method: string;
+    url: string;
+    body?: string;
+}
+
+export interface HttpFixture {
+    request: FixtureRequest;
+    recordedAt: string;
+    response?: {
+        status: number;
+        statusText: string;
+        contentType: string | null;
+        body: string;
+    };
+    error?: string;
+}
+
+// ── Config ───────────────────────────────────────────────────
+
+const FIXTURES_DIR = path.join(process.cwd(), 'data', 'fixtures');
+const SECRET_PARAMS = /^(api[-_]?key|key|token|access_token|client_secret)$/i;
+const ISO_TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}(:|%3A)\d{2}(:|%3A)\d{2}(\.\d+)?Z?/gi;
+// Statuses whose Response may not carry a body
+const NULL_BODY_STATUS = new Set([101, 204, 205, 304]);
+
+export function httpMode(): HttpMode {
+    const mode = process.env.PULSE_HTTP_MODE;
+    return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+// ── Keys ─────────────────────────────────────────────────────
+
+function redactUrl(url: string): string {
+    const parsed = new URL(url);
+    for (const key of [...parsed.searchParams.keys()]) {
+        if (SECRET_PARAMS.test(key)) parsed.searchParams.set(key, 'REDACTED');
+    }
+    return parsed.toString();
+}
+
+function fixtureRequest(url: string, method: string, body?: string): FixtureRequest {
+    return { method, url: redactUrl(url), ...(body !== undefined && { body }) };
+}
+
+function fixturePath(request: FixtureRequest): string {
+    const parsed = new URL(request.url);
+    const hash = createHash('sha256')
+        .update(`${request.method} ${request.url.replace(ISO_TIMESTAMP, '<time>')}\n${request.body ?? ''}`)
+        .digest('hex')
+        .slice(0, 16);
+    const slug = parsed.pathname.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'root';
+    return path.join(FIXTURES_DIR, parsed.host, `${request.method.toLowerCase()}-${slug}-${hash}.json`);
+}
+
+// ── Record ───────────────────────────────────────────────────
+
+async function writeFixture(fixture: HttpFixture): Promise<void> {
+    const file = fixturePath(fixture.request);
+    try {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        // Write to a temp file first, then rename for atomicity
+        const tmp = `${file}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(fixture), 'utf-8');
+        await fs.rename(tmp, file);
+    } catch (err) {
+        // Recording is best-effort — the live response is still returned
+        console.warn('HTTP fixtures: write failed (non-fatal):', err);
+    }
+}
+
+/**
+ * Save a live response and hand back an unread copy of it.
+ */
+export async function recordFixture(url: string, method: string, body: string | undefined, res: Response): Promise<Response> {
+    const text = await res.text();
+    const contentType = res.headers.get('content-type');
+    await writeFixture({
+        request: fixtureRequest(url, method, body),
+        recordedAt: new Date().toISOString(),
+        response: { status: res.status, statusText: res.statusText, contentType, body: text },
+    });
+    return new Response(NULL_BODY_STATUS.has(res.status) ? null : text, {
+        status: res.status,
+        statusText: res.statusText,
+        headers: res.headers,
+    });
+}
+
+/**
+ * Save a request that failed without a response (timeout, network
+ * error, open circuit) so replay fails the same way.
+ */
+export async function recordFixtureFailure(url: string, method: string, body: string | undefined, err: unknown): Promise<void> {
+    await writeFixture({
+        request: fixtureRequest(url, method, body),
+        recordedAt: new Date().toISOString(),
+        error: err instanceof Error ? err.message : String(err),
+    });
+}
+
+// ── Replay ───────────────────────────────────────────────────
+
+/**
+ * The recorded response for a request. Rejects when there is no
+ * fixture or the request failed while recording.
+ */
+export async function replayFixture(url: string, method: string, body?: string): Promise<Response> {
+    const request = fixtureRequest(url, method, body);
+    let fixture: HttpFixture;
+    try {
+        fixture = JSON.parse(await fs.readFile(fixturePath(request), 'utf-8')) as HttpFixture;
+    } catch {
+        throw new Error(`${new URL(url).host}: no fixture for ${method} ${request.url} (replay mode)`);
+    }
+
+    if (!fixture.response) throw new Error(fixture.error || `${new URL(url).host}: recorded failure`);
+    const { status, statusText, contentType, body: text } = fixture.response;
+    return new Response(NULL_BODY_STATUS.has(status) ? null : text, {
+        status,
+        statusText,
+        headers: contentType ? { 'Content-Type': contentType } : undefined,
+    });
+}
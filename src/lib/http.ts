@@ -0,0 +1,285 @@
+// ============================================================
+// Solana Narrative Pulse — Resilient HTTP Client
+// ============================================================
+// Single outbound path for every collector request. `httpFetch` is a
+// drop-in for `fetch` that adds, per host:
+//
+//   - a timeout (no request can hang a collector run)
+//   - retry with jittered exponential backoff on 429 / 5xx and
+//     connection errors, honouring `Retry-After` (a timeout is not
+//     retried — the host is already slow)
+//   - ETag / Last-Modified revalidation — a 304 is served from the
+//     last body, and doesn't count against GitHub's rate limit
+//   - a concurrency cap, so one collector can't flood an API
+//   - a circuit breaker: after repeated failures the host fails fast
+//     for a cooldown instead of eating every caller's timeout
+//
+// Non-retryable responses (404, 403…) are returned as-is; callers
+// keep checking `res.ok` as they did with plain fetch.
+
+import { httpMode, recordFixture, recordFixtureFailure, replayFixture } from './http-fixtures';
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface HostPolicy {
+    timeoutMs: number;
+    /** Extra attempts after the first */
+    retries: number;
+    /** Max requests in flight to the host */
+    concurrency: number;
+}
+
+export interface HttpRequestOptions {
+    method?: 'GET' | 'POST';
+    headers?: Record<string, string>;
+    body?: string;
+    /** Override the host's default timeout */
+    timeoutMs?: number;
+    /** Override the host's default retry count */
+    retries?: number;
+}
+
+/** Error thrown for timeouts, network failures and open circuits */
+export interface HttpError extends Error {
+    host: string;
+}
+
+interface HostState {
+    active: number;
+    queue: (() => void)[];
+    consecutiveFailures: number;
+    openUntil: number;          // ms; 0 = circuit closed
+    probing: boolean;           // half-open trial request in flight
+}
+
+interface ValidatorEntry {
+    etag: string | null;
+    lastModified: string | null;
+    body: string;
+    contentType: string | null;
+}
+
+// ── Config ───────────────────────────────────────────────────
+
+const DEFAULT_POLICY: HostPolicy = { timeoutMs: 8000, retries: 2, concurrency: 4 };
+
+const HOST_POLICIES: Record<string, Partial<HostPolicy>> = {
+    'api.coingecko.com': { timeoutMs: 10000, concurrency: 2 },
+    'api.github.com': { timeoutMs: 10000 },
+    'api.llama.fi': { timeoutMs: 12000 },
+    'api.dexscreener.com': { concurrency: 3 },
+    'api-mainnet.magiceden.dev': { timeoutMs: 10000, concurrency: 2 },
+    'mainnet.helius-rpc.com': { timeoutMs: 10000, concurrency: 6 },
+    'api.mainnet-beta.solana.com': { timeoutMs: 15000, concurrency: 2 },
+    'api.twitter.com': { timeoutMs: 10000, retries: 1 },
+};
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+const MAX_RETRY_AFTER_MS = 30_000;      // longer waits are not worth holding a run for
+const BREAKER_THRESHOLD = 5;            // consecutive failures before opening
+const BREAKER_COOLDOWN_MS = 60_000;
+const MAX_VALIDATOR_ENTRIES = 200;
+
+const hosts = new Map<string, HostState>();
+const validators = new Map<string, ValidatorEntry>();
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function hostPolicy(host: string, options: HttpRequestOptions): HostPolicy {
+    return {
+        ...DEFAULT_POLICY,
+        ...HOST_POLICIES[host],
+        ...(options.timeoutMs !== undefined && { timeoutMs: options.timeoutMs }),
+        ...(options.retries !== undefined && { retries: options.retries }),
+    };
+}
+
+function hostState(host: string): HostState {
+    let state = hosts.get(host);
+    if (!state) {
+        state = { active: 0, queue: [], consecutiveFailures: 0, openUntil: 0, probing: false };
+        hosts.set(host, state);
+    }
+    return state;
+}
+
+function httpError(host: string, message: string): HttpError {
+    return Object.assign(new Error(`${host}: ${message}`), { host });
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Full-jitter exponential backoff */
+function backoffMs(attempt: number): number {
+    return Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+}
+
+/** `Retry-After` as milliseconds — delta-seconds or an HTTP date */
+function retryAfterMs(res: Response): number | null {
+    const header = res.headers.get('retry-after');
+    if (!header) return null;
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// ── Concurrency ──────────────────────────────────────────────
+
+async function acquire(state: HostState, limit: number): Promise<void> {
+    if (state.active < limit) {
+        state.active++;
+        return;
+    }
+    // The releasing request hands its slot straight to us
+    await new Promise<void>(resolve => state.queue.push(resolve));
+}
+
+function release(state: HostState): void {
+    const next = state.queue.shift();
+    if (next) next();
+    else state.active--;
+}
+
+// ── Circuit breaker ──────────────────────────────────────────
+
+function checkCircuit(host: string, state: HostState): void {
+    if (state.openUntil === 0) return;
+    if (Date.now() < state.openUntil || state.probing) {
+        throw httpError(host, `circuit open — failing fast until ${new Date(state.openUntil).toISOString()}`);
+    }
+    // Cooldown over: let one trial request through (half-open)
+    state.probing = true;
+}
+
+function recordSuccess(state: HostState): void {
+    state.consecutiveFailures = 0;
+    state.openUntil = 0;
+    state.probing = false;
+}
+
+function recordFailure(host: string, state: HostState): void {
+    state.consecutiveFailures++;
+    if (state.probing || state.consecutiveFailures >= BREAKER_THRESHOLD) {
+        if (state.openUntil <= Date.now()) {
+            console.warn(`⚡ ${host}: circuit open for ${BREAKER_COOLDOWN_MS / 1000}s after ${state.consecutiveFailures} consecutive failures`);
+        }
+        state.openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+    }
+    state.probing = false;
+}
+
+// ── ETag revalidation ────────────────────────────────────────
+
+function conditionalHeaders(entry: ValidatorEntry | undefined): Record<string, string> {
+    if (!entry) return {};
+    return {
+        ...(entry.etag && { 'If-None-Match': entry.etag }),
+        ...(entry.lastModified && { 'If-Modified-Since': entry.lastModified }),
+    };
+}
+
+async function rememberValidators(key: string, res: Response): Promise<Response> {
+    const etag = res.headers.get('etag');
+    const lastModified = res.headers.get('last-modified');
+    if (!etag && !lastModified) return res;
+
+    const body = await res.text();
+    validators.delete(key);
+    validators.set(key, { etag, lastModified, body, contentType: res.headers.get('content-type') });
+    if (validators.size > MAX_VALIDATOR_ENTRIES) {
+        validators.delete(validators.keys().next().value!);
+    }
+    return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
+
+function fromValidators(entry: ValidatorEntry): Response {
+    return new Response(entry.body, {
+        status: 200,
+        headers: entry.contentType ? { 'Content-Type': entry.contentType } : undefined,
+    });
+}
+
+// ── Live request ─────────────────────────────────────────────
+
+async function liveFetch(url: string, options: HttpRequestOptions): Promise<Response> {
+    const host = new URL(url).host;
+    const policy = hostPolicy(host, options);
+    const state = hostState(host);
+    const method = options.method || 'GET';
+    const validatorKey = method === 'GET' ? url : null;
+
+    for (let attempt = 0; ; attempt++) {
+        checkCircuit(host, state);
+        const cached = validatorKey ? validators.get(validatorKey) : undefined;
+
+        await acquire(state, policy.concurrency);
+        let res: Response;
+        try {
+            res = await fetch(url, {
+                method,
+                headers: { ...options.headers, ...conditionalHeaders(cached) },
+                body: options.body,
+                signal: AbortSignal.timeout(policy.timeoutMs),
+            });
+        } catch (err) {
+            recordFailure(host, state);
+            const timedOut = err instanceof Error && err.name === 'TimeoutError';
+            if (!timedOut && attempt < policy.retries && state.openUntil === 0) {
+                await sleep(backoffMs(attempt));
+                continue;
+            }
+            throw httpError(host, timedOut
+                ? `timed out after ${policy.timeoutMs}ms`
+                : err instanceof Error ? err.message : String(err));
+        } finally {
+            release(state);
+        }
+
+        if (res.status === 304 && cached) {
+            recordSuccess(state);
+            return fromValidators(cached);
+        }
+
+        if (RETRYABLE_STATUS.has(res.status)) {
+            recordFailure(host, state);
+            const wait = retryAfterMs(res) ?? backoffMs(attempt);
+            if (attempt < policy.retries && wait <= MAX_RETRY_AFTER_MS && state.openUntil === 0) {
+                await res.body?.cancel();
+                await sleep(wait);
+                continue;
+            }
+            return res;
+        }
+
+        recordSuccess(state);
+        return validatorKey && res.ok ? rememberValidators(validatorKey, res) : res;
+    }
+}
+
+// ── Main entry ───────────────────────────────────────────────
+
+/**
+ * Fetch through the host's timeout, retry, concurrency and breaker
+ * policy. Resolves with the final response (possibly non-ok); rejects
+ * with an HttpError on timeout, network failure or an open circuit.
+ * Under PULSE_HTTP_MODE=record|replay the exchange is saved to or
+ * served from data/fixtures (see http-fixtures.ts).
+ */
+export async function httpFetch(url: string, options: HttpRequestOptions = {}): Promise<Response> {
+    const mode = httpMode();
+    const method = options.method || 'GET';
+    if (mode === 'replay') return replayFixture(url, method, options.body);
+    if (mode === 'live') return liveFetch(url, options);
+
+    try {
+        return await recordFixture(url, method, options.body, await liveFetch(url, options));
+    } catch (err) {
+        await recordFixtureFailure(url, method, options.body, err);
+        throw err;
+    }
+}
@@ -0,0 +1,179 @@
+// ============================================================
+// Solana Narrative Pulse — Narrative Identity Resolver
+// ============================================================
+// Links narratives across editions even when the LLM renames them
+// ("Liquid Staking Surge" → "LST Momentum"). Each narrative carries
+// a stable `lineageId`; a new narrative inherits the lineage of the
+// best-matching narrative from recent editions, scored on:
+//
+//   • signal-id overlap      (same evidence → same story)
+//   • shared tokens/projects (same subjects)
+//   • name similarity        (word overlap + character bigrams)
+//
+// Matching is one-to-one: a lineage continues into at most one
+// narrative per edition.
+
+import type { EditionNarrative, NarrativeEdition } from '@/lib/history';
+
+// ── Config ───────────────────────────────────────────────────
+
+/** Editions searched for a lineage to continue */
+export const LINEAGE_LOOKBACK = 5;
+
+const MATCH_THRESHOLD = 0.35;
+
+const WEIGHTS = {
+    signals: 0.5,
+    entities: 0.3,
+    name: 0.2,
+};
+
+// Words that describe momentum rather than the subject of a narrative
+const GENERIC_NAME_WORDS = new Set([
+    'the', 'of', 'and', 'on', 'in', 'for', 'solana',
+    'surge', 'momentum', 'activity', 'growth', 'rise', 'rising', 'boom',
+    'wave', 'trend', 'narrative', 'cooldown', 'expansion', 'renaissance',
+    'resurgence', 'adoption', 'revival', 'heats', 'up',
+]);
+
+// ── Similarity ───────────────────────────────────────────────
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) return 0;
+    let shared = 0;
+    for (const v of a) if (b.has(v)) shared++;
+    return shared / (a.size + b.size - shared);
+}
+
+function nameWords(name: string): string[] {
+    return name
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(w => w && !GENERIC_NAME_WORDS.has(w));
+}
+
+function bigrams(text: string): Set<string> {
+    const grams = new Set<string>();
+    for (let i = 0; i < text.length - 1; i++) grams.add(text.slice(i, i + 2));
+    return grams;
+}
+
+/**
+ * 0–1 similarity of two narrative names, ignoring momentum words.
+ * Max of word-set overlap and the bigram Dice coefficient, so both
+ * reordered names and small spelling changes score well.
+ */
+export function nameSimilarity(a: string, b: string): number {
+    const wa = nameWords(a);
+    const wb = nameWords(b);
+    if (wa.length === 0 || wb.length === 0) return 0;
+
+    const words = jaccard(new Set(wa), new Set(wb));
+    const ga = bigrams(wa.join(' '));
+    const gb = bigrams(wb.join(' '));
+    let shared = 0;
+    for (const g of ga) if (gb.has(g)) shared++;
+    const dice = ga.size + gb.size > 0 ? (2 * shared) / (ga.size + gb.size) : 0;
+
+    return Math.max(words, dice);
+}
+
+function entities(n: EditionNarrative): Set<string> {
+    return new Set([
+        ...(n.tokens || []).map(t => `token:${t.toLowerCase()}`),
+        ...(n.projects || []).map(p => `project:${p.toLowerCase()}`),
+    ]);
+}
+
+/**
+ * 0–1 identity score between two edition narratives. An exact slug
+ * match always scores 1. Components missing on either side (older
+ * editions didn't store signal ids or entities) are left out and the
+ * remaining weights rescaled.
+ */
+export function identityScore(a: EditionNarrative, b: EditionNarrative): number {
+    if (a.slug === b.slug) return 1;
+
+    let score = 0;
+    let weight = 0;
+
+    if (a.signalIds?.length && b.signalIds?.length) {
+        score += WEIGHTS.signals * jaccard(new Set(a.signalIds), new Set(b.signalIds));
+        weight += WEIGHTS.signals;
+    }
+
+    const ea = entities(a);
+    const eb = entities(b);
+    if (ea.size > 0 && eb.size > 0) {
+        score += WEIGHTS.entities * jaccard(ea, eb);
+        weight += WEIGHTS.entities;
+    }
+
+    score += WEIGHTS.name * nameSimilarity(a.name, b.name);
+    weight += WEIGHTS.name;
+
+    return score / weight;
+}
+
+// ── Resolution ───────────────────────────────────────────────
+
+export function newLineageId(slug: string): string {
+    return `lin-${slug.slice(0, 40)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Assign a lineageId to each narrative of a new edition.
+ * `previous` is the edition list, newest first; only the last
+ * LINEAGE_LOOKBACK editions are considered, and each lineage is
+ * represented by its most recent narrative.
+ */
+export function resolveLineages(current: EditionNarrative[], previous: NarrativeEdition[]): EditionNarrative[] {
+    // Most recent representative of each lineage
+    const candidates = new Map<string, EditionNarrative>();
+    for (const edition of previous.slice(0, LINEAGE_LOOKBACK)) {
+        for (const n of edition.narratives) {
+            if (n.lineageId && !candidates.has(n.lineageId)) candidates.set(n.lineageId, n);
+        }
+    }
+
+    const pairs: { index: number; lineageId: string; score: number }[] = [];
+    current.forEach((n, index) => {
+        for (const [lineageId, candidate] of candidates) {
+            const score = identityScore(n, candidate);
+            if (score >= MATCH_THRESHOLD) pairs.push({ index, lineageId, score });
+        }
+    });
+
+    // Greedy one-to-one assignment, best matches first
+    pairs.sort((a, b) => b.score - a.score);
+    const assigned = new Map<number, string>();
+    const taken = new Set<string>();
+    for (const { index, lineageId } of pairs) {
+        if (assigned.has(index) || taken.has(lineageId)) continue;
+        assigned.set(index, lineageId);
+        taken.add(lineageId);
+    }
+
+    return current.map((n, index) => ({
+        ...n,
+        lineageId: assigned.get(index) || newLineageId(n.slug),
+    }));
+}
+
+/**
+ * Resolve lineages for editions saved before lineage tracking,
+ * oldest first, as if they had been saved with it. `editions` is
+ * newest first and is updated in place; returns true if anything changed.
+ */
+export function backfillLineages(editions: NarrativeEdition[]): boolean {
+    let changed = false;
+    for (let i = editions.length - 1; i >= 0; i--) {
+        const edition = editions[i];
+        if (edition.narratives.every(n => n.lineageId)) continue;
+
+        const resolved = resolveLineages(edition.narratives, editions.slice(i + 1));
+        edition.narratives = edition.narratives.map((n, j) => n.lineageId ? n : resolved[j]);
+        changed = true;
+    }
+    return changed;
+}
@@ -0,0 +1,38 @@
+// ============================================================
+// Solana Narrative Pulse — Shared-secret Request Auth
+// ============================================================
+// Routes that trigger work or change state require
+// `Authorization: Bearer <secret>` with a secret from the env:
+//
+//   CRON_SECRET       /api/cron/detect
+//   WATCHLIST_SECRET  /api/watchlists/<list> writes
+//
+// An unset secret disables the route (503) rather than leaving it open.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+
+function hasBearerSecret(request: NextRequest, secret: string): boolean {
+    const header = request.headers.get('authorization') || '';
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const actual = Buffer.from(header);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Check the request against the secret in `envVar`. Returns the error
+ * response to send, or null when the request is authorized.
+ */
+export function requireBearerSecret(request: NextRequest, envVar: string, disabledMessage: string): NextResponse | null {
+    const secret = process.env[envVar];
+    if (!secret) {
+        return NextResponse.json(
+            { success: false, error: `${disabledMessage}: ${envVar} is not set` },
+            { status: 503 },
+        );
+    }
+    if (!hasBearerSecret(request, secret)) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+    return null;
+}
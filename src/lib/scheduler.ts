@@ -0,0 +1,220 @@
+// ============================================================
+// Solana Narrative Pulse — Scheduled Detection
+// ============================================================
+// Runs the full pipeline (collect → detect → save edition → ideas)
+// without a browser, so edition history fills up on its own.
+// Triggered by:
+//
+//   • agent/scheduler.ts       — standalone worker (npx tsx)
+//   • /api/cron/detect         — cron-style route behind CRON_SECRET
+//
+// Both may run against the same data/ directory, so the run lock
+// and last/next run state live on disk rather than in memory:
+//   data/scheduler.lock        — exclusive lock (stale after 15 min;
+//                                skipped if data/ isn't writable)
+//   data/scheduler-state.json  — last run + next run time (heartbeat)
+
+import { collectAllSignals } from '@/lib/collectors/aggregator';
+import { detectNarratives } from '@/lib/ai/detector';
+import { detectNarrativesHeuristic } from '@/lib/ai/heuristic';
+import { startIdeaJob, IdeaJob } from '@/lib/ai/idea-jobs';
+import { saveEdition } from '@/lib/history';
+import { withUsageRun } from '@/lib/usage-ledger';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface SchedulerRun {
+    trigger: 'worker' | 'cron';
+    mode: 'ai' | 'heuristic';
+    status: 'running' | 'ok' | 'failed';
+    startedAt: string;
+    finishedAt?: string;
+    durationMs?: number;
+    editionId?: string;
+    narrativeCount?: number;
+    signalCount?: number;
+    /** Background idea job for the edition, when one was started */
+    ideaJobId?: string;
+    error?: string;
+}
+
+export interface SchedulerState {
+    lastRun: SchedulerRun | null;
+    nextRunAt: string | null;
+    intervalMinutes: number;
+}
+
+export type SchedulerOutcome =
+    | { status: 'completed'; run: SchedulerRun; nextRunAt: string }
+    | { status: 'skipped'; reason: 'locked' | 'not-due'; nextRunAt: string | null };
+
+// ── Config ───────────────────────────────────────────────────
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const LOCK_FILE = path.join(DATA_DIR, 'scheduler.lock');
+const STATE_FILE = path.join(DATA_DIR, 'scheduler-state.json');
+const DEFAULT_INTERVAL_MINUTES = 60;
+const LOCK_STALE_MS = 15 * 60 * 1000;   // a crashed run's lock is ignored after this
+
+export function getSchedulerConfig(): { intervalMinutes: number; mode: SchedulerRun['mode'] } {
+    const minutes = parseFloat(process.env.SCHEDULER_INTERVAL_MINUTES || '');
+    return {
+        intervalMinutes: Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_INTERVAL_MINUTES,
+        mode: process.env.SCHEDULER_MODE === 'heuristic' ? 'heuristic' : 'ai',
+    };
+}
+
+// ── State ────────────────────────────────────────────────────
+
+/**
+ * Last run and next scheduled run, as written by whichever process
+ * ran the scheduler last. Empty state if it has never run.
+ */
+export async function readSchedulerState(): Promise<SchedulerState> {
+    try {
+        return JSON.parse(await fs.readFile(STATE_FILE, 'utf-8')) as SchedulerState;
+    } catch {
+        return { lastRun: null, nextRunAt: null, intervalMinutes: getSchedulerConfig().intervalMinutes };
+    }
+}
+
+async function writeSchedulerState(state: SchedulerState): Promise<void> {
+    try {
+        await fs.mkdir(DATA_DIR, { recursive: true });
+        // Write to a temp file first, then rename for atomicity
+        const tmp = `${STATE_FILE}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(state, null, 2), 'utf-8');
+        await fs.rename(tmp, STATE_FILE);
+    } catch (err) {
+        // Best-effort — read-only FS or permission issues are non-fatal
+        console.warn('Scheduler: state write failed (non-fatal):', err);
+    }
+}
+
+function isDue(state: SchedulerState, now: number): boolean {
+    return !state.nextRunAt || new Date(state.nextRunAt).getTime() <= now;
+}
+
+// ── Lock ─────────────────────────────────────────────────────
+
+// Also held while the file lock is, so one process never overlaps itself
+// even when data/ isn't writable and the file lock is skipped
+let lockedInProcess = false;
+
+async function acquireLock(): Promise<boolean> {
+    if (lockedInProcess) return false;
+    lockedInProcess = true;
+    try {
+        await fs.mkdir(DATA_DIR, { recursive: true });
+        for (let attempt = 0; attempt < 2; attempt++) {
+            try {
+                const handle = await fs.open(LOCK_FILE, 'wx');
+                await handle.writeFile(JSON.stringify({ pid: process.pid, lockedAt: new Date().toISOString() }));
+                await handle.close();
+                return true;
+            } catch (err: unknown) {
+                if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+
+                // Held by another run — take it over only if it's stale
+                const stat = await fs.stat(LOCK_FILE).catch(() => null);
+                if (stat && Date.now() - stat.mtimeMs < LOCK_STALE_MS) {
+                    lockedInProcess = false;
+                    return false;
+                }
+                console.warn('Scheduler: removing stale lock');
+                await fs.unlink(LOCK_FILE).catch(() => {});
+            }
+        }
+        lockedInProcess = false;
+        return false;
+    } catch (err) {
+        // Best-effort — on a read-only FS only the in-process lock applies
+        console.warn('Scheduler: lock file unavailable, running with an in-process lock only (non-fatal):', err);
+        return true;
+    }
+}
+
+async function releaseLock(): Promise<void> {
+    lockedInProcess = false;
+    await fs.unlink(LOCK_FILE).catch(() => {});
+}
+
+// ── Run ──────────────────────────────────────────────────────
+
+/**
+ * Run one scheduled detection if it's due (or `force` is set) and no
+ * other run holds the lock. Never throws for pipeline failures — they
+ * are recorded in the run and the state file.
+ */
+export async function runScheduledDetection(
+    trigger: SchedulerRun['trigger'],
+    options: {
+        force?: boolean;
+        /**
+         * Hand off the idea job instead of waiting for it. The run (and
+         * its lock) then ends once the edition is saved — for callers
+         * with a hard time limit, like the cron route.
+         */
+        onIdeaJob?: (done: Promise<IdeaJob>) => void;
+    } = {},
+): Promise<SchedulerOutcome> {
+    const { intervalMinutes, mode } = getSchedulerConfig();
+    const state = await readSchedulerState();
+
+    if (!options.force && !isDue(state, Date.now())) {
+        return { status: 'skipped', reason: 'not-due', nextRunAt: state.nextRunAt };
+    }
+    if (!(await acquireLock())) {
+        return { status: 'skipped', reason: 'locked', nextRunAt: state.nextRunAt };
+    }
+
+    const started = Date.now();
+    const run: SchedulerRun = { trigger, mode, status: 'running', startedAt: new Date(started).toISOString() };
+    const nextRunAt = new Date(started + intervalMinutes * 60 * 1000).toISOString();
+
+    try {
+        console.log(`⏰ Scheduled detection started (${trigger}, ${mode})`);
+        await writeSchedulerState({ lastRun: run, nextRunAt, intervalMinutes });
+
+        const { data: signals } = await collectAllSignals({ forceRefresh: true });
+        // An empty edition would make every narrative look "new" next run
+        if (signals.length === 0) throw new Error('No signals collected — all collectors empty or failed');
+
+        const { narratives } = mode === 'heuristic'
+            ? detectNarrativesHeuristic(signals)
+            : await withUsageRun(`scheduler:${trigger}`, () => detectNarratives(signals));
+
+        const edition = await saveEdition(narratives, signals.length, Date.now() - started);
+
+        // The worker owns its idea job until it ends; time-limited callers
+        // get it handed off and the job persists ideas on its own
+        const needIdeas = narratives.filter(n => n.ideas.length === 0);
+        if (needIdeas.length > 0) {
+            const { job, done } = startIdeaJob(needIdeas, { editionId: edition.id, route: `scheduler:${trigger}` });
+            run.ideaJobId = job.id;
+            if (options.onIdeaJob) options.onIdeaJob(done);
+            else await done;
+        }
+
+        Object.assign(run, {
+            status: 'ok',
+            editionId: edition.id,
+            narrativeCount: narratives.length,
+            signalCount: signals.length,
+        });
+        console.log(`⏰ Scheduled detection saved ${edition.id}: ${narratives.length} narratives, ${signals.length} signals`);
+    } catch (err: unknown) {
+        run.status = 'failed';
+        run.error = err instanceof Error ? err.message : String(err);
+        console.error('⏰ Scheduled detection failed:', err);
+    } finally {
+        run.finishedAt = new Date().toISOString();
+        run.durationMs = Date.now() - started;
+        await writeSchedulerState({ lastRun: run, nextRunAt, intervalMinutes });
+        await releaseLock();
+    }
+
+    return { status: 'completed', run, nextRunAt };
+}
@@ -0,0 +1,248 @@
+// ============================================================
+// Solana Narrative Pulse — Signal Time-Series Store
+// ============================================================
+// Append-only record of every collected signal value, so metrics
+// outlive the 5-minute signal cache and can be charted over time.
+//
+// Layout: one JSONL segment per UTC day under data/signals/,
+//   data/signals/2026-10-19.jsonl
+// Each line is one SignalPoint keyed by signal id + metric.
+// Writes are serialized through a promise mutex and are best-effort
+// (read-only deployments keep working, they just don't record).
+// A point whose timestamp matches its series' last point in the
+// segment is skipped, so a cached collector result re-served by this
+// or another process (the scheduler worker, the web app) isn't
+// appended twice.
+
+import { Signal } from '@/lib/types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface SignalPoint {
+    id: string;
+    metric: string;
+    source: Signal['source'];
+    category: string;
+    value: number;
+    delta: number;
+    strength: number;
+    timestamp: string;    // the signal's own timestamp
+    recordedAt: string;   // when this point was appended
+}
+
+export interface SignalHistoryQuery {
+    id: string;
+    metric?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+}
+
+// ── Storage config ──────────────────────────────────────────
+
+const STORE_DIR = path.join(process.cwd(), 'data', 'signals');
+const DEFAULT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_WINDOW_MS = 365 * 24 * 60 * 60 * 1000;
+const DEFAULT_LIMIT = 1000;
+
+// Last timestamp this process recorded per series — skips re-served
+// cached results before touching disk; the segment check covers the rest
+const lastRecorded = new Map<string, string>();
+
+// Parsed segments, reused until the file's size or mtime changes
+const segmentCache = new Map<string, { size: number; mtimeMs: number; points: SignalPoint[] }>();
+
+// Simple promise-based mutex for serializing disk writes
+let writeLock: Promise<void> = Promise.resolve();
+
+export function seriesKey(id: string, metric: string): string {
+    return `${id}::${metric}`;
+}
+
+function dayKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function segmentFile(day: string): string {
+    return path.join(STORE_DIR, `${day}.jsonl`);
+}
+
+function toDate(timestamp: string): Date {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? new Date() : date;
+}
+
+// ── Write path ──────────────────────────────────────────────
+
+/**
+ * Append the given signals to the store. Non-blocking: the write is
+ * queued behind any in-flight write and failures are logged, not thrown.
+ */
+export function recordSignals(signals: Signal[]): void {
+    const recordedAt = new Date().toISOString();
+    const bySegment = new Map<string, SignalPoint[]>();
+
+    for (const s of signals) {
+        if (!Number.isFinite(s.value)) continue;
+
+        const key = seriesKey(s.id, s.metric);
+        if (lastRecorded.get(key) === s.timestamp) continue;
+        lastRecorded.set(key, s.timestamp);
+
+        const point: SignalPoint = {
+            id: s.id,
+            metric: s.metric,
+            source: s.source,
+            category: s.category,
+            value: s.value,
+            delta: Number.isFinite(s.delta) ? s.delta : 0,
+            strength: s.strength,
+            timestamp: s.timestamp,
+            recordedAt,
+        };
+
+        const day = dayKey(toDate(s.timestamp));
+        const points = bySegment.get(day) || [];
+        points.push(point);
+        bySegment.set(day, points);
+    }
+
+    if (bySegment.size === 0) return;
+
+    writeLock = writeLock
+        .then(async () => {
+            try {
+                await fs.mkdir(STORE_DIR, { recursive: true });
+                for (const [day, points] of bySegment) {
+                    await appendToSegment(day, points);
+                }
+            } catch (err) {
+                // Best-effort — read-only FS or permission issues are non-fatal
+                console.warn('Signal store: append failed (non-fatal):', err);
+            }
+        })
+        .catch(() => {
+            // Never let the lock chain break
+        });
+}
+
+// Latest timestamp per series in `keys`, scanning the segment from its end
+function lastTimestamps(points: SignalPoint[], keys: Set<string>): Map<string, string> {
+    const found = new Map<string, string>();
+    for (let i = points.length - 1; i >= 0 && found.size < keys.size; i--) {
+        const key = seriesKey(points[i].id, points[i].metric);
+        if (keys.has(key) && !found.has(key)) found.set(key, points[i].timestamp);
+    }
+    return found;
+}
+
+async function appendToSegment(day: string, points: SignalPoint[]): Promise<void> {
+    const existing = await readSegment(day);
+    const last = lastTimestamps(existing, new Set(points.map(p => seriesKey(p.id, p.metric))));
+    const fresh = points.filter(p => last.get(seriesKey(p.id, p.metric)) !== p.timestamp);
+    if (fresh.length === 0) return;
+
+    const file = segmentFile(day);
+    const text = fresh.map(p => JSON.stringify(p)).join('\n') + '\n';
+    await fs.appendFile(file, text, 'utf-8');
+
+    // Extend the cached segment instead of re-parsing it next time,
+    // unless another process appended in between
+    const cached = segmentCache.get(day);
+    const stat = await fs.stat(file);
+    if (cached && cached.points === existing && cached.size + Buffer.byteLength(text) === stat.size) {
+        cached.points.push(...fresh);
+        cached.size = stat.size;
+        cached.mtimeMs = stat.mtimeMs;
+    }
+}
+
+// ── Read path ───────────────────────────────────────────────
+
+async function readSegment(day: string): Promise<SignalPoint[]> {
+    const file = segmentFile(day);
+    try {
+        const stat = await fs.stat(file);
+        const cached = segmentCache.get(day);
+        if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+            return cached.points;
+        }
+        const points = parseSegment(await fs.readFile(file, 'utf-8'));
+        segmentCache.set(day, { size: stat.size, mtimeMs: stat.mtimeMs, points });
+        return points;
+    } catch {
+        return []; // No data recorded that day
+    }
+}
+
+function parseSegment(raw: string): SignalPoint[] {
+    const points: SignalPoint[] = [];
+    for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            points.push(JSON.parse(line) as SignalPoint);
+        } catch {
+            // Skip a torn or malformed line rather than failing the query
+        }
+    }
+    return points;
+}
+
+// Read every point whose timestamp falls in [from, to], oldest first
+async function readRange(from: Date, to: Date): Promise<SignalPoint[]> {
+    // Let queued appends land first so a read right after a run sees them
+    await writeLock;
+
+    const days: string[] = [];
+    const cursor = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+    while (cursor.getTime() <= to.getTime()) {
+        days.push(dayKey(cursor));
+        cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+
+    const points: SignalPoint[] = [];
+    for (const day of days) {
+        for (const p of await readSegment(day)) {
+            const t = toDate(p.timestamp).getTime();
+            if (t >= from.getTime() && t <= to.getTime()) points.push(p);
+        }
+    }
+
+    points.sort((a, b) => toDate(a.timestamp).getTime() - toDate(b.timestamp).getTime());
+    return points;
+}
+
+/**
+ * Query the recorded history of one signal, oldest first.
+ * Defaults to the last 7 days and 1000 points (most recent kept);
+ * windows longer than a year are clamped to the most recent year.
+ */
+export async function querySignalHistory(query: SignalHistoryQuery): Promise<SignalPoint[]> {
+    const to = query.to || new Date();
+    const earliest = new Date(to.getTime() - MAX_WINDOW_MS);
+    let from = query.from || new Date(to.getTime() - DEFAULT_WINDOW_MS);
+    if (from < earliest) from = earliest;
+    const limit = query.limit || DEFAULT_LIMIT;
+
+    const matches = (await readRange(from, to)).filter(p =>
+        p.id === query.id && (!query.metric || p.metric === query.metric)
+    );
+    return matches.slice(-limit);
+}
+
+/**
+ * Load every recorded series in a time window, grouped by seriesKey(id, metric).
+ * Used for batch lookups (e.g. baselines for a whole collection run).
+ */
+export async function loadSignalSeries(from: Date, to: Date = new Date()): Promise<Map<string, SignalPoint[]>> {
+    const series = new Map<string, SignalPoint[]>();
+    for (const p of await readRange(from, to)) {
+        const key = seriesKey(p.id, p.metric);
+        const list = series.get(key) || [];
+        list.push(p);
+        series.set(key, list);
+    }
+    return series;
+}
@@ -83,8 +83,13 @@ export async function collectAgentKitSignals(): Promise<CollectorResult<Signal[]
                 category: 'Agent Kit Trending',
                 metric: 'trending_rank',
                 value: i + 1,
-                delta: token.price_change_24h || 0,
+                // Rank change vs. the previous run is filled in by the baseline
+                // service; the token's price move is context, not a rank delta
+                delta: 0,
                 description: `[Agent Kit] ${token.name || 'Unknown'} (${token.symbol || '?'}) trending on Solana — rank #${i + 1}`,
+                fullText: token.price_change_24h
+                    ? `Price change 24h: ${token.price_change_24h > 0 ? '+' : ''}${Number(token.price_change_24h).toFixed(1)}%`
+                    : undefined,
                 relatedTokens: [token.symbol || ''].filter(Boolean),
                 relatedProjects: [],
                 timestamp: collectedAt,
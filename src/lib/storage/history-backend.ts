@@ -0,0 +1,87 @@
+// ============================================================
+// Solana Narrative Pulse — History Storage Backend
+// ============================================================
+// Interface between history.ts and where editions live.
+//
+//   sqlite (default) — data/narrative-history.db, unlimited editions,
+//                      full Narrative objects, indexed lookups
+//   json             — the original data/narrative-history.json
+//                      (last 20 editions, summaries only)
+//
+// Selected with HISTORY_BACKEND=sqlite|json. If SQLite can't be
+// opened (native module missing, read-only FS), we fall back to json.
+
+import type { BuildIdea, Narrative } from '@/lib/types';
+import type { EditionNarrative, NarrativeEdition } from '@/lib/history';
+import { openJsonHistoryBackend } from './json-history';
+import { openSqliteHistoryBackend } from './sqlite-history';
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface EditionQuery {
+    limit?: number;
+    offset?: number;
+    from?: Date;
+    to?: Date;
+}
+
+export interface NarrativeQuery {
+    slug?: string;
+    lineageId?: string;
+    category?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+}
+
+/** One narrative as it appeared in one edition */
+export interface NarrativeRecord {
+    editionId: string;
+    detectedAt: string;
+    narrative: EditionNarrative;
+}
+
+export interface HistoryBackend {
+    readonly name: 'sqlite' | 'json';
+    /** Editions newest first */
+    listEditions(query?: EditionQuery): Promise<NarrativeEdition[]>;
+    countEditions(): Promise<number>;
+    getEdition(id: string): Promise<NarrativeEdition | null>;
+    /** `narratives` are the full objects behind `edition.narratives`, same order */
+    saveEdition(edition: NarrativeEdition, narratives: Narrative[]): Promise<void>;
+    /** Matching narratives newest first */
+    findNarratives(query: NarrativeQuery): Promise<NarrativeRecord[]>;
+    /** Full Narrative (signals, ideas) by narrative id, when the backend keeps it */
+    getNarrative(id: string): Promise<Narrative | null>;
+    /** Full Narrative as saved in one edition, when the backend keeps it */
+    getEditionNarrative(editionId: string, narrativeId: string): Promise<Narrative | null>;
+    /** Replace one saved narrative's ideas (generated after the edition was saved) */
+    updateNarrativeIdeas(editionId: string, narrativeId: string, ideas: BuildIdea[]): Promise<void>;
+}
+
+// ── Backend selection ────────────────────────────────────────
+
+let backendPromise: Promise<HistoryBackend> | null = null;
+
+async function openBackend(): Promise<HistoryBackend> {
+    if (process.env.HISTORY_BACKEND !== 'json') {
+        try {
+            const sqlite = await openSqliteHistoryBackend();
+            console.log('🗄️ History backend: sqlite');
+            return sqlite;
+        } catch (err) {
+            console.warn('History: SQLite unavailable, falling back to JSON file:', err);
+        }
+    }
+    const json = await openJsonHistoryBackend();
+    console.log('🗄️ History backend: json');
+    return json;
+}
+
+/**
+ * The process-wide history backend, opened (and migrated) on first use.
+ */
+export function getHistoryBackend(): Promise<HistoryBackend> {
+    if (!backendPromise) backendPromise = openBackend();
+    return backendPromise;
+}
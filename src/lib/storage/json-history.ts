@@ -0,0 +1,137 @@
+// ============================================================
+// Solana Narrative Pulse — JSON File History Backend
+// ============================================================
+// The original storage: in-memory primary store with async file
+// persistence as backup. Kept as the fallback backend.
+//
+//   1. Non-blocking I/O (fs.promises instead of sync)
+//   2. Concurrency-safe (in-memory primary + write mutex for disk)
+//   3. Works on read-only deployments (memory always works; disk is best-effort)
+//
+// Stores edition summaries only (no signals/ideas), last 20 editions.
+
+import type { BuildIdea } from '@/lib/types';
+import type { NarrativeEdition, NarrativeHistoryData } from '@/lib/history';
+import type { EditionQuery, HistoryBackend, NarrativeQuery, NarrativeRecord } from './history-backend';
+import { backfillLineages } from '@/lib/narrative-identity';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// ── Storage config ──────────────────────────────────────────
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+export const HISTORY_JSON_FILE = path.join(DATA_DIR, 'narrative-history.json');
+const MAX_EDITIONS = 20;
+
+/**
+ * Read the legacy JSON history file, with lineages backfilled.
+ * Returns null when the file doesn't exist or can't be parsed.
+ */
+export async function readHistoryFile(): Promise<NarrativeHistoryData | null> {
+    try {
+        const raw = await fs.readFile(HISTORY_JSON_FILE, 'utf-8');
+        const data = JSON.parse(raw) as NarrativeHistoryData;
+        backfillLineages(data.editions);
+        return data;
+    } catch {
+        return null;
+    }
+}
+
+function inRange(detectedAt: string, from?: Date, to?: Date): boolean {
+    const t = new Date(detectedAt).getTime();
+    return (!from || t >= from.getTime()) && (!to || t <= to.getTime());
+}
+
+// ── Persist to disk (best-effort, non-blocking) ─────────────
+
+// Simple promise-based mutex for serializing disk writes
+let writeLock: Promise<void> = Promise.resolve();
+
+function persistToDisk(data: NarrativeHistoryData): void {
+    // Chain onto the write lock so concurrent saves don't interleave
+    writeLock = writeLock
+        .then(async () => {
+            try {
+                await fs.mkdir(DATA_DIR, { recursive: true });
+                // Write to a temp file first, then rename for atomicity
+                const tmp = `${HISTORY_JSON_FILE}.tmp`;
+                await fs.writeFile(tmp, JSON.stringify(data, null, 2), 'utf-8');
+                await fs.rename(tmp, HISTORY_JSON_FILE);
+            } catch (err) {
+                // Best-effort — read-only FS or permission issues are non-fatal
+                console.warn('History: disk persist failed (non-fatal):', err);
+            }
+        })
+        .catch(() => {
+            // Never let the lock chain break
+        });
+}
+
+// ── Backend ─────────────────────────────────────────────────
+
+export async function openJsonHistoryBackend(): Promise<HistoryBackend> {
+    const data: NarrativeHistoryData = await readHistoryFile()
+        || { editions: [], lastUpdated: new Date().toISOString() };
+
+    return {
+        name: 'json',
+
+        async listEditions(query: EditionQuery = {}) {
+            const offset = query.offset || 0;
+            return data.editions
+                .filter(e => inRange(e.detectedAt, query.from, query.to))
+                .slice(offset, query.limit !== undefined ? offset + query.limit : undefined);
+        },
+
+        async countEditions() {
+            return data.editions.length;
+        },
+
+        async getEdition(id: string) {
+            return data.editions.find(e => e.id === id) || null;
+        },
+
+        async saveEdition(edition: NarrativeEdition) {
+            // Update in-memory store (immediate, synchronous)
+            data.editions.unshift(edition);
+            if (data.editions.length > MAX_EDITIONS) {
+                data.editions = data.editions.slice(0, MAX_EDITIONS);
+            }
+            data.lastUpdated = new Date().toISOString();
+
+            // Persist to disk (async, non-blocking, best-effort)
+            persistToDisk(data);
+        },
+
+        async findNarratives(query: NarrativeQuery) {
+            const records: NarrativeRecord[] = [];
+            for (const e of data.editions) {
+                if (!inRange(e.detectedAt, query.from, query.to)) continue;
+                for (const n of e.narratives) {
+                    if (query.slug && n.slug !== query.slug) continue;
+                    if (query.lineageId && n.lineageId !== query.lineageId) continue;
+                    if (query.category && n.category !== query.category) continue;
+                    records.push({ editionId: e.id, detectedAt: e.detectedAt, narrative: n });
+                }
+            }
+            return query.limit !== undefined ? records.slice(0, query.limit) : records;
+        },
+
+        async getNarrative() {
+            return null; // summaries only
+        },
+
+        async getEditionNarrative() {
+            return null;
+        },
+
+        async updateNarrativeIdeas(editionId: string, narrativeId: string, ideas: BuildIdea[]) {
+            const narrative = data.editions.find(e => e.id === editionId)?.narratives.find(n => n.id === narrativeId);
+            if (!narrative) return;
+            narrative.ideaCount = ideas.length;
+            narrative.ideaTitles = ideas.map(i => i.title);
+            persistToDisk(data);
+        },
+    };
+}
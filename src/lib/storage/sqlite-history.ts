@@ -0,0 +1,235 @@
+// ============================================================
+// Solana Narrative Pulse — SQLite History Backend
+// ============================================================
+// Editions in data/narrative-history.db (better-sqlite3, WAL mode).
+//
+//   editions    — one row per detection run
+//   narratives  — one row per narrative per edition: indexed columns
+//                 for slug / lineage / category / date lookups, the
+//                 EditionNarrative summary, and the full Narrative
+//                 (signals + ideas) as JSON
+//
+// No edition cap — each save is a single small transaction instead
+// of rewriting a whole file. On first open, editions from the legacy
+// narrative-history.json are imported (the file is left in place).
+
+import Database from 'better-sqlite3';
+import type { BuildIdea, Narrative } from '@/lib/types';
+import type { EditionNarrative, NarrativeEdition } from '@/lib/history';
+import type { EditionQuery, HistoryBackend, NarrativeQuery, NarrativeRecord } from './history-backend';
+import { readHistoryFile } from './json-history';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// ── Storage config ──────────────────────────────────────────
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const DB_FILE = path.join(DATA_DIR, 'narrative-history.db');
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS editions (
+    id              TEXT PRIMARY KEY,
+    detected_at     TEXT NOT NULL,
+    signal_count    INTEGER NOT NULL,
+    processing_time INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_editions_detected_at ON editions (detected_at);
+
+CREATE TABLE IF NOT EXISTS narratives (
+    edition_id  TEXT NOT NULL REFERENCES editions (id) ON DELETE CASCADE,
+    position    INTEGER NOT NULL,
+    id          TEXT NOT NULL,
+    slug        TEXT NOT NULL,
+    lineage_id  TEXT,
+    category    TEXT NOT NULL,
+    detected_at TEXT NOT NULL,
+    summary     TEXT NOT NULL,
+    full        TEXT,
+    PRIMARY KEY (edition_id, position)
+);
+CREATE INDEX IF NOT EXISTS idx_narratives_id ON narratives (id);
+CREATE INDEX IF NOT EXISTS idx_narratives_slug ON narratives (slug, detected_at);
+CREATE INDEX IF NOT EXISTS idx_narratives_lineage ON narratives (lineage_id, detected_at);
+CREATE INDEX IF NOT EXISTS idx_narratives_category ON narratives (category, detected_at);
+CREATE INDEX IF NOT EXISTS idx_narratives_detected_at ON narratives (detected_at);
+
+CREATE TABLE IF NOT EXISTS meta (
+    key   TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+`;
+
+// ── Row types ───────────────────────────────────────────────
+
+interface EditionRow {
+    id: string;
+    detected_at: string;
+    signal_count: number;
+    processing_time: number;
+}
+
+interface NarrativeRow {
+    edition_id: string;
+    detected_at: string;
+    summary: string;
+}
+
+interface StoredNarrativeRow {
+    position: number;
+    summary: string;
+    full: string | null;
+}
+
+// ISO timestamps sort lexicographically, so ranges compare as text
+function rangeBounds(from?: Date, to?: Date): [string, string] {
+    return [from ? from.toISOString() : '', to ? to.toISOString() : '9999'];
+}
+
+// ── Backend ─────────────────────────────────────────────────
+
+export async function openSqliteHistoryBackend(): Promise<HistoryBackend> {
+    await fs.mkdir(DATA_DIR, { recursive: true });
+    const db = new Database(DB_FILE);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    db.exec(SCHEMA);
+
+    const insertEdition = db.prepare(
+        'INSERT OR IGNORE INTO editions (id, detected_at, signal_count, processing_time) VALUES (?, ?, ?, ?)'
+    );
+    const insertNarrative = db.prepare(
+        `INSERT OR REPLACE INTO narratives (edition_id, position, id, slug, lineage_id, category, detected_at, summary, full)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    const writeEdition = db.transaction((edition: NarrativeEdition, narratives: (Narrative | null)[]) => {
+        insertEdition.run(edition.id, edition.detectedAt, edition.signalCount, edition.processingTime);
+        edition.narratives.forEach((n, position) => {
+            const full = narratives[position];
+            insertNarrative.run(
+                edition.id, position, n.id, n.slug, n.lineageId ?? null, n.category,
+                edition.detectedAt, JSON.stringify(n), full ? JSON.stringify(full) : null,
+            );
+        });
+    });
+
+    await migrateJsonHistory(db, writeEdition);
+
+    // Attach narratives (in saved order) to edition rows
+    function hydrate(rows: EditionRow[]): NarrativeEdition[] {
+        if (rows.length === 0) return [];
+        const narratives = db
+            .prepare(`SELECT edition_id, detected_at, summary FROM narratives WHERE edition_id IN (${rows.map(() => '?').join(',')}) ORDER BY position`)
+            .all(...rows.map(r => r.id)) as NarrativeRow[];
+
+        const byEdition = new Map<string, EditionNarrative[]>();
+        for (const row of narratives) {
+            const list = byEdition.get(row.edition_id) || [];
+            list.push(JSON.parse(row.summary) as EditionNarrative);
+            byEdition.set(row.edition_id, list);
+        }
+
+        return rows.map(r => ({
+            id: r.id,
+            detectedAt: r.detected_at,
+            narratives: byEdition.get(r.id) || [],
+            signalCount: r.signal_count,
+            processingTime: r.processing_time,
+        }));
+    }
+
+    return {
+        name: 'sqlite',
+
+        async listEditions(query: EditionQuery = {}) {
+            const rows = db
+                .prepare('SELECT * FROM editions WHERE detected_at >= ? AND detected_at <= ? ORDER BY detected_at DESC LIMIT ? OFFSET ?')
+                .all(...rangeBounds(query.from, query.to), query.limit ?? -1, query.offset ?? 0) as EditionRow[];
+            return hydrate(rows);
+        },
+
+        async countEditions() {
+            return (db.prepare('SELECT COUNT(*) AS count FROM editions').get() as { count: number }).count;
+        },
+
+        async getEdition(id: string) {
+            const row = db.prepare('SELECT * FROM editions WHERE id = ?').get(id) as EditionRow | undefined;
+            return row ? hydrate([row])[0] : null;
+        },
+
+        async saveEdition(edition: NarrativeEdition, narratives: Narrative[]) {
+            writeEdition(edition, narratives);
+        },
+
+        async findNarratives(query: NarrativeQuery) {
+            const where = ['detected_at >= ?', 'detected_at <= ?'];
+            const params: (string | number)[] = [...rangeBounds(query.from, query.to)];
+            if (query.slug) { where.push('slug = ?'); params.push(query.slug); }
+            if (query.lineageId) { where.push('lineage_id = ?'); params.push(query.lineageId); }
+            if (query.category) { where.push('category = ?'); params.push(query.category); }
+
+            const rows = db
+                .prepare(`SELECT edition_id, detected_at, summary FROM narratives WHERE ${where.join(' AND ')} ORDER BY detected_at DESC, position LIMIT ?`)
+                .all(...params, query.limit ?? -1) as NarrativeRow[];
+
+            return rows.map((r): NarrativeRecord => ({
+                editionId: r.edition_id,
+                detectedAt: r.detected_at,
+                narrative: JSON.parse(r.summary) as EditionNarrative,
+            }));
+        },
+
+        async getNarrative(id: string) {
+            const row = db
+                .prepare('SELECT full FROM narratives WHERE id = ? AND full IS NOT NULL ORDER BY detected_at DESC LIMIT 1')
+                .get(id) as { full: string } | undefined;
+            return row ? JSON.parse(row.full) as Narrative : null;
+        },
+
+        async getEditionNarrative(editionId: string, narrativeId: string) {
+            const row = db
+                .prepare('SELECT full FROM narratives WHERE edition_id = ? AND id = ? AND full IS NOT NULL')
+                .get(editionId, narrativeId) as { full: string } | undefined;
+            return row ? JSON.parse(row.full) as Narrative : null;
+        },
+
+        async updateNarrativeIdeas(editionId: string, narrativeId: string, ideas: BuildIdea[]) {
+            const row = db
+                .prepare('SELECT position, summary, full FROM narratives WHERE edition_id = ? AND id = ?')
+                .get(editionId, narrativeId) as StoredNarrativeRow | undefined;
+            if (!row) return;
+
+            const summary = JSON.parse(row.summary) as EditionNarrative;
+            summary.ideaCount = ideas.length;
+            summary.ideaTitles = ideas.map(i => i.title);
+            const full = row.full ? { ...JSON.parse(row.full) as Narrative, ideas } : null;
+            db.prepare('UPDATE narratives SET summary = ?, full = ? WHERE edition_id = ? AND position = ?')
+                .run(JSON.stringify(summary), full ? JSON.stringify(full) : null, editionId, row.position);
+        },
+    };
+}
+
+// ── Migration from narrative-history.json ───────────────────
+
+async function migrateJsonHistory(
+    db: Database.Database,
+    writeEdition: (edition: NarrativeEdition, narratives: (Narrative | null)[]) => void,
+): Promise<void> {
+    const done = db.prepare("SELECT value FROM meta WHERE key = 'json_migrated'").get();
+    if (done) return;
+
+    const legacy = await readHistoryFile();
+    const editions = legacy?.editions || [];
+
+    // Oldest first, so rowid order matches history order
+    db.transaction(() => {
+        for (const edition of [...editions].reverse()) {
+            writeEdition(edition, edition.narratives.map(() => null));
+        }
+        db.prepare("INSERT INTO meta (key, value) VALUES ('json_migrated', ?)").run(new Date().toISOString());
+    })();
+
+    if (editions.length > 0) {
+        console.log(`📦 History: migrated ${editions.length} editions from narrative-history.json`);
+    }
+}
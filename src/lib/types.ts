@@ -4,7 +4,7 @@
 
 export interface Signal {
     id: string;
-    source: 'onchain' | 'github' | 'market' | 'social' | 'defi-llama' | 'governance';
+    source: 'onchain' | 'github' | 'market' | 'social' | 'defi-llama' | 'governance' | 'anomaly';
     category: string;
     metric: string;
     value: number;
@@ -14,6 +14,9 @@ export interface Signal {
     relatedProjects: string[];
     timestamp: string;
     strength: number;     // 0-100 normalized score
+    baseline?: number;    // Rolling 7-day mean of this signal's recorded values
+    zScore?: number;      // Std deviations from `baseline` (set once enough history exists)
+    relatedSignalIds?: string[]; // Underlying signals a derived (anomaly) signal refers to
     aiContext?: string;   // Specific insight: "Inflow likely driven by new 30% APY incentive..."
     sourceUrl?: string;   // Direct link to source (tweet URL, DeFi Llama page, GitHub repo, etc.)
     fullText?: string;    // Full untruncated content (for tweets, RSS summaries, etc.)
@@ -38,6 +41,26 @@ export interface Narrative {
         actionables: string[];
         risks: string[];
     };
+    verification?: NarrativeVerification;  // Evidence check of the LLM's citations (ai/verifier.ts)
+}
+
+export interface NarrativeVerification {
+    // verified: every claim matches a cited signal; unverified: some claims have
+    // no matching figure; flagged: unknown signal ids or a misquoted figure
+    status: 'verified' | 'unverified' | 'flagged';
+    unknownSignalIds: string[];  // Cited by the model but not among the input signals (dropped)
+    claims: NumericClaim[];
+    checkedAt: string;
+}
+
+export interface NumericClaim {
+    text: string;         // As written: "+45%", "$1.2B"
+    value: number;        // Parsed, suffix applied
+    kind: 'percent' | 'amount';
+    field: 'summary' | 'explanation';
+    status: 'matched' | 'mismatch' | 'unsupported';
+    signalId?: string;    // Cited signal holding the matching (or nearest) figure
+    expected?: number;    // That signal's figure
 }
 
 export type NarrativeCategory =
@@ -117,6 +140,19 @@ export interface CollectorResult<T> {
     error?: string;
 }
 
+export interface CollectorHealth {
+    name: string;
+    status: 'ok' | 'empty' | 'failed' | 'timed-out' | 'disabled';
+    latencyMs: number;
+    signalCount: number;
+    error?: string;
+    fromCache: boolean;
+}
+
+export interface AggregatedSignals extends CollectorResult<Signal[]> {
+    health: CollectorHealth[];
+}
+
 export interface AgentHeartbeat {
     status: 'ok' | 'degraded' | 'blocked';
     agentName: string;
@@ -125,6 +161,8 @@ export interface AgentHeartbeat {
     capabilities: string[];
     lastAction: string;
     nextAction: string;
+    lastRunAt?: string | null;   // last scheduled detection (see lib/scheduler.ts)
+    nextRunAt?: string | null;
 }
 
 export interface NarrativeDetectionResult {
@@ -0,0 +1,345 @@
+// ============================================================
+// Solana Narrative Pulse — LLM Usage Ledger
+// ============================================================
+// One entry per model call made by the router: provider, model,
+// role, prompt/completion tokens, estimated cost, latency and the
+// route that caused it. Response-cache hits are recorded at no cost
+// (status "cached"). Append-only JSONL, one segment per UTC day:
+//   data/usage/2026-10-19.jsonl
+// Writes are queued behind a promise mutex and best-effort, like the
+// signal store. The day's spend is re-read whenever the segment's size
+// or mtime changes, so budgets see calls made by other processes (the
+// web app and the scheduler worker share one daily budget).
+//
+// Budgets (USD, unset = unlimited):
+//   LLM_DAILY_BUDGET_USD   spend across the UTC day
+//   LLM_RUN_BUDGET_USD     spend within one run (a detection, an idea
+//                          regeneration, a deep-dive request)
+// Past LLM_BUDGET_DOWNGRADE_AT (fraction, default 0.8) of either
+// budget, roles are routed to the cheap fallback chain; at 100% only
+// free targets (local / mock) are called and the rest are refused.
+//
+// A "run" is scoped with withUsageRun(route, fn); every call made
+// inside fn — however deep — is attributed to that route and run.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { LlmProvider, ModelRole, ModelTarget } from '@/lib/ai/model-config';
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface UsageEntry {
+    at: string;
+    route: string;
+    runId: string;
+    role: ModelRole;
+    provider: LlmProvider;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    latencyMs: number;
+    status: 'ok' | 'error' | 'refused' | 'cached';
+    /** Routed to the fallback chain by a budget */
+    downgraded?: boolean;
+    error?: string;
+}
+
+export type BudgetLevel = 'ok' | 'downgrade' | 'refuse';
+
+export interface BudgetStatus {
+    level: BudgetLevel;
+    reason?: string;
+    dailyBudgetUsd: number | null;
+    runBudgetUsd: number | null;
+    downgradeAt: number;
+    spentTodayUsd: number;
+    spentThisRunUsd: number;
+}
+
+export interface UsageTotals {
+    calls: number;
+    errors: number;
+    refused: number;
+    cached: number;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    avgLatencyMs: number;
+}
+
+export interface UsageReport {
+    from: string;
+    to: string;
+    totals: UsageTotals;
+    byDay: Record<string, UsageTotals>;
+    byRoute: Record<string, UsageTotals>;
+    byModel: Record<string, UsageTotals>;
+    byRole: Record<string, UsageTotals>;
+    budget: BudgetStatus;
+    recent: UsageEntry[];
+}
+
+interface UsageRun {
+    route: string;
+    runId: string;
+    spentUsd: number;
+}
+
+// ── Config ───────────────────────────────────────────────────
+
+const LEDGER_DIR = path.join(process.cwd(), 'data', 'usage');
+const MAX_REPORT_DAYS = 90;
+
+// USD per 1M tokens, matched by model-name prefix (specific before general).
+// Targets can override with inputCostPer1M / outputCostPer1M.
+const MODEL_PRICES: [string, { input: number; output: number }][] = [
+    ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+    ['gpt-4o', { input: 2.5, output: 10 }],
+    ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+    ['gpt-4.1-nano', { input: 0.1, output: 0.4 }],
+    ['gpt-4.1', { input: 2, output: 8 }],
+    ['o3-mini', { input: 1.1, output: 4.4 }],
+    ['o4-mini', { input: 1.1, output: 4.4 }],
+    ['claude-opus-4', { input: 15, output: 75 }],
+    ['claude-sonnet-4', { input: 3, output: 15 }],
+    ['claude-3-7-sonnet', { input: 3, output: 15 }],
+    ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+];
+
+function budgetEnv(name: string): number | null {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+const runs = new AsyncLocalStorage<UsageRun>();
+// Today's spend as last read from disk, with the segment's size and
+// mtime at that read — an append by any process changes them
+let today: { day: string; usd: number; size: number; mtimeMs: number } | null = null;
+// Spend whose append failed (read-only FS) still counts in this process
+let unpersisted: { day: string; usd: number } | null = null;
+
+// Simple promise-based mutex for serializing disk writes
+let writeLock: Promise<void> = Promise.resolve();
+
+function dayKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function segmentFile(day: string): string {
+    return path.join(LEDGER_DIR, `${day}.jsonl`);
+}
+
+// ── Runs ─────────────────────────────────────────────────────
+
+/**
+ * Run `fn` as one usage run: its LLM calls are attributed to `route`
+ * and count against LLM_RUN_BUDGET_USD together.
+ */
+export function withUsageRun<T>(route: string, fn: () => Promise<T>): Promise<T> {
+    const runId = `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    return runs.run({ route, runId, spentUsd: 0 }, fn);
+}
+
+// ── Pricing ──────────────────────────────────────────────────
+
+/** Free when local/mock or unpriced; otherwise per the table or target overrides */
+export function estimateCost(target: ModelTarget, promptTokens: number, completionTokens: number): number {
+    if (target.provider === 'mock' || target.provider === 'openai-compatible') {
+        if (target.inputCostPer1M === undefined && target.outputCostPer1M === undefined) return 0;
+    }
+    const listed = MODEL_PRICES.find(([prefix]) => target.model.startsWith(prefix))?.[1];
+    const input = target.inputCostPer1M ?? listed?.input ?? 0;
+    const output = target.outputCostPer1M ?? listed?.output ?? 0;
+    return (promptTokens * input + completionTokens * output) / 1_000_000;
+}
+
+/** True when calls to the target cost nothing — these bypass refusal */
+export function isFreeTarget(target: ModelTarget): boolean {
+    return estimateCost(target, 1_000_000, 1_000_000) === 0;
+}
+
+// ── Budgets ──────────────────────────────────────────────────
+
+async function spentToday(): Promise<number> {
+    // Let this process's queued appends land first
+    await writeLock;
+
+    const day = dayKey(new Date());
+    const stat = await fs.stat(segmentFile(day)).catch(() => null);
+    const size = stat?.size ?? 0;
+    const mtimeMs = stat?.mtimeMs ?? 0;
+    if (today?.day !== day || today.size !== size || today.mtimeMs !== mtimeMs) {
+        // New day or the segment changed — re-read to pick up other processes' spend
+        const entries = stat ? await readSegment(day) : [];
+        today = { day, usd: entries.reduce((sum, e) => sum + e.costUsd, 0), size, mtimeMs };
+    }
+    return today.usd + (unpersisted?.day === day ? unpersisted.usd : 0);
+}
+
+export async function getBudgetStatus(): Promise<BudgetStatus> {
+    const dailyBudgetUsd = budgetEnv('LLM_DAILY_BUDGET_USD');
+    const runBudgetUsd = budgetEnv('LLM_RUN_BUDGET_USD');
+    const downgradeAt = budgetEnv('LLM_BUDGET_DOWNGRADE_AT') ?? 0.8;
+    const spentTodayUsd = await spentToday();
+    const spentThisRunUsd = runs.getStore()?.spentUsd ?? 0;
+
+    let level: BudgetLevel = 'ok';
+    let reason: string | undefined;
+    for (const [label, spent, budget] of [
+        ['daily', spentTodayUsd, dailyBudgetUsd],
+        ['run', spentThisRunUsd, runBudgetUsd],
+    ] as const) {
+        if (budget === null) continue;
+        if (spent >= budget) {
+            level = 'refuse';
+            reason = `${label} budget of $${budget.toFixed(2)} spent ($${spent.toFixed(4)})`;
+            break;
+        }
+        if (level === 'ok' && spent >= budget * downgradeAt) {
+            level = 'downgrade';
+            reason = `${label} spend $${spent.toFixed(4)} past ${Math.round(downgradeAt * 100)}% of $${budget.toFixed(2)}`;
+        }
+    }
+
+    return { level, reason, dailyBudgetUsd, runBudgetUsd, downgradeAt, spentTodayUsd, spentThisRunUsd };
+}
+
+export function budgetExceededError(reason: string): Error & { code: string } {
+    return Object.assign(new Error(`LLM budget exceeded: ${reason}`), { code: 'LLM_BUDGET_EXCEEDED' });
+}
+
+export function isBudgetExceeded(err: unknown): boolean {
+    return (err as { code?: string } | null)?.code === 'LLM_BUDGET_EXCEEDED';
+}
+
+// ── Write path ───────────────────────────────────────────────
+
+/**
+ * Record one model call. Route/run come from the enclosing
+ * withUsageRun; spend counts towards the day and run at once, the
+ * disk append is queued.
+ */
+export function recordUsage(entry: Omit<UsageEntry, 'at' | 'route' | 'runId'>): void {
+    const run = runs.getStore();
+    const at = new Date();
+    const full: UsageEntry = {
+        at: at.toISOString(),
+        route: run?.route || 'unscoped',
+        runId: run?.runId || '',
+        ...entry,
+        costUsd: Math.round(entry.costUsd * 1e6) / 1e6,
+    };
+
+    // Day spend is read back from the segment once the append lands
+    if (run) run.spentUsd += full.costUsd;
+    const day = dayKey(at);
+
+    writeLock = writeLock
+        .then(async () => {
+            try {
+                await fs.mkdir(LEDGER_DIR, { recursive: true });
+                await fs.appendFile(segmentFile(day), JSON.stringify(full) + '\n', 'utf-8');
+            } catch (err) {
+                // Best-effort — read-only FS or permission issues are non-fatal
+                console.warn('Usage ledger: append failed (non-fatal):', err);
+                if (unpersisted?.day !== day) unpersisted = { day, usd: 0 };
+                unpersisted.usd += full.costUsd;
+            }
+        })
+        .catch(() => {
+            // Never let the lock chain break
+        });
+}
+
+// ── Read path ────────────────────────────────────────────────
+
+async function readSegment(day: string): Promise<UsageEntry[]> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(segmentFile(day), 'utf-8');
+    } catch {
+        return []; // No calls that day
+    }
+    const entries: UsageEntry[] = [];
+    for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            entries.push(JSON.parse(line) as UsageEntry);
+        } catch {
+            // Skip a torn or malformed line rather than failing the report
+        }
+    }
+    return entries;
+}
+
+function emptyTotals(): UsageTotals {
+    return { calls: 0, errors: 0, refused: 0, cached: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, avgLatencyMs: 0 };
+}
+
+function addTo(totals: UsageTotals, e: UsageEntry): void {
+    // avgLatencyMs is a running mean over calls that reached a model
+    const reached = totals.calls - totals.refused - totals.cached;
+    if (e.status === 'ok' || e.status === 'error') {
+        totals.avgLatencyMs = Math.round((totals.avgLatencyMs * reached + e.latencyMs) / (reached + 1));
+    }
+    totals.calls++;
+    if (e.status === 'error') totals.errors++;
+    if (e.status === 'refused') totals.refused++;
+    if (e.status === 'cached') totals.cached++;
+    totals.promptTokens += e.promptTokens;
+    totals.completionTokens += e.completionTokens;
+    totals.costUsd = Math.round((totals.costUsd + e.costUsd) * 1e6) / 1e6;
+}
+
+function addGrouped(groups: Record<string, UsageTotals>, key: string, e: UsageEntry): void {
+    if (!groups[key]) groups[key] = emptyTotals();
+    addTo(groups[key], e);
+}
+
+/**
+ * Usage between `from` and `to` (default: the last 7 days), totalled
+ * overall and by day, route, model and role, with the current budget
+ * status and the `recent` most recent calls.
+ */
+export async function getUsageReport(options: { from?: Date; to?: Date; route?: string; recent?: number } = {}): Promise<UsageReport> {
+    // Let queued appends land first so a report right after a run sees them
+    await writeLock;
+
+    const to = options.to || new Date();
+    const earliest = new Date(to.getTime() - MAX_REPORT_DAYS * 24 * 60 * 60 * 1000);
+    let from = options.from || new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+    if (from < earliest) from = earliest;
+
+    const entries: UsageEntry[] = [];
+    const cursor = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+    while (cursor.getTime() <= to.getTime()) {
+        for (const e of await readSegment(dayKey(cursor))) {
+            const t = new Date(e.at).getTime();
+            if (t >= from.getTime() && t <= to.getTime() && (!options.route || e.route === options.route)) entries.push(e);
+        }
+        cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+
+    const recent = options.recent ?? 20;
+    const report: UsageReport = {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        totals: emptyTotals(),
+        byDay: {},
+        byRoute: {},
+        byModel: {},
+        byRole: {},
+        budget: await getBudgetStatus(),
+        recent: recent > 0 ? entries.slice(-recent).reverse() : [],
+    };
+    for (const e of entries) {
+        addTo(report.totals, e);
+        addGrouped(report.byDay, e.at.slice(0, 10), e);
+        addGrouped(report.byRoute, e.route, e);
+        addGrouped(report.byModel, `${e.provider}/${e.model}`, e);
+        addGrouped(report.byRole, e.role, e);
+    }
+    return report;
+}
@@ -0,0 +1,452 @@
+// ============================================================
+// Solana Narrative Pulse — Watchlists
+// ============================================================
+// Everything the collectors monitor, editable at runtime via
+// /api/watchlists instead of constants in code:
+//
+//   programs    — on-chain programs polled for activity   (onchain)
+//   whales      — wallets tracked for SOL/token moves     (onchain)
+//   tokens      — CoinGecko prices + SPL mints on whales  (market, onchain)
+//   kols        — X accounts searched for Solana tweets   (social)
+//   feeds       — RSS feeds                               (social)
+//   githubOrgs  — orgs scanned for repo activity          (github)
+//
+// Stored in data/watchlists.json. Lists missing from the file use
+// the built-in defaults below. Collectors call getWatchlists() on
+// every run; the file is re-read when its mtime changes, so edits
+// made by the web app reach the scheduler worker without a restart.
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { isIP } from 'net';
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface WatchedProgram {
+    name: string;
+    address: string;
+    cat: string;
+}
+
+export interface WatchedWhale {
+    label: string;
+    address: string;
+    type: 'cex' | 'mm' | 'eco' | 'vc' | 'other';
+}
+
+export interface WatchedToken {
+    symbol: string;
+    /** Price tracking on CoinGecko */
+    coingeckoId?: string;
+    /** SPL mint — balances tracked on whale wallets */
+    mint?: string;
+}
+
+export interface WatchedKol {
+    name: string;
+    handle: string;
+    tags: string[];
+    weight: number;
+}
+
+export interface WatchedFeed {
+    name: string;
+    url: string;
+    category: string;
+    solanaOnly: boolean;
+}
+
+export interface WatchedOrg {
+    org: string;
+}
+
+export interface Watchlists {
+    programs: WatchedProgram[];
+    whales: WatchedWhale[];
+    tokens: WatchedToken[];
+    kols: WatchedKol[];
+    feeds: WatchedFeed[];
+    githubOrgs: WatchedOrg[];
+}
+
+export type WatchlistName = keyof Watchlists;
+export type WatchlistEntry = Watchlists[WatchlistName][number];
+
+export type WatchlistResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; status: 400 | 404 | 409; error: string };
+
+// ── Defaults ─────────────────────────────────────────────────
+
+export const DEFAULT_WATCHLISTS: Watchlists = {
+    programs: [
+        { name: 'Jupiter v6', address: 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4', cat: 'DeFi' },
+        { name: 'Raydium AMM', address: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8', cat: 'DeFi' },
+        { name: 'Orca Whirlpool', address: 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc', cat: 'DeFi' },
+        { name: 'Marinade', address: 'MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD', cat: 'Staking' },
+        { name: 'Drift Protocol', address: 'dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH', cat: 'DeFi' },
+        { name: 'Tensor', address: 'TSWAPaqyCSx2KABk68Shruf4rp7CxcNi8hAsbdwmHbN', cat: 'NFT' },
+        { name: 'Metaplex Core', address: 'CoREENxT6tW1HoK8ypY1SxRMZTcVPm7R94rH4PZNhX7d', cat: 'NFT' },
+        { name: 'Jito Tip', address: 'T1pyyaTNZsKv2WcRAB8oVnk93mLJw2XzjtVYqCsaHqt', cat: 'MEV' },
+        { name: 'Pyth Oracle', address: 'FsJ3A3u2vn5cTVofAjvy6y5kwABJAqYWpe4975bi2epH', cat: 'Infra' },
+        { name: 'Sanctum Router', address: 'sRouteGWUhqfFY8WoYMxHhGWReTMFcRC3o5LEqvSqf8', cat: 'Staking' },
+    ],
+    whales: [
+        // CEX wallets — track exchange inflows/outflows
+        { label: 'Binance Hot Wallet', address: '5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9', type: 'cex' },
+        { label: 'Coinbase Prime', address: 'GJRs4FwHtemZ5ZE9x3FNvJ8TMwitKTh21yxdRPqn7npE', type: 'cex' },
+        { label: 'Kraken', address: '2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm', type: 'cex' },
+        { label: 'OKX', address: '5VCwKtCXgCJ6kit5FybXjvriW3xELsFDhYrPSqtJNmcD', type: 'cex' },
+        { label: 'Bybit', address: 'AC5RDfQFmDS1deWZos921JfqscXdByf8BKHs5ACWjtW2', type: 'cex' },
+        // Market makers — track smart money positioning
+        { label: 'Jump Trading', address: 'jUPMchCHN8zVEm14TGrJXgrMa4bNEBEeREaKkBJvipF', type: 'mm' },
+        { label: 'Wintermute', address: 'CMS4BFbVgiSsPcV4JBmfcKUYVQVhJJFSQ7p8dXksJzQF', type: 'mm' },
+        // Ecosystem / Foundation
+        { label: 'Solana Foundation', address: 'GK2zqSsXLA2rwVZk347RYhh6jJXRsAkGMFSi7GDDsHTy', type: 'eco' },
+        // VCs
+        { label: 'Galaxy Digital', address: 'HUoZj36B4JStFmJp1BUi6BqSrpWWsn6n36v6EbQTueCx', type: 'vc' },
+        { label: 'Multicoin Capital', address: '4vJfp62jor7ReMxLYLAErqVoWJrsfYoFpvFJ3r4Jh6cD', type: 'vc' },
+        { label: 'Paradigm', address: '9kMFe8EPPdGREuqD74MPBXpT5Js2zSPNV3xBmdKL6xyJ', type: 'vc' },
+        { label: 'a16z', address: '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM', type: 'vc' },
+    ],
+    tokens: [
+        { symbol: 'SOL', coingeckoId: 'solana' },
+        { symbol: 'JTO', coingeckoId: 'jito-governance-token', mint: 'jtojtomepa8beP8AuQc6eXt5FriJwfFMwQx2v2f9mCL' },
+        { symbol: 'JUP', coingeckoId: 'jupiter-exchange-solana', mint: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN' },
+        { symbol: 'PYTH', coingeckoId: 'pyth-network' },
+        { symbol: 'RAY', coingeckoId: 'raydium' },
+        { symbol: 'ORCA', coingeckoId: 'orca' },
+        { symbol: 'MNDE', coingeckoId: 'marinade' },
+        { symbol: 'HNT', coingeckoId: 'helium' },
+        { symbol: 'MOBILE', coingeckoId: 'helium-mobile' },
+        { symbol: 'BONK', coingeckoId: 'bonk', mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263' },
+        { symbol: 'WIF', coingeckoId: 'dogwifcoin' },
+        { symbol: 'RENDER', coingeckoId: 'render-token' },
+        { symbol: 'W', coingeckoId: 'wormhole' },
+        { symbol: 'TENSOR', coingeckoId: 'tensor' },
+        { symbol: 'USDC', mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' },
+        { symbol: 'jitoSOL', mint: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn' },
+    ],
+    kols: [
+        { name: 'Mert Mumtaz', handle: '0xMert_', tags: ['Infrastructure', 'Helius', 'Validation'], weight: 90 },
+        { name: 'Anatoly Yakovenko', handle: 'aeyakovenko', tags: ['Protocol', 'Vision', 'Firedancer'], weight: 95 },
+        { name: 'Akshay BD', handle: 'akshaybd', tags: ['Community', 'Superteam', 'Growth'], weight: 85 },
+        { name: 'Raj Gokal', handle: 'rajgokal', tags: ['Solana', 'Strategy'], weight: 85 },
+        { name: 'Chase Barker', handle: 'therealchaseeb', tags: ['DeFi', 'Jupiter'], weight: 80 },
+        { name: 'Max Resnick', handle: 'MaxResnick', tags: ['Infrastructure', 'MEV', 'Protocol'], weight: 85 },
+        { name: 'Kash Dhanda', handle: 'kashdhanda', tags: ['Ecosystem', 'Growth'], weight: 80 },
+        { name: 'SOLBigBrain', handle: 'SOLBigBrain', tags: ['DeFi', 'Alpha', 'Trading'], weight: 80 },
+    ],
+    feeds: [
+        { name: 'Helius Blog', url: 'https://www.helius.dev/blog/rss.xml', category: 'Infrastructure', solanaOnly: true },
+        { name: 'Messari', url: 'https://messari.io/rss', category: 'Market Research', solanaOnly: false },
+        { name: 'Electric Capital', url: 'https://electriccapital.substack.com/feed', category: 'VC Report', solanaOnly: false },
+        { name: 'Solana Foundation', url: 'https://solana.com/news/rss', category: 'Ecosystem News', solanaOnly: true },
+        { name: 'Superteam', url: 'https://blog.superteam.fun/rss.xml', category: 'Community', solanaOnly: true },
+        { name: 'Jupiter', url: 'https://www.jup.ag/blog/rss.xml', category: 'DeFi', solanaOnly: true },
+        { name: 'Jito Labs', url: 'https://www.jito.network/blog/rss.xml', category: 'Infrastructure', solanaOnly: true },
+        { name: 'Marinade Finance', url: 'https://blog.marinade.finance/rss/', category: 'DeFi', solanaOnly: true },
+    ],
+    githubOrgs: [
+        'solana-labs', 'solana-foundation', 'jito-foundation', 'marinade-finance',
+        'jup-ag', 'helium', 'orca-so', 'raydium-io', 'drift-labs',
+        'metaplex-foundation', 'pyth-network', 'squads-protocol', 'tensor-hq',
+    ].map(org => ({ org })),
+};
+
+export const WATCHLIST_NAMES = Object.keys(DEFAULT_WATCHLISTS) as WatchlistName[];
+
+export function isWatchlistName(name: string): name is WatchlistName {
+    return (WATCHLIST_NAMES as string[]).includes(name);
+}
+
+// ── Entry keys & validation ──────────────────────────────────
+
+const BASE58_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const WHALE_TYPES: WatchedWhale['type'][] = ['cex', 'mm', 'eco', 'vc', 'other'];
+
+/**
+ * The identifying field of an entry — what /api/watchlists/<list>/<key>
+ * addresses. Compared case-insensitively except for base58 addresses.
+ */
+export function entryKey(list: WatchlistName, entry: WatchlistEntry): string {
+    switch (list) {
+        case 'programs':
+        case 'whales':
+            return (entry as WatchedProgram | WatchedWhale).address;
+        case 'tokens':
+            return (entry as WatchedToken).symbol;
+        case 'kols':
+            return (entry as WatchedKol).handle;
+        case 'feeds':
+            return (entry as WatchedFeed).url;
+        case 'githubOrgs':
+            return (entry as WatchedOrg).org;
+    }
+}
+
+// Loopback, private, CGNAT and link-local ranges (plus 0/8 and multicast+)
+const PRIVATE_IPV4 = /^(?:0|10|127)\.|^169\.254\.|^172\.(?:1[6-9]|2\d|3[01])\.|^192\.168\.|^100\.(?:6[4-9]|[7-9]\d|1[01]\d|12[0-7])\.|^(?:22[4-9]|2[3-5]\d)\./;
+const PRIVATE_IPV6 = /^(?:::1?|f[cd][0-9a-f]{2}:.*|fe[89ab][0-9a-f]:.*)$/i;
+
+/**
+ * Feed URLs are fetched server-side, so only https URLs on public hosts
+ * are accepted — no loopback, private or link-local addresses and no
+ * internal-only names. Hostnames are not resolved here.
+ */
+export function isPublicFeedUrl(raw: string): boolean {
+    let url: URL;
+    try {
+        url = new URL(raw);
+    } catch {
+        return false;
+    }
+    if (url.protocol !== 'https:' || url.username || url.password) return false;
+
+    // WHATWG URL already normalises "2130706433" / "0x7f.1" to dotted IPv4
+    const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    switch (isIP(host)) {
+        case 4:
+            return !PRIVATE_IPV4.test(host);
+        case 6: {
+            const mapped = host.match(/^::ffff:(.+)$/);
+            if (mapped) {
+                // ::ffff:7f00:1 form → dotted IPv4
+                const hex = mapped[1].match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+                const v4 = hex
+                    ? [parseInt(hex[1], 16) >> 8, parseInt(hex[1], 16) & 255, parseInt(hex[2], 16) >> 8, parseInt(hex[2], 16) & 255].join('.')
+                    : mapped[1];
+                return isIP(v4) === 4 && !PRIVATE_IPV4.test(v4);
+            }
+            return !PRIVATE_IPV6.test(host);
+        }
+        default:
+            return host.includes('.')
+                && !/(?:^|\.)(?:localhost|local|internal|intranet|lan|home\.arpa)$/.test(host);
+    }
+}
+
+function sameKey(list: WatchlistName, a: string, b: string): boolean {
+    return list === 'programs' || list === 'whales' ? a === b : a.toLowerCase() === b.toLowerCase();
+}
+
+function str(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Validate and normalise a raw entry for `list`. Unknown fields are
+ * dropped; returns an error message for the first invalid field.
+ */
+export function parseWatchlistEntry(list: WatchlistName, raw: unknown): WatchlistResult<WatchlistEntry> {
+    if (!raw || typeof raw !== 'object') return { ok: false, status: 400, error: 'Entry must be an object' };
+    const input = raw as Record<string, unknown>;
+    const invalid = (error: string): WatchlistResult<WatchlistEntry> => ({ ok: false, status: 400, error });
+
+    switch (list) {
+        case 'programs': {
+            const name = str(input.name);
+            const address = str(input.address);
+            if (!name) return invalid('name is required');
+            if (!BASE58_ADDRESS.test(address)) return invalid('address must be a base58 program address');
+            return { ok: true, value: { name, address, cat: str(input.cat) || 'Other' } };
+        }
+        case 'whales': {
+            const label = str(input.label);
+            const address = str(input.address);
+            const type = (str(input.type) || 'other') as WatchedWhale['type'];
+            if (!label) return invalid('label is required');
+            if (!BASE58_ADDRESS.test(address)) return invalid('address must be a base58 wallet address');
+            if (!WHALE_TYPES.includes(type)) return invalid(`type must be one of ${WHALE_TYPES.join(', ')}`);
+            return { ok: true, value: { label, address, type } };
+        }
+        case 'tokens': {
+            const symbol = str(input.symbol);
+            const coingeckoId = str(input.coingeckoId);
+            const mint = str(input.mint);
+            if (!symbol) return invalid('symbol is required');
+            if (!coingeckoId && !mint) return invalid('coingeckoId or mint is required');
+            if (mint && !BASE58_ADDRESS.test(mint)) return invalid('mint must be a base58 address');
+            return {
+                ok: true,
+                value: { symbol, ...(coingeckoId && { coingeckoId }), ...(mint && { mint }) },
+            };
+        }
+        case 'kols': {
+            const name = str(input.name);
+            const handle = str(input.handle).replace(/^@/, '');
+            const weight = Number(input.weight ?? 80);
+            const tags = Array.isArray(input.tags)
+                ? input.tags.map(str).filter(Boolean)
+                : str(input.tags).split(',').map(t => t.trim()).filter(Boolean);
+            if (!/^[A-Za-z0-9_]{1,15}$/.test(handle)) return invalid('handle must be a valid X handle');
+            if (!Number.isFinite(weight) || weight < 0 || weight > 100) return invalid('weight must be 0-100');
+            return { ok: true, value: { name: name || handle, handle, tags, weight } };
+        }
+        case 'feeds': {
+            const name = str(input.name);
+            const url = str(input.url);
+            if (!name) return invalid('name is required');
+            if (!/^https:\/\/\S+$/.test(url) || !isPublicFeedUrl(url)) return invalid('url must be an https URL on a public host');
+            return {
+                ok: true,
+                value: { name, url, category: str(input.category) || 'Ecosystem News', solanaOnly: input.solanaOnly !== false },
+            };
+        }
+        case 'githubOrgs': {
+            const org = str(input.org);
+            if (!/^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/.test(org)) return invalid('org must be a GitHub org name');
+            return { ok: true, value: { org } };
+        }
+    }
+}
+
+// ── Storage ──────────────────────────────────────────────────
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const WATCHLISTS_FILE = path.join(DATA_DIR, 'watchlists.json');
+
+// Overrides as stored on disk, plus the mtime they were read at
+let stored: Partial<Watchlists> = {};
+let storedMtimeMs: number | null = null;
+
+async function loadStored(): Promise<Partial<Watchlists>> {
+    try {
+        const stat = await fs.stat(WATCHLISTS_FILE);
+        if (stat.mtimeMs !== storedMtimeMs) {
+            stored = JSON.parse(await fs.readFile(WATCHLISTS_FILE, 'utf-8')) as Partial<Watchlists>;
+            storedMtimeMs = stat.mtimeMs;
+        }
+    } catch (err: unknown) {
+        // No file yet (or unreadable) — keep whatever is in memory
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.warn('Watchlists: read failed, using in-memory lists:', err);
+        }
+    }
+    return stored;
+}
+
+// Simple promise-based mutex so concurrent edits don't lose updates
+let writeLock: Promise<unknown> = Promise.resolve();
+
+function withWriteLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = writeLock.then(fn, fn);
+    writeLock = run.catch(() => {
+        // Never let the lock chain break
+    });
+    return run;
+}
+
+async function persist(next: Partial<Watchlists>): Promise<void> {
+    stored = next;
+    try {
+        await fs.mkdir(DATA_DIR, { recursive: true });
+        // Write to a temp file first, then rename for atomicity
+        const tmp = `${WATCHLISTS_FILE}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(next, null, 2), 'utf-8');
+        await fs.rename(tmp, WATCHLISTS_FILE);
+        storedMtimeMs = (await fs.stat(WATCHLISTS_FILE)).mtimeMs;
+    } catch (err) {
+        // Best-effort — read-only FS keeps the edit in memory for this process
+        console.warn('Watchlists: disk persist failed (non-fatal):', err);
+    }
+}
+
+// ── Public API ───────────────────────────────────────────────
+
+/**
+ * Current watchlists: stored lists where edited, defaults otherwise.
+ */
+export async function getWatchlists(): Promise<Watchlists> {
+    const overrides = await loadStored();
+    const lists = {} as Record<WatchlistName, WatchlistEntry[]>;
+    for (const name of WATCHLIST_NAMES) {
+        lists[name] = Array.isArray(overrides[name]) ? overrides[name]! : DEFAULT_WATCHLISTS[name];
+    }
+    return lists as Watchlists;
+}
+
+export async function getWatchlist<K extends WatchlistName>(list: K): Promise<Watchlists[K]> {
+    return (await getWatchlists())[list];
+}
+
+function updateList(
+    list: WatchlistName,
+    update: (entries: WatchlistEntry[]) => WatchlistResult<WatchlistEntry[]>,
+): Promise<WatchlistResult<WatchlistEntry[]>> {
+    return withWriteLock(async () => {
+        const current = await getWatchlists();
+        const result = update([...current[list]]);
+        if (result.ok) await persist({ ...stored, [list]: result.value });
+        return result;
+    });
+}
+
+/** Add an entry; 409 if one with the same key exists. */
+export function addWatchlistEntry(list: WatchlistName, raw: unknown): Promise<WatchlistResult<WatchlistEntry[]>> {
+    const parsed = parseWatchlistEntry(list, raw);
+    if (!parsed.ok) return Promise.resolve(parsed);
+    const key = entryKey(list, parsed.value);
+
+    return updateList(list, entries => {
+        if (entries.some(e => sameKey(list, entryKey(list, e), key))) {
+            return { ok: false, status: 409, error: `${key} is already on the ${list} watchlist` };
+        }
+        return { ok: true, value: [...entries, parsed.value] };
+    });
+}
+
+/** Replace the entry with `key`; the replacement may change the key. */
+export function updateWatchlistEntry(list: WatchlistName, key: string, raw: unknown): Promise<WatchlistResult<WatchlistEntry[]>> {
+    return updateList(list, entries => {
+        const index = entries.findIndex(e => sameKey(list, entryKey(list, e), key));
+        if (index === -1) return { ok: false, status: 404, error: `${key} is not on the ${list} watchlist` };
+
+        const parsed = parseWatchlistEntry(list, { ...entries[index], ...(raw as object) });
+        if (!parsed.ok) return parsed;
+        const newKey = entryKey(list, parsed.value);
+        if (entries.some((e, i) => i !== index && sameKey(list, entryKey(list, e), newKey))) {
+            return { ok: false, status: 409, error: `${newKey} is already on the ${list} watchlist` };
+        }
+        entries[index] = parsed.value;
+        return { ok: true, value: entries };
+    });
+}
+
+export function removeWatchlistEntry(list: WatchlistName, key: string): Promise<WatchlistResult<WatchlistEntry[]>> {
+    return updateList(list, entries => {
+        const remaining = entries.filter(e => !sameKey(list, entryKey(list, e), key));
+        if (remaining.length === entries.length) {
+            return { ok: false, status: 404, error: `${key} is not on the ${list} watchlist` };
+        }
+        return { ok: true, value: remaining };
+    });
+}
+
+/** Replace a whole list; every entry is validated and keys must be unique. */
+export function replaceWatchlist(list: WatchlistName, raw: unknown): Promise<WatchlistResult<WatchlistEntry[]>> {
+    if (!Array.isArray(raw)) return Promise.resolve({ ok: false, status: 400, error: 'Body must be an array of entries' });
+
+    const entries: WatchlistEntry[] = [];
+    for (const [i, item] of raw.entries()) {
+        const parsed = parseWatchlistEntry(list, item);
+        if (!parsed.ok) return Promise.resolve({ ...parsed, error: `Entry ${i}: ${parsed.error}` });
+        const key = entryKey(list, parsed.value);
+        if (entries.some(e => sameKey(list, entryKey(list, e), key))) {
+            return Promise.resolve({ ok: false, status: 400, error: `Entry ${i}: duplicate ${key}` });
+        }
+        entries.push(parsed.value);
+    }
+    return updateList(list, () => ({ ok: true, value: entries }));
+}
+
+/** Drop a list's stored overrides so it falls back to the defaults. */
+export function resetWatchlist(list: WatchlistName): Promise<WatchlistResult<WatchlistEntry[]>> {
+    return withWriteLock(async () => {
+        await loadStored();
+        const next = { ...stored };
+        delete next[list];
+        await persist(next);
+        return { ok: true, value: DEFAULT_WATCHLISTS[list] };
+    });
+}